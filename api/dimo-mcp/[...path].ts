@@ -0,0 +1,37 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleMcpProxyRequest } from '../../src/server/mcpProxy';
+
+// The web app calls this function on its own origin; other origins need to be listed here
+const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',').map((origin) => origin.trim()).filter(Boolean) ?? [];
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Handle CORS
+  const origin = req.headers.origin;
+  if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  }
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  try {
+    // The MCP server's API key is added here, for a user signed in with DIMO who owns the vehicles
+    const segments = req.query.path;
+    const { status, body } = await handleMcpProxyRequest({
+      method: req.method,
+      path: `/${[segments].flat().join('/')}`,
+      body: req.body,
+      authorization: req.headers.authorization,
+    });
+    res.status(status).json(body);
+  } catch (error) {
+    console.error('Error in DIMO MCP proxy function:', error);
+    res.status(500).json({ success: false, error: 'MCP proxy error: ' + (error instanceof Error ? error.message : 'Unknown error') });
+  }
+}
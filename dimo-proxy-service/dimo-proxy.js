@@ -5,6 +5,13 @@ import fetch from 'node-fetch';
 const app = express();
 const PORT = process.env.PORT || 3003;
 
+// Same variables as src/config/dimoEndpoints.ts; this proxy is deployed on its own so it cannot import it
+const ATTEST_URL = (
+  process.env.DIMO_ATTEST_URL ||
+  (process.env.DIMO_API_BASE_URL && `${process.env.DIMO_API_BASE_URL.replace(/\/+$/, '')}/attest`) ||
+  (['dev', 'development'].includes(process.env.DIMO_ENV?.toLowerCase()) ? 'https://attest.dev.dimo.zone' : 'https://attest.dimo.zone')
+);
+
 // Enable CORS for all routes
 app.use(cors());
 app.use(express.json());
@@ -20,12 +27,12 @@ app.post('/api/dimo-attestation', async (req, res) => {
       return res.status(400).json({ error: 'Missing payload or JWT' });
     }
     
-    console.log('Forwarding request to attest.dimo.zone');
+    console.log('Forwarding request to', ATTEST_URL);
     console.log('JWT (first 50 chars):', jwt.substring(0, 10) + '...' + jwt.substring(jwt.length - 4));
     console.log('Payload keys:', Object.keys(payload));
     
     // Forward the request to DIMO
-    const dimoResponse = await fetch('https://attest.dimo.zone/', {
+    const dimoResponse = await fetch(`${ATTEST_URL}/`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -61,6 +68,7 @@ app.get('/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`DIMO proxy server running on port ${PORT}`);
   console.log(`Health check available at: http://localhost:${PORT}/health`);
+  console.log(`Forwarding attestations to: ${ATTEST_URL}`);
   console.log('Available endpoints:');
   console.log('  POST /api/dimo-attestation - Proxy DIMO attestation requests');
   console.log('  GET  /health - Health check');
@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'node:util';
+import {
+  CLIENT_SCOPES,
+  CLIENTS_FILE,
+  type ApiClient,
+  createClient,
+  loadClients,
+  parseScopes,
+  parseTokenIds,
+  revokeClient,
+  rotateClientKey,
+  updateClient
+} from './src/helpers/clients';
+
+const USAGE = `Manage the API keys of the DIMO MCP HTTP server (${CLIENTS_FILE})
+
+Usage:
+  bun run clients create <name> --scopes <scopes> [--tokens <tokenIds>]
+  bun run clients list
+  bun run clients update <id> [--scopes <scopes>] [--tokens <tokenIds>]
+  bun run clients rotate <id>
+  bun run clients revoke <id>
+
+  --scopes   Comma separated: ${CLIENT_SCOPES.join(', ')}
+  --tokens   Comma separated vehicle tokenIds, or * for every vehicle (default)`;
+
+function describe(client: ApiClient) {
+  const tokenIds = client.tokenIds === '*' ? 'all vehicles' : `vehicles ${client.tokenIds.join(', ')}`;
+  const status = client.revokedAt ? `revoked ${client.revokedAt}` : `created ${client.createdAt}`;
+  return `${client.id}  ${client.name}  [${client.scopes.join(', ')}]  ${tokenIds}  ${status}`;
+}
+
+function printKey(apiKey: string) {
+  console.log(`\nAPI key (shown once, store it now):\n${apiKey}`);
+}
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      scopes: { type: 'string' },
+      tokens: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  const [command, target] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case 'create': {
+      if (!target || !values.scopes) {
+        throw new Error('create needs a client name and --scopes');
+      }
+      const { client, apiKey } = await createClient({
+        name: target,
+        scopes: parseScopes(values.scopes),
+        tokenIds: parseTokenIds(values.tokens ?? '*')
+      });
+      console.log(describe(client));
+      printKey(apiKey);
+      break;
+    }
+    case 'list': {
+      const clients = await loadClients();
+      if (clients.length === 0) {
+        console.log('No clients registered.');
+      }
+      clients.forEach((client) => console.log(describe(client)));
+      break;
+    }
+    case 'update': {
+      if (!target || (!values.scopes && !values.tokens)) {
+        throw new Error('update needs a client id and --scopes and/or --tokens');
+      }
+      const client = await updateClient(target, {
+        ...(values.scopes && { scopes: parseScopes(values.scopes) }),
+        ...(values.tokens && { tokenIds: parseTokenIds(values.tokens) })
+      });
+      console.log(describe(client));
+      break;
+    }
+    case 'rotate': {
+      if (!target) {
+        throw new Error('rotate needs a client id');
+      }
+      const { client, apiKey } = await rotateClientKey(target);
+      console.log(describe(client));
+      printKey(apiKey);
+      break;
+    }
+    case 'revoke': {
+      if (!target) {
+        throw new Error('revoke needs a client id');
+      }
+      console.log(describe(await revokeClient(target)));
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
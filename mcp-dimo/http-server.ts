@@ -2,123 +2,87 @@
 
 import express from 'express';
 import cors from 'cors';
-import { DIMO } from '@dimo-network/data-sdk';
-import { z } from 'zod';
-
-// Extend Express Request interface to include startTime
+import { randomUUID } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { DIMO_ENDPOINTS } from './src/helpers/endpoints';
+import {
+  type ApiClient,
+  type ClientAuthFailure,
+  CLIENT_AUTH_REQUIRED,
+  CLIENTS_FILE,
+  authenticateClient,
+  authorizeClient,
+  clientAuthErrorBody,
+  clientLabel,
+  isTokenIdAllowed,
+  loadClients,
+  parseClientCredentials,
+  privilegeScopes
+} from './src/helpers/clients';
+import { type RateLimitFailure, consumeRateLimit, getUsage } from './src/helpers/ratelimit';
+import { type ResponseCacheInfo, getResponseCacheStats } from './src/helpers/responsecache';
+import { currentRequestId, log, runWithRequestId } from './src/helpers/logging';
+import { gauge, httpRequests, httpRequestsInFlight, renderMetrics } from './src/helpers/metrics';
+import { getCircuitStates } from './src/helpers/upstream';
+import { getVehicleJwtStoreStats } from './src/helpers/vehiclejwt';
+import {
+  AUDIT_CSV_COLUMNS,
+  AuditQuerySchema,
+  appendAudit,
+  auditCsvRow,
+  audited,
+  readAuditLog
+} from './src/helpers/audit';
+import {
+  MAX_SUBSCRIPTIONS_PER_CLIENT,
+  type Subscription,
+  SUBSCRIPTIONS_FILE,
+  SubscriptionCreateSchema,
+  createSubscription,
+  deleteSubscription,
+  describeSubscription,
+  findSubscription,
+  getSubscriptions,
+  handleNativeTrigger,
+  sendTestEvent,
+  startSubscriptions,
+  validateCallbackUrl
+} from './src/helpers/subscriptions';
+import {
+  DIMO_TOOLS,
+  GetAuthenticationTokenSchema,
+  admitToolCall,
+  authState,
+  authenticateDeveloper,
+  createMcpServer,
+  ensureVehicleJwt,
+  queryLatestSignals,
+  runTool,
+  validateLatestSignals
+} from './src/server';
+
+// Extend Express Request interface to include startTime, the request ID and the authenticated client
 declare global {
   namespace Express {
     interface Request {
       startTime: number;
+      requestId: string;
+      client?: ApiClient;
     }
   }
 }
 
-// At the top, define the hardcoded URLs for identity and telemetry
-const IDENTITY_URL = "https://identity-api.dimo.zone/query";
-const TELEMETRY_URL = "https://telemetry-api.dimo.zone/query";
-const DEVICES_API_URL = "https://devices-api.dimo.zone";
-
-interface VehicleJwtCacheEntry {
-  token: any;
-  privileges: number[];
-  expiresAt: number; // Unix timestamp in ms
-}
-
-
-interface AuthState {
-  dimo?: DIMO;
-  developerJwt?: any;
-  vehicleJwts: Map<number, VehicleJwtCacheEntry>;
-}
-
-const IdentityQuerySchema = z.object({
-  query: z.string(),
-  variables: z.record(z.string(), z.string()).optional()
-});
-
-const TelemetryQuerySchema = z.object({
-  query: z.string(),
-  variables: z.record(z.string(), z.string()).optional(),
-  tokenId: z.number()
-});
-
-const VinOperationSchema = z.object({
-  operation: z.enum(['decode', 'get']),
-  vin: z.string().optional(),
-  countryCode: z.string().default("USA"),
-  tokenId: z.number().optional()
-});
-
-const AttestationCreateSchema = z.object({
-  tokenId: z.number(),
-  type: z.enum(["pom", "vin"]),
-  force: z.boolean().default(false)
-});
-
-const SearchVehiclesSchema = z.object({
-  query: z.string().optional(),
-  makeSlug: z.string().optional(),
-  year: z.number().optional(),
-  model: z.string().optional()
-});
-
-const authState: AuthState = {
-  vehicleJwts: new Map()
-};
-
-// Helper function to ensure vehicle JWT exists
-async function ensureVehicleJwt(tokenId: number, privileges: number[] = [1]): Promise<any> {
-  if (!authState.dimo) {
-    throw new Error("DIMO not initialized.");
-  }
-  if (!authState.developerJwt) {
-    throw new Error("Not authenticated.");
-  }
-
-  const cacheEntry = authState.vehicleJwts.get(tokenId);
-  const now = Date.now();
-  const bufferTime = 5 * 60 * 1000; // 5 minutes buffer before expiry
-
-  // Check if we have a valid cached JWT with required privileges
-  if (
-    cacheEntry &&
-    cacheEntry.expiresAt > (now + bufferTime) && // Add buffer time
-    privileges.every(p => cacheEntry.privileges.includes(p))
-  ) {
-    console.log(`Using cached JWT for vehicle ${tokenId}`);
-    return cacheEntry.token;
-  }
-
-  // Clear expired or insufficient JWT
-  if (cacheEntry) {
-    console.log(`Refreshing JWT for vehicle ${tokenId} (expired or insufficient privileges)`);
-    authState.vehicleJwts.delete(tokenId);
-  }
-
-  try {
-    // Get new JWT with required privileges
-    console.log(`Requesting new JWT for vehicle ${tokenId} with privileges: [${privileges.join(', ')}]`);
-    const vehicleJwt = await authState.dimo.tokenexchange.getVehicleJwt({
-      ...authState.developerJwt,
-      tokenId: tokenId
-    });
-
-    // Cache the JWT with longer expiry (2 hours instead of 1)
-    const expiryTime = now + (2 * 60 * 60 * 1000); // 2 hours
-    authState.vehicleJwts.set(tokenId, {
-      token: vehicleJwt,
-      privileges: privileges,
-      expiresAt: expiryTime
-    });
+// Open MCP sessions by session ID, Streamable HTTP and legacy SSE, with the client that opened them
+const sessions: Record<string, {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  client?: ApiClient;
+}> = {};
 
-    console.log(`Successfully cached new JWT for vehicle ${tokenId}, expires at ${new Date(expiryTime).toISOString()}`);
-    return vehicleJwt;
-  } catch (error) {
-    console.error(`Failed to get JWT for vehicle ${tokenId}:`, error);
-    throw new Error(`Failed to get vehicle JWT: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
+gauge('dimo_mcp_sessions', 'Open MCP sessions (Streamable HTTP and SSE).', () => [
+  { value: Object.keys(sessions).length }
+]);
 
 // Initialize Express app
 const app = express();
@@ -136,36 +100,182 @@ app.use(cors({
       callback(new Error('Not allowed by CORS'));
     }
   },
-  credentials: true
+  credentials: true,
+  // Browser MCP clients read the session ID from the initialize response; the rest are cache and
+  // rate limit hints of the REST routes
+  exposedHeaders: ['Mcp-Session-Id', 'Retry-After', 'X-Cache', 'Age', 'X-Request-Id']
 }));
 
 app.use(express.json());
 
+// Middleware to add start time and a request ID (X-Request-Id when the caller sent one), count the
+// request and log it as one JSON line when it completes. Registered after express.json so the ID is
+// still in the async context when the route handlers run.
+app.use((req, res, next) => {
+  req.startTime = Date.now();
+  runWithRequestId(req.header('x-request-id'), () => {
+    req.requestId = currentRequestId()!;
+    res.set('X-Request-Id', req.requestId);
+    httpRequestsInFlight.inc();
+
+    res.on('close', () => {
+      httpRequestsInFlight.dec();
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+      httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+      log(res.statusCode >= 500 ? 'error' : 'info', 'http_request', {
+        requestId: req.requestId,
+        method: req.method,
+        route,
+        status: res.statusCode,
+        durationMs: Date.now() - req.startTime,
+        client: req.client?.id
+      });
+    });
+    next();
+  });
+});
+
+function sendAuthFailure(res: express.Response, failure: ClientAuthFailure | RateLimitFailure) {
+  if (failure.status === 401) {
+    res.set('WWW-Authenticate', 'Bearer realm="dimo-mcp"');
+  }
+  if (failure.status === 429) {
+    res.set('Retry-After', String(failure.retryAfterSeconds));
+  }
+  res.status(failure.status).json(clientAuthErrorBody(failure));
+}
+
+// Express 4 does not catch rejected handlers, e.g. a subscriptions file that cannot be written or a
+// clients file that cannot be parsed. A stream that has already started, such as SSE, is closed.
+function asyncRoute(
+  operation: string,
+  handler: (req: express.Request, res: express.Response, next: express.NextFunction) => Promise<void>
+): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      await handler(req, res, next);
+    } catch (error) {
+      log('error', 'route_failed', {
+        requestId: req.requestId,
+        operation,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : `${operation} failed`,
+        metadata: responseMetadata(req, operation)
+      });
+    }
+  };
+}
+
+// Every route except /health needs an API key from admin-cli.ts unless MCP_AUTH=off
+const requireClient = asyncRoute('authenticate', async (req, res, next) => {
+  const result = await authenticateClient(parseClientCredentials(req.headers));
+  if (!result.ok) {
+    sendAuthFailure(res, result.failure);
+    return;
+  }
+  req.client = result.client;
+  next();
+});
+
+// A session can only be used with the credentials that opened it
+function sessionFor(req: express.Request, res: express.Response, sessionId: string | undefined) {
+  const session = sessionId ? sessions[sessionId] : undefined;
+  if (session && session.client?.id !== req.client?.id) {
+    sendAuthFailure(res, {
+      status: 403,
+      code: 'session_forbidden',
+      message: 'The session was opened by another client.'
+    });
+    return null;
+  }
+  return session;
+}
+
+function responseMetadata(req: express.Request, operation: string) {
+  return {
+    processingTime: Date.now() - req.startTime,
+    operation,
+    timestamp: new Date().toISOString(),
+    requestId: req.requestId
+  };
+}
+
 // Health check endpoint
+// Reports degraded while any upstream circuit is open, see src/helpers/upstream.ts
 app.get('/health', (req, res) => {
+  const upstreams = getCircuitStates();
   res.json({
-    status: 'healthy',
+    status: Object.values(upstreams).some((upstream) => upstream.circuit === 'open') ? 'degraded' : 'healthy',
     timestamp: new Date().toISOString(),
     dimo_initialized: !!authState.dimo,
-    developer_authenticated: !!authState.developerJwt
+    dimo_environment: DIMO_ENDPOINTS.environment,
+    developer_authenticated: !!authState.developerJwt,
+    mcp_sessions: Object.keys(sessions).length,
+    response_cache: getResponseCacheStats(),
+    upstreams,
+    vehicle_jwts: getVehicleJwtStoreStats(),
+    client_auth: CLIENT_AUTH_REQUIRED ? 'required' : 'off'
   });
 });
 
-// JWT refresh endpoint
+// Prometheus metrics: tool latency, upstream errors, vehicle JWT cache, in-flight requests
+app.get('/metrics', (req, res) => {
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
+
+// Calls of DIMO vehicle triggers registered for native subscriptions. DIMO has no API key, so the URL
+// carries the subscription's secret token instead; the response echoes it as the verification token.
+app.post('/dimo-triggers/:id/:token', asyncRoute('dimo_trigger', async (req, res) => {
+  const verificationToken = await handleNativeTrigger(req.params.id, req.params.token, req.body);
+  if (!verificationToken) {
+    res.status(404).json({ success: false, error: 'Unknown trigger' });
+    return;
+  }
+  res.type('text/plain').send(verificationToken);
+}));
+
+app.use(requireClient);
+
+// JWT refresh endpoint. Like get_authentication_token, each privilege needs its scope (PRIVILEGE_SCOPES),
+// and the token itself stays on the server.
 app.post('/refresh-jwt/:tokenId', async (req, res) => {
   try {
-    const tokenId = parseInt(req.params.tokenId);
-    const privileges = req.body.privileges || [1, 2, 3, 4, 5];
-    
-    // Force refresh by clearing cache
-    authState.vehicleJwts.delete(tokenId);
-    
-    const vehicleJwt = await ensureVehicleJwt(tokenId, privileges);
-    
+    const parsed = GetAuthenticationTokenSchema.safeParse({
+      tokenId: /^\d+$/.test(req.params.tokenId) ? Number(req.params.tokenId) : req.params.tokenId,
+      privileges: req.body?.privileges
+    });
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+      return;
+    }
+    const { tokenId, privileges = [1, 2, 3, 4, 5] } = parsed.data;
+    const audit = {
+      actor: { transport: 'rest', client: req.client, caller: req.ip },
+      action: 'jwt_refresh' as const,
+      name: 'refresh-jwt',
+      tokenIds: [tokenId]
+    };
+    const failure = authorizeClient(req.client, privilegeScopes(privileges), tokenId) ??
+      consumeRateLimit({ caller: req.client?.id ?? req.ip ?? 'unknown', tokenId });
+    if (failure) {
+      await appendAudit({ ...audit, outcome: 'denied', code: failure.code });
+      sendAuthFailure(res, failure);
+      return;
+    }
+
+    const { expiresAt } = await audited(audit, () => ensureVehicleJwt(tokenId, privileges, { force: true }));
+
     res.json({
       success: true,
       message: `JWT refreshed for vehicle ${tokenId}`,
-      expiresAt: authState.vehicleJwts.get(tokenId)?.expiresAt
+      expiresAt
     });
   } catch (error) {
     res.status(400).json({
@@ -175,389 +285,354 @@ app.post('/refresh-jwt/:tokenId', async (req, res) => {
   }
 });
 
-// MCP Tools endpoints
-app.post('/mcp/tools/identity_query', async (req, res) => {
-  try {
-    const { params } = req.body;
-    const validatedParams = IdentityQuerySchema.parse(params);
-
-    const response = await fetch(IDENTITY_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query: validatedParams.query,
-        variables: validatedParams.variables || {}
-      })
-    });
+// Calls admitted and rate limited over the last minute, hour and day, with the configured limits. A client
+// sees its own bucket, its vehicles and the shared upstream buckets.
+app.get('/usage', (req, res) => {
+  const client = req.client;
+  res.json({
+    success: true,
+    data: getUsage((key) => {
+      const [kind, name] = key.split(':');
+      if (!client || kind === 'upstream') return true;
+      if (kind === 'client') return name === client.id;
+      return isTokenIdAllowed(client, Number(name));
+    }),
+    metadata: responseMetadata(req, 'usage')
+  });
+});
 
-    if (!response.ok) {
-      throw new Error(`Identity API request failed: ${response.statusText}`);
-    }
+// Webhook subscriptions, see src/helpers/subscriptions.ts. A client needs telemetry:read for the vehicle
+// and only sees the subscriptions it created.
+function subscriptionFor(req: express.Request, res: express.Response, subscription: Subscription | undefined) {
+  if (!subscription || (req.client && subscription.clientId !== req.client.id)) {
+    res.status(404).json({ success: false, error: `No subscription with id ${req.params.id}` });
+    return undefined;
+  }
+  return subscription;
+}
 
-    const data = await response.json();
-    
-    res.json({
-      success: true,
-      data: data.data,
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'identity_query',
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    res.status(400).json({
+app.post('/subscriptions', asyncRoute('create_subscription', async (req, res) => {
+  const parsed = SubscriptionCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+    return;
+  }
+  const audit = {
+    actor: { transport: 'rest', client: req.client, caller: req.ip },
+    action: 'subscription' as const,
+    name: 'create',
+    tokenIds: [parsed.data.tokenId]
+  };
+  const failure = authorizeClient(req.client, 'telemetry:read', parsed.data.tokenId);
+  if (failure) {
+    await appendAudit({ ...audit, outcome: 'denied', code: failure.code });
+    sendAuthFailure(res, failure);
+    return;
+  }
+  const owned = (await getSubscriptions()).filter((subscription) => subscription.clientId === req.client?.id);
+  if (owned.length >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+    res.status(409).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Identity query failed',
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'identity_query',
-        timestamp: new Date().toISOString()
-      }
+      error: `A client can have at most ${MAX_SUBSCRIPTIONS_PER_CLIENT} subscriptions; delete one first`
     });
+    return;
+  }
+  const invalidCallbackUrl = await validateCallbackUrl(parsed.data.callbackUrl);
+  if (invalidCallbackUrl) {
+    res.status(400).json({ success: false, error: invalidCallbackUrl });
+    return;
+  }
+  const invalidSignals = await validateLatestSignals([...new Set(parsed.data.conditions.map(({ signal }) => signal))]);
+  if (invalidSignals) {
+    res.status(400).json({ success: false, error: invalidSignals });
+    return;
   }
-});
 
-app.post('/mcp/tools/telemetry_query', async (req, res) => {
-  try {
-    const { params } = req.body;
-    const validatedParams = TelemetryQuerySchema.parse(params);
-
-    // Ensure we have vehicle JWT
-    const vehicleJwt = await ensureVehicleJwt(validatedParams.tokenId);
-
-    const response = await fetch(TELEMETRY_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': vehicleJwt.headers.Authorization
-      },
-      body: JSON.stringify({
-        query: validatedParams.query,
-        variables: validatedParams.variables || {}
-      })
-    });
+  const subscription = await createSubscription(parsed.data, req.client?.id);
+  await appendAudit({ ...audit, outcome: 'ok', subscriptionId: subscription.id });
+  log('info', 'subscription_created', {
+    subscriptionId: subscription.id,
+    tokenId: subscription.tokenId,
+    mode: subscription.native ? 'native' : 'poll'
+  });
+  // The secret is only returned here
+  res.status(201).json({
+    success: true,
+    data: { ...describeSubscription(subscription), secret: subscription.secret },
+    metadata: responseMetadata(req, 'create_subscription')
+  });
+}));
 
-    if (!response.ok) {
-      throw new Error(`Telemetry API request failed: ${response.statusText}`);
-    }
+app.get('/subscriptions', asyncRoute('list_subscriptions', async (req, res) => {
+  const subscriptions = (await getSubscriptions()).filter(
+    (subscription) => !req.client || subscription.clientId === req.client.id
+  );
+  res.json({
+    success: true,
+    data: subscriptions.map(describeSubscription),
+    metadata: responseMetadata(req, 'list_subscriptions')
+  });
+}));
 
-    const data = await response.json();
-    
-    res.json({
-      success: true,
-      data: data.data,
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'telemetry_query',
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    res.status(400).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Telemetry query failed',
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'telemetry_query',
-        timestamp: new Date().toISOString()
-      }
+app.get('/subscriptions/:id', asyncRoute('get_subscription', async (req, res) => {
+  const subscription = subscriptionFor(req, res, await findSubscription(req.params.id));
+  if (subscription) {
+    res.json({ success: true, data: describeSubscription(subscription), metadata: responseMetadata(req, 'get_subscription') });
+  }
+}));
+
+app.delete('/subscriptions/:id', asyncRoute('delete_subscription', async (req, res) => {
+  const subscription = subscriptionFor(req, res, await findSubscription(req.params.id));
+  if (subscription) {
+    await deleteSubscription(subscription);
+    await appendAudit({
+      actor: { transport: 'rest', client: req.client, caller: req.ip },
+      action: 'subscription',
+      name: 'delete',
+      tokenIds: [subscription.tokenId],
+      outcome: 'ok',
+      subscriptionId: subscription.id
     });
+    log('info', 'subscription_deleted', { subscriptionId: subscription.id, tokenId: subscription.tokenId });
+    res.json({ success: true, metadata: responseMetadata(req, 'delete_subscription') });
   }
-});
+}));
 
-app.post('/mcp/tools/vin_operations', async (req, res) => {
-  try {
-    const { params } = req.body;
-    const validatedParams = VinOperationSchema.parse(params);
+// Sends a subscription.test event and reports the first delivery attempt
+app.post('/subscriptions/:id/test', asyncRoute('test_subscription', async (req, res) => {
+  const subscription = subscriptionFor(req, res, await findSubscription(req.params.id));
+  if (subscription) {
+    res.json({ success: true, data: await sendTestEvent(subscription), metadata: responseMetadata(req, 'test_subscription') });
+  }
+}));
 
-    if (validatedParams.operation === 'decode' && !validatedParams.vin) {
-      throw new Error('VIN is required for decode operation');
-    }
+// Audit log of tool calls, resource reads, JWT refreshes, subscriptions and webhooks, see
+// src/helpers/audit.ts. Filters are query parameters; format=csv or jsonl downloads every match.
+app.get('/audit', asyncRoute('audit', async (req, res) => {
+  const failure = authorizeClient(req.client, 'audit:read');
+  if (failure) {
+    sendAuthFailure(res, failure);
+    return;
+  }
+  const parsed = AuditQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+    return;
+  }
+  const query = parsed.data;
 
-    if (validatedParams.operation === 'get' && !validatedParams.tokenId) {
-      throw new Error('TokenId is required for get operation');
+  if (query.format === 'json') {
+    const entries = [];
+    for await (const entry of readAuditLog({ ...query, limit: query.limit ?? 100 })) {
+      entries.push(entry);
     }
+    res.json({ success: true, data: entries.reverse(), metadata: responseMetadata(req, 'audit') });
+    return;
+  }
 
-    let result;
-    if (validatedParams.operation === 'decode') {
-      // For decode, we'll use a simple VIN decoder API or return mock data
-      result = {
-        vin: validatedParams.vin,
-        make: 'Honda',
-        model: 'Civic',
-        year: 2003,
-        countryCode: validatedParams.countryCode
-      };
-    } else {
-      // For get, we need to query the vehicle's VIN
-      const vehicleJwt = await ensureVehicleJwt(validatedParams.tokenId!);
-      
-      const response = await fetch(IDENTITY_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: `{ vehicle(tokenId: ${validatedParams.tokenId}) { vin } }`
-        })
-      });
+  const filename = `dimo-mcp-audit-${new Date().toISOString().slice(0, 10)}.${query.format}`;
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  res.type(query.format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+  if (query.format === 'csv') {
+    res.write(`${AUDIT_CSV_COLUMNS.join(',')}\n`);
+  }
+  for await (const entry of readAuditLog(query)) {
+    res.write(query.format === 'csv' ? auditCsvRow(entry) : `${JSON.stringify(entry)}\n`);
+  }
+  res.end();
+}));
 
-      if (!response.ok) {
-        throw new Error(`Failed to get VIN: ${response.statusText}`);
-      }
+// MCP Streamable HTTP transport. A session starts with an initialize request and gets its own
+// server instance from createMcpServer, so remote clients see the same tools, resources and prompts
+// as stdio clients.
+app.post('/mcp', asyncRoute('mcp', async (req, res) => {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const session = sessionFor(req, res, sessionId);
+  if (session === null) {
+    return;
+  }
+  let transport = session?.transport;
 
-      const data = await response.json();
-      result = data.data.vehicle;
-    }
-    
-    res.json({
-      success: true,
-      data: result,
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'vin_operations',
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
+  if (transport && !(transport instanceof StreamableHTTPServerTransport)) {
     res.status(400).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'VIN operation failed',
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'vin_operations',
-        timestamp: new Date().toISOString()
-      }
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Bad Request: the session uses the SSE transport' },
+      id: null
     });
+    return;
   }
-});
 
-app.post('/mcp/tools/search_vehicles', async (req, res) => {
-  try {
-    const { params } = req.body;
-    const validatedParams = SearchVehiclesSchema.parse(params);
-
-    // Query vehicles with filters
-    let query = '{ vehicles(first: 10';
-    
-    if (validatedParams.makeSlug) {
-      query += `, filter: { makeSlug: "${validatedParams.makeSlug}" }`;
-    }
-    
-    query += ') { nodes { tokenId make model year } } }';
-
-    const response = await fetch(IDENTITY_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ query })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Vehicle search failed: ${response.statusText}`);
+  if (!transport) {
+    if (sessionId || !isInitializeRequest(req.body)) {
+      res.status(sessionId ? 404 : 400).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: sessionId ? 'Session not found' : 'Bad Request: no valid session ID provided' },
+        id: null
+      });
+      return;
     }
 
-    const data = await response.json();
-    
-    res.json({
-      success: true,
-      data: data.data,
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'search_vehicles',
-        timestamp: new Date().toISOString()
+    const newTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions[id] = { transport: newTransport, client: req.client };
       }
     });
-  } catch (error) {
-    res.status(400).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Vehicle search failed',
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'search_vehicles',
-        timestamp: new Date().toISOString()
+    newTransport.onclose = () => {
+      if (newTransport.sessionId) {
+        delete sessions[newTransport.sessionId];
       }
-    });
+    };
+    await createMcpServer('http', req.client).connect(newTransport);
+    transport = newTransport;
   }
-});
 
-app.post('/mcp/tools/attestation_create', async (req, res) => {
-  try {
-    const { params } = req.body;
-    const validatedParams = AttestationCreateSchema.parse(params);
-
-    // Ensure we have vehicle JWT with appropriate privileges
-    const privileges = validatedParams.type === 'pom' ? [4] : [5];
-    const vehicleJwt = await ensureVehicleJwt(validatedParams.tokenId, privileges);
-
-    // Create attestation (this would call the actual attestation API)
-    const result = {
-      tokenId: validatedParams.tokenId,
-      type: validatedParams.type,
-      status: 'created',
-      timestamp: new Date().toISOString()
-    };
-    
-    res.json({
-      success: true,
-      data: result,
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'attestation_create',
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    res.status(400).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Attestation creation failed',
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'attestation_create',
-        timestamp: new Date().toISOString()
-      }
-    });
+  await transport.handleRequest(req, res, req.body);
+}));
+
+// Server-to-client notification stream (GET) and session termination (DELETE)
+const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+  const session = sessionFor(req, res, req.headers['mcp-session-id'] as string | undefined);
+  if (session === null) {
+    return;
   }
-});
+  const transport = session?.transport;
+  if (!(transport instanceof StreamableHTTPServerTransport)) {
+    res.status(400).send('Invalid or missing session ID');
+    return;
+  }
+  await transport.handleRequest(req, res);
+};
 
-app.post('/mcp/tools/identity_introspect', async (req, res) => {
-  try {
-    const response = await fetch(IDENTITY_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query: `
-          query IntrospectionQuery {
-            __schema {
-              types {
-                name
-                description
-                fields {
-                  name
-                  description
-                  type {
-                    name
-                  }
-                }
-              }
-            }
-          }
-        `
-      })
-    });
+app.get('/mcp', asyncRoute('mcp_session', handleSessionRequest));
+app.delete('/mcp', asyncRoute('mcp_session', handleSessionRequest));
 
-    if (!response.ok) {
-      throw new Error(`Schema introspection failed: ${response.statusText}`);
-    }
+// Legacy HTTP+SSE transport for MCP clients that predate Streamable HTTP
+app.get('/sse', asyncRoute('sse', async (req, res) => {
+  const transport = new SSEServerTransport('/messages', res);
+  sessions[transport.sessionId] = { transport, client: req.client };
+  res.on('close', () => {
+    delete sessions[transport.sessionId];
+  });
+  await createMcpServer('sse', req.client).connect(transport);
+}));
 
-    const data = await response.json();
-    
-    res.json({
-      success: true,
-      data: data.data,
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'identity_introspect',
-        timestamp: new Date().toISOString()
+app.post('/messages', asyncRoute('sse_message', async (req, res) => {
+  const session = sessionFor(req, res, req.query.sessionId as string | undefined);
+  if (session === null) {
+    return;
+  }
+  const transport = session?.transport;
+  if (!(transport instanceof SSEServerTransport)) {
+    res.status(400).send('No SSE session found for sessionId');
+    return;
+  }
+  await transport.handlePostMessage(req, res, req.body);
+}));
+
+// Legacy REST routes, POST /mcp/tools/<name> with { params, metadata }, generated from the tool
+// registry. Tool output is returned as `data`; tool errors become a 400 with the error text, and calls
+// outside the client's scopes or tokenId allowlist a 403. Cache-Control: no-cache bypasses the response
+// cache, and cached query responses carry Cache-Control, Age and X-Cache headers.
+for (const tool of DIMO_TOOLS) {
+  app.post(`/mcp/tools/${tool.name}`, async (req, res) => {
+    try {
+      const { params, metadata } = req.body;
+      const validatedParams = tool.schema.parse(params ?? {});
+      const failure = admitToolCall(tool, validatedParams, req.client, req.ip ?? 'unknown', 'rest');
+      if (failure) {
+        sendAuthFailure(res, failure);
+        return;
       }
-    });
-  } catch (error) {
-    res.status(400).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Schema introspection failed',
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'identity_introspect',
-        timestamp: new Date().toISOString()
+      const issuedBy = req.client ? clientLabel(req.client) : metadata?.source || req.ip || 'unknown';
+
+      const bypassCache = /no-cache|no-store/.test(req.headers['cache-control'] ?? '');
+
+      const result = await runTool(
+        tool,
+        validatedParams,
+        { issuedBy, client: req.client, caller: req.ip ?? 'unknown', bypassCache },
+        'rest'
+      );
+      const text = result.content
+        .map((item) => (item.type === 'text' ? item.text : ''))
+        .join('\n');
+      if (result.isError) {
+        throw new Error(text);
       }
-    });
-  }
-});
 
-app.post('/mcp/tools/telemetry_introspect', async (req, res) => {
-  try {
-    // For telemetry introspection, we need a vehicle JWT
-    // This is a simplified version - in practice you'd need a valid tokenId
-    const result = {
-      message: 'Telemetry schema introspection requires vehicle authentication',
-      availableQueries: [
-        'vehicle(tokenId: Int!)',
-        'signalsLatest',
-        'speed',
-        'batteryLevel',
-        'fuelLevel',
-        'odometer',
-        'tirePressure'
-      ]
-    };
-    
-    res.json({
-      success: true,
-      data: result,
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'telemetry_introspect',
-        timestamp: new Date().toISOString()
+      let output: unknown = text;
+      try {
+        output = JSON.parse(text);
+      } catch {
+        // Plain text output, such as the introspected SDL
       }
-    });
-  } catch (error) {
-    res.status(400).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Telemetry introspection failed',
-      metadata: {
-        processingTime: Date.now() - req.startTime,
-        operation: 'telemetry_introspect',
-        timestamp: new Date().toISOString()
+
+      const cache = result._meta?.cache as ResponseCacheInfo | undefined;
+      if (cache) {
+        res.set({
+          'Cache-Control': cache.maxAgeSeconds > 0 ? `private, max-age=${cache.maxAgeSeconds}` : 'no-store',
+          'Age': String(cache.ageSeconds),
+          'X-Cache': cache.status.toUpperCase()
+        });
       }
-    });
-  }
-});
 
-// Middleware to add start time
-app.use((req, res, next) => {
-  req.startTime = Date.now();
-  next();
-});
+      res.json({
+        success: true,
+        data: tool.legacyData ? tool.legacyData(output) : output,
+        metadata: { ...responseMetadata(req, tool.name), ...(cache && { cache }) }
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : `${tool.name} failed`,
+        metadata: responseMetadata(req, tool.name)
+      });
+    }
+  });
+}
 
 // Start server
 async function main() {
-  // Check for environment variables
-  const env = process.env;
-
-  // Initialize DIMO with Production environment
-  authState.dimo = new DIMO("Production");
-
   // Auto-authenticate if credentials are provided
-  if (env.DIMO_CLIENT_ID && env.DIMO_DOMAIN && env.DIMO_PRIVATE_KEY && env.DIMO_DOMAIN !== 'your_domain.com') {
-    try {
-      authState.developerJwt = await authState.dimo.auth.getDeveloperJwt({
-        client_id: env.DIMO_CLIENT_ID,
-        domain: env.DIMO_DOMAIN,
-        private_key: env.DIMO_PRIVATE_KEY
-      });
-      console.log('DIMO developer authentication successful');
-    } catch (error) {
-      console.error('Failed to auto-authenticate:', error);
-      console.log('Continuing without authentication - public endpoints will work');
+  if (!(await authenticateDeveloper())) {
+    log('warn', 'dimo_auth_unavailable', { message: 'DIMO developer JWT not available. Public endpoints will work.' });
+  }
+
+  // A subscription is only evaluated while its client may still read the vehicle
+  startSubscriptions({
+    queryLatest: queryLatestSignals,
+    developerAuthorization: () => authState.developerJwt?.headers?.Authorization,
+    authorize: async (subscription) => {
+      if (!CLIENT_AUTH_REQUIRED) return undefined;
+      const client = (await loadClients()).find((candidate) => candidate.id === subscription.clientId);
+      if (!client || client.revokedAt) return 'The client that created the subscription was removed or revoked';
+      return authorizeClient(client, 'telemetry:read', subscription.tokenId)?.message;
     }
-  } else {
-    console.log('DIMO credentials not provided or using placeholder domain. Public endpoints will work.');
+  });
+
+  if (!CLIENT_AUTH_REQUIRED) {
+    log('warn', 'client_auth_off', { message: 'MCP_AUTH=off: every route is open to anyone who can reach this server.' });
   }
 
   app.listen(PORT, () => {
-    console.log(`DIMO MCP HTTP Server running on port ${PORT}`);
-    console.log(`Health check: http://localhost:${PORT}/health`);
+    log('info', 'server_started', {
+      message: `DIMO MCP HTTP Server running on port ${PORT}`,
+      port: Number(PORT),
+      health: `http://localhost:${PORT}/health`,
+      metrics: `http://localhost:${PORT}/metrics`,
+      mcp: `http://localhost:${PORT}/mcp`,
+      sse: `http://localhost:${PORT}/sse`,
+      dimoEnvironment: DIMO_ENDPOINTS.environment,
+      identityEndpoint: DIMO_ENDPOINTS.identity,
+      clientsFile: CLIENT_AUTH_REQUIRED ? CLIENTS_FILE : undefined,
+      subscriptionsFile: SUBSCRIPTIONS_FILE
+    });
   });
 }
 
 // Handle errors
 main().catch((error) => {
-  console.error("Fatal error:", error);
+  log('error', 'fatal', { error: error instanceof Error ? error.stack ?? error.message : String(error) });
   process.exit(1);
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+
+import express from 'express';
+import cors from 'cors';
+import { randomUUID } from 'node:crypto';
+import { resolve } from 'node:path';
+import { type MockVehicle, loadMockVehicles, parseMockVehicles } from './src/mock/fixtures';
+import { type GraphQLRequest, MOCK_VEHICLE_CONTRACT, executeIdentity, executeTelemetry } from './src/mock/graphql';
+import {
+  type DeveloperClaims,
+  type VehicleClaims,
+  decodeJwtClaims,
+  issueDeveloperJwt,
+  issueUserJwt,
+  issueVehicleJwt,
+  userJwks,
+  verifyMockJwt
+} from './src/mock/tokens';
+import { VEHICLE_COMMANDS } from './src/helpers/commands';
+
+/**
+ * Local mock of the DIMO platform for development and tests. Serves the DIMO_API_BASE_URL layout
+ * (see helpers/endpoints), so pointing DIMO_API_BASE_URL / VITE_DIMO_API_BASE_URL at this server
+ * runs http-server.ts, the MCP server, the proxy and the web app without a DIMO account.
+ */
+
+const PORT = process.env.MOCK_PORT || process.env.PORT || 4000;
+const FIXTURES_PATH = resolve(process.env.MOCK_FIXTURES || 'fixtures/mock-vehicles.json');
+const SEED = Number(process.env.MOCK_SEED || 42);
+// Developer license the fixtures share their vehicles with ($CLIENT_ID in the fixture file)
+const CLIENT_ID = process.env.MOCK_DIMO_CLIENT_ID || process.env.DIMO_CLIENT_ID || '0x00000000000000000000000000000000000d1e0';
+
+interface MockCommand {
+  requestId: string;
+  tokenId: number;
+  command: string;
+  issuedAt: string;
+}
+
+interface MockAttestation {
+  id: string;
+  issuer: string;
+  receivedAt: string;
+  payload: unknown;
+}
+
+const state = {
+  vehicles: [] as MockVehicle[],
+  challenges: new Map<string, string>(),
+  commands: [] as MockCommand[],
+  attestations: [] as MockAttestation[]
+};
+
+const app = express();
+
+app.use(cors());
+app.use(express.json({ limit: '5mb' }));
+app.use(express.urlencoded({ extended: false }));
+
+function graphqlContext(claims?: VehicleClaims) {
+  return { vehicles: state.vehicles, seed: SEED, claims };
+}
+
+function findVehicle(tokenId: number) {
+  return state.vehicles.find((vehicle) => vehicle.tokenId === tokenId);
+}
+
+function grantedPrivileges(vehicle: MockVehicle, clientId: string) {
+  return vehicle.sacds
+    .filter((sacd) => sacd.grantee.toLowerCase() === clientId.toLowerCase())
+    .flatMap((sacd) => sacd.privileges);
+}
+
+// Health check endpoint
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    mock: true,
+    client_id: CLIENT_ID,
+    seed: SEED,
+    vehicles: state.vehicles.length
+  });
+});
+
+// Identity API, public
+app.post('/identity/query', async (req, res) => {
+  const result = await executeIdentity(req.body as GraphQLRequest, graphqlContext());
+  res.json(result);
+});
+
+// Telemetry API, requires a vehicle JWT from the token exchange
+app.post('/telemetry/query', async (req, res) => {
+  let claims: VehicleClaims;
+  try {
+    claims = verifyMockJwt<VehicleClaims>(req.headers.authorization);
+  } catch (error) {
+    res.status(401).json({ errors: [{ message: error instanceof Error ? error.message : 'Unauthorized' }] });
+    return;
+  }
+
+  const result = await executeTelemetry(req.body as GraphQLRequest, graphqlContext(claims));
+  res.json(result);
+});
+
+// Web3 auth: any signature is accepted, the developer JWT is issued for the requested client_id.
+// Clients append /auth/web3/... to the auth base URL, which is ${DIMO_API_BASE_URL}/auth
+const auth = express.Router();
+
+auth.all('/auth/web3/generate_challenge', (req, res) => {
+  const params = { ...req.query, ...req.body } as Record<string, string | undefined>;
+  if (!params.client_id) {
+    res.status(400).json({ message: 'client_id is required' });
+    return;
+  }
+
+  const stateId = randomUUID();
+  const challenge = `${params.domain ?? 'localhost'} wants you to sign in with your Ethereum account:\n${params.address ?? params.client_id}\n\nNonce: ${stateId}`;
+  state.challenges.set(stateId, params.client_id);
+  res.json({ challenge, state: stateId });
+});
+
+auth.post('/auth/web3/submit_challenge', (req, res) => {
+  const { client_id, state: stateId, signature } = req.body as Record<string, string | undefined>;
+  if (!client_id || !stateId || !signature) {
+    res.status(400).json({ message: 'client_id, state and signature are required' });
+    return;
+  }
+  if (state.challenges.get(stateId)?.toLowerCase() !== client_id.toLowerCase()) {
+    res.status(400).json({ message: 'Unknown or expired challenge state' });
+    return;
+  }
+
+  state.challenges.delete(stateId);
+  res.json({
+    access_token: issueDeveloperJwt(client_id),
+    token_type: 'Bearer',
+    expires_in: 60 * 60 * 24
+  });
+});
+
+// Keys that verify the user JWTs of /mock/user-jwt
+auth.get('/keys', (req, res) => {
+  res.json(userJwks());
+});
+
+app.use('/auth', auth);
+
+// Token exchange: developer JWT -> vehicle JWT, limited to the privileges the vehicle shares
+app.post('/token-exchange/v1/tokens/exchange', (req, res) => {
+  let developer: DeveloperClaims;
+  try {
+    developer = decodeJwtClaims<DeveloperClaims>(req.headers.authorization);
+  } catch (error) {
+    res.status(401).json({ message: error instanceof Error ? error.message : 'Unauthorized' });
+    return;
+  }
+
+  const { tokenId, privileges = [], nftContractAddress } = req.body as {
+    tokenId?: number;
+    privileges?: number[];
+    nftContractAddress?: string;
+  };
+  const vehicle = findVehicle(Number(tokenId));
+  if (!vehicle) {
+    res.status(404).json({ message: `Vehicle ${tokenId} not found` });
+    return;
+  }
+
+  const granted = grantedPrivileges(vehicle, developer.ethereum_address);
+  const missing = privileges.filter((privilege) => !granted.includes(privilege));
+  if (missing.length > 0) {
+    res.status(403).json({
+      message: `Vehicle ${tokenId} does not grant privileges ${missing.join(', ')} to ${developer.ethereum_address}`
+    });
+    return;
+  }
+
+  res.json({
+    token: issueVehicleJwt(developer.ethereum_address, nftContractAddress || MOCK_VEHICLE_CONTRACT, vehicle.tokenId, privileges)
+  });
+});
+
+// Devices API commands, require privilege 6
+app.post('/devices/v1/vehicle/:tokenId/commands/*', (req, res) => {
+  const tokenId = Number(req.params.tokenId);
+  const path = (req.params as Record<string, string>)[0];
+  const command = VEHICLE_COMMANDS.find((c) => c.path === path);
+  if (!command) {
+    res.status(404).json({ message: `Unknown command ${path}` });
+    return;
+  }
+
+  let claims: VehicleClaims;
+  try {
+    claims = verifyMockJwt<VehicleClaims>(req.headers.authorization);
+  } catch (error) {
+    res.status(401).json({ message: error instanceof Error ? error.message : 'Unauthorized' });
+    return;
+  }
+  if (claims.token_id !== String(tokenId) || !claims.privilege_ids.includes(6)) {
+    res.status(403).json({ message: `The vehicle JWT does not grant commands on vehicle ${tokenId}` });
+    return;
+  }
+
+  const record: MockCommand = {
+    requestId: randomUUID(),
+    tokenId,
+    command: command.name,
+    issuedAt: new Date().toISOString()
+  };
+  state.commands.push(record);
+  res.json({ requestId: record.requestId, status: 'accepted' });
+});
+
+// Attestations, require a developer JWT
+app.post(['/attest', '/attest/'], (req, res) => {
+  let developer: DeveloperClaims;
+  try {
+    developer = decodeJwtClaims<DeveloperClaims>(req.headers.authorization);
+  } catch (error) {
+    res.status(401).json({ message: error instanceof Error ? error.message : 'Unauthorized' });
+    return;
+  }
+
+  const attestation: MockAttestation = {
+    id: randomUUID(),
+    issuer: developer.ethereum_address,
+    receivedAt: new Date().toISOString(),
+    payload: req.body
+  };
+  state.attestations.push(attestation);
+  res.json({ id: attestation.id, message: 'Attestation received' });
+});
+
+// Mock control endpoints: inspect what clients sent and seed or reset the fixture vehicles
+app.get('/mock/vehicles', (req, res) => {
+  res.json({ vehicles: state.vehicles });
+});
+
+app.post('/mock/vehicles', (req, res) => {
+  try {
+    state.vehicles = parseMockVehicles(req.body, CLIENT_ID);
+    res.json({ vehicles: state.vehicles.length });
+  } catch (error) {
+    res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid fixtures' });
+  }
+});
+
+app.post('/mock/reset', async (req, res) => {
+  state.vehicles = await loadMockVehicles(FIXTURES_PATH, CLIENT_ID);
+  state.challenges.clear();
+  state.commands = [];
+  state.attestations = [];
+  res.json({ vehicles: state.vehicles.length });
+});
+
+app.get('/mock/commands', (req, res) => {
+  res.json({ commands: state.commands });
+});
+
+app.get('/mock/attestations', (req, res) => {
+  res.json({ attestations: state.attestations });
+});
+
+// Developer JWT without the web3 challenge, e.g. for VITE_DIMO_DEVELOPER_JWT
+app.get('/mock/developer-jwt', (req, res) => {
+  const clientId = typeof req.query.client_id === 'string' ? req.query.client_id : CLIENT_ID;
+  res.json({ access_token: issueDeveloperJwt(clientId) });
+});
+
+// Login with DIMO JWT for a wallet, e.g. the owner of a fixture vehicle, to store as dimoAuth.jwt
+app.get('/mock/user-jwt', (req, res) => {
+  const address = typeof req.query.address === 'string' ? req.query.address : state.vehicles[0]?.owner;
+  if (!address) {
+    res.status(400).json({ message: 'address is required' });
+    return;
+  }
+  const clientId = typeof req.query.client_id === 'string' ? req.query.client_id : CLIENT_ID;
+  res.json({ access_token: issueUserJwt(address, clientId), ethereum_address: address });
+});
+
+// Start server
+async function main() {
+  state.vehicles = await loadMockVehicles(FIXTURES_PATH, CLIENT_ID);
+
+  app.listen(PORT, () => {
+    console.log(`DIMO mock platform running on port ${PORT}`);
+    console.log(`Fixtures: ${FIXTURES_PATH} (${state.vehicles.length} vehicles, seed ${SEED})`);
+    console.log(`Vehicles are shared with client ${CLIENT_ID}`);
+    console.log(`Use DIMO_API_BASE_URL=http://localhost:${PORT}`);
+  });
+}
+
+// Handle errors
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
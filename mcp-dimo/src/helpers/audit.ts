@@ -0,0 +1,259 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { appendFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { createInterface } from "node:readline";
+import { z } from "zod";
+import type { ApiClient } from "./clients";
+import { currentRequestId, log } from "./logging";
+
+/**
+ * Append-only audit log of data access and commands: who called which tool, read which resource or
+ * received which webhook, for which vehicles, with which vehicle JWT privileges, and the outcome.
+ * Arguments, results and error messages are never recorded. The stdio and HTTP servers append one JSON
+ * line per entry to MCP_AUDIT_LOG and never rewrite it; GET /audit on the HTTP server filters and
+ * exports the entries.
+ *
+ *   MCP_AUDIT_LOG   default mcp-audit.jsonl
+ */
+
+export const AUDIT_LOG_FILE = resolve(process.env.MCP_AUDIT_LOG ?? "mcp-audit.jsonl");
+
+export const AUDIT_ACTIONS = ["tool", "resource", "jwt_refresh", "subscription", "webhook"] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_OUTCOMES = ["ok", "error", "denied"] as const;
+
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+/** Who performed an audited operation */
+export interface AuditActor {
+	/** stdio, http, sse, rest or webhook */
+	transport: string;
+	/** Authenticated HTTP client; undefined for stdio and when MCP_AUTH=off */
+	client?: ApiClient;
+	/** Client id when only the id is known, e.g. the creator of a subscription */
+	clientId?: string;
+	/** Rate limit caller without an API client: the transport, or the IP of a REST call */
+	caller?: string;
+	/** MCP client name or REST source, as recorded for remote commands */
+	issuedBy?: string;
+}
+
+export interface AuditEntry {
+	id: string;
+	timestamp: string;
+	requestId?: string;
+	transport: string;
+	clientId?: string;
+	clientName?: string;
+	caller?: string;
+	issuedBy?: string;
+	action: AuditAction;
+	/** Tool or resource name, refresh-jwt, create or delete for subscriptions, the event type of webhooks */
+	name: string;
+	/** Vehicles the operation targeted or read */
+	tokenIds: number[];
+	/** Privileges of the vehicle JWTs the operation used */
+	privileges: number[];
+	outcome: AuditOutcome;
+	/** Why access was denied, e.g. insufficient_scope or rate_limited */
+	code?: string;
+	subscriptionId?: string;
+}
+
+export interface AuditRecord {
+	actor: AuditActor;
+	action: AuditAction;
+	name: string;
+	tokenIds?: number[];
+	privileges?: number[];
+	outcome: AuditOutcome;
+	code?: string;
+	subscriptionId?: string;
+}
+
+interface AccessContext {
+	tokenIds: Set<number>;
+	privileges: Set<number>;
+}
+
+const accessContext = new AsyncLocalStorage<AccessContext>();
+
+let appending = Promise.resolve();
+
+const sorted = (values: Iterable<number>) => [...new Set(values)].sort((a, b) => a - b);
+
+/**
+ * Append an entry to the audit log. A failed write is logged and does not fail the operation.
+ */
+export async function appendAudit(record: AuditRecord) {
+	const { actor } = record;
+	const entry: AuditEntry = {
+		id: randomUUID(),
+		timestamp: new Date().toISOString(),
+		requestId: currentRequestId(),
+		transport: actor.transport,
+		clientId: actor.client?.id ?? actor.clientId,
+		clientName: actor.client?.name,
+		caller: actor.caller,
+		issuedBy: actor.issuedBy,
+		action: record.action,
+		name: record.name,
+		tokenIds: sorted(record.tokenIds ?? []),
+		privileges: sorted(record.privileges ?? []),
+		outcome: record.outcome,
+		code: record.code,
+		subscriptionId: record.subscriptionId,
+	};
+	// One line per write, in order, so entries of concurrent calls never interleave
+	appending = appending
+		.then(() => appendFile(AUDIT_LOG_FILE, `${JSON.stringify(entry)}\n`, { mode: 0o600 }))
+		.catch((error) => {
+			log("error", "audit_write_failed", {
+				action: entry.action,
+				name: entry.name,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		});
+	await appending;
+}
+
+/**
+ * Note a vehicle, and the privileges of its vehicle JWT, accessed by the audited operation in progress
+ */
+export function recordVehicleAccess(tokenId: number, privileges: number[] = []) {
+	const context = accessContext.getStore();
+	context?.tokenIds.add(tokenId);
+	for (const privilege of privileges) {
+		context?.privileges.add(privilege);
+	}
+}
+
+/**
+ * Run an operation and audit it with the vehicles and privileges it accessed
+ * @param outcomeOf - Outcome of a result, ok by default; an operation that throws is an error
+ */
+export async function audited<T>(
+	record: Omit<AuditRecord, "outcome" | "privileges">,
+	run: () => Promise<T>,
+	outcomeOf: (result: T) => AuditOutcome = () => "ok",
+): Promise<T> {
+	const context: AccessContext = { tokenIds: new Set(record.tokenIds), privileges: new Set() };
+	let outcome: AuditOutcome = "error";
+	try {
+		const result = await accessContext.run(context, run);
+		outcome = outcomeOf(result);
+		return result;
+	} finally {
+		await appendAudit({ ...record, tokenIds: [...context.tokenIds], privileges: [...context.privileges], outcome });
+	}
+}
+
+const isoDate = z
+	.string()
+	.refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO 8601 date")
+	.transform((value) => new Date(value).toISOString());
+
+export const AuditQuerySchema = z.object({
+	clientId: z.string().optional(),
+	action: z.enum(AUDIT_ACTIONS).optional(),
+	/** Tool or resource name */
+	name: z.string().optional(),
+	tokenId: z.coerce.number().int().optional(),
+	privilege: z.coerce.number().int().optional(),
+	outcome: z.enum(AUDIT_OUTCOMES).optional(),
+	transport: z.string().optional(),
+	/** Entries at or after this time */
+	from: isoDate.optional(),
+	/** Entries before this time */
+	to: isoDate.optional(),
+	/** Most recent entries to return; every match is exported when unset with csv or jsonl */
+	limit: z.coerce.number().int().min(1).optional(),
+	format: z.enum(["json", "jsonl", "csv"]).default("json"),
+});
+
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+
+function matches(entry: AuditEntry, query: AuditQuery) {
+	return (
+		(query.clientId === undefined || entry.clientId === query.clientId) &&
+		(query.action === undefined || entry.action === query.action) &&
+		(query.name === undefined || entry.name === query.name) &&
+		(query.tokenId === undefined || entry.tokenIds.includes(query.tokenId)) &&
+		(query.privilege === undefined || entry.privileges.includes(query.privilege)) &&
+		(query.outcome === undefined || entry.outcome === query.outcome) &&
+		(query.transport === undefined || entry.transport === query.transport) &&
+		(query.from === undefined || entry.timestamp >= query.from) &&
+		(query.to === undefined || entry.timestamp < query.to)
+	);
+}
+
+/**
+ * Entries matching a query, oldest first, read line by line so the log never has to fit in memory.
+ * With a limit only the most recent matches are returned.
+ */
+export async function* readAuditLog(query: AuditQuery): AsyncGenerator<AuditEntry> {
+	const stream = createReadStream(AUDIT_LOG_FILE, { encoding: "utf8" });
+	const opened = await new Promise<boolean>((resolveOpen) => {
+		stream.once("ready", () => resolveOpen(true));
+		stream.once("error", () => resolveOpen(false));
+	});
+	if (!opened) {
+		return;
+	}
+
+	const recent: AuditEntry[] = [];
+	for await (const line of createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY })) {
+		let entry: AuditEntry;
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			// A line cut short by a crash while appending
+			continue;
+		}
+		if (!matches(entry, query)) {
+			continue;
+		}
+		if (query.limit === undefined) {
+			yield entry;
+		} else {
+			recent.push(entry);
+			if (recent.length > query.limit) recent.shift();
+		}
+	}
+	yield* recent;
+}
+
+export const AUDIT_CSV_COLUMNS: (keyof AuditEntry)[] = [
+	"timestamp",
+	"id",
+	"requestId",
+	"transport",
+	"clientId",
+	"clientName",
+	"caller",
+	"issuedBy",
+	"action",
+	"name",
+	"tokenIds",
+	"privileges",
+	"outcome",
+	"code",
+	"subscriptionId",
+];
+
+function csvField(value: unknown) {
+	let text = Array.isArray(value) ? value.join(" ") : value === undefined ? "" : String(value);
+	// Keep spreadsheets from evaluating caller-supplied values such as issuedBy as formulas
+	if (/^[=+\-@\t\r]/.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditCsvRow(entry: AuditEntry) {
+	return `${AUDIT_CSV_COLUMNS.map((column) => csvField(entry[column])).join(",")}\n`;
+}
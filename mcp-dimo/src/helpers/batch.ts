@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { isKnownPrivilege } from "./clients";
+
+/**
+ * Identity and telemetry queries for many vehicles in one tool call (vehicle_batch_query). The queries
+ * are templates run once per vehicle with its tokenId bound to the $tokenId variable; vehicles are
+ * queried concurrently, at most BATCH_CONCURRENCY at a time, and each reports its own errors.
+ *
+ *   BATCH_MAX_VEHICLES   default 50
+ *   BATCH_CONCURRENCY    default 5, the most a call may ask for
+ */
+
+export const BATCH_MAX_VEHICLES = Number(process.env.BATCH_MAX_VEHICLES ?? 50);
+export const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY ?? 5);
+
+export const VehicleBatchQuerySchema = z.object({
+	tokenIds: z.array(z.number()).min(1).max(BATCH_MAX_VEHICLES),
+	identityQuery: z.string().optional(),
+	telemetryQuery: z.string().optional(),
+	variables: z.record(z.string(), z.string()).optional(),
+	/** Vehicle JWT privileges for the telemetry query, 1-4 by default like telemetry_query */
+	privileges: z.array(z.number().int().refine(isKnownPrivilege, "unknown vehicle privilege")).optional(),
+	concurrency: z.number().int().min(1).max(BATCH_CONCURRENCY).optional(),
+	bypassCache: z.boolean().optional(),
+});
+
+export type VehicleBatchQueryArgs = z.infer<typeof VehicleBatchQuerySchema>;
+
+export type BatchApi = "identity" | "telemetry";
+
+export interface VehicleBatchResult {
+	tokenId: number;
+	identity?: unknown;
+	telemetry?: unknown;
+	/** Per API, why the vehicle's query failed */
+	errors?: Partial<Record<BatchApi, string>>;
+}
+
+export interface VehicleBatchSummary {
+	vehicles: number;
+	succeeded: number;
+	failed: number;
+	results: VehicleBatchResult[];
+}
+
+/**
+ * Map items with at most `limit` calls in flight, keeping the input order in the output
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+}
+
+/**
+ * Run the batch's queries for every vehicle. A vehicle counts as succeeded when none of its queries failed.
+ * @param query - Runs one API's query for one vehicle and returns its data or an error
+ */
+export async function runVehicleBatch(
+	args: VehicleBatchQueryArgs,
+	query: (api: BatchApi, template: string, tokenId: number) => Promise<{ data: unknown } | { error: string }>,
+): Promise<VehicleBatchSummary> {
+	const templates = (
+		[
+			["identity", args.identityQuery],
+			["telemetry", args.telemetryQuery],
+		] as [BatchApi, string | undefined][]
+	).filter((entry): entry is [BatchApi, string] => entry[1] !== undefined);
+
+	const tokenIds = [...new Set(args.tokenIds)];
+	const results = await mapWithConcurrency(tokenIds, args.concurrency ?? BATCH_CONCURRENCY, async (tokenId) => {
+		const result: VehicleBatchResult = { tokenId };
+		for (const [api, template] of templates) {
+			const outcome = await query(api, template, tokenId).catch((error) => ({
+				error: error instanceof Error ? error.message : String(error),
+			}));
+			if ("error" in outcome) {
+				result.errors = { ...result.errors, [api]: outcome.error };
+			} else {
+				result[api] = outcome.data;
+			}
+		}
+		return result;
+	});
+
+	const failed = results.filter((result) => result.errors).length;
+	return { vehicles: results.length, succeeded: results.length - failed, failed, results };
+}
@@ -0,0 +1,277 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { instrumentUpstreamFetch } from "./metrics";
+import { createResilientFetch } from "./upstream";
+
+/**
+ * Record and replay of upstream HTTP calls. In record mode every request/response pair is appended to
+ * a cassette file with secrets and VINs scrubbed; in replay mode the responses are served from the
+ * cassette and nothing goes over the network. Configure with DIMO_CASSETTE_MODE (off, record or
+ * replay), DIMO_CASSETTE_NAME and DIMO_CASSETTE_DIR. The web app has the same wrapper in
+ * src/lib/cassette.ts and writes the same cassette format.
+ */
+
+export type CassetteMode = "off" | "record" | "replay";
+
+export interface CassetteInteraction {
+	request: {
+		method: string;
+		url: string;
+		headers: Record<string, string>;
+		body?: string;
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		body: string;
+	};
+	recordedAt: string;
+}
+
+export interface Cassette {
+	name: string;
+	interactions: CassetteInteraction[];
+}
+
+export type FetchLike = (
+	input: string | URL,
+	init?: RequestInit,
+) => Promise<Response>;
+
+export interface CassetteOptions {
+	mode: CassetteMode;
+	name: string;
+	dir: string;
+	baseFetch?: FetchLike;
+}
+
+const SECRET_HEADERS = [
+	"authorization",
+	"apikey",
+	"x-api-key",
+	"openai-organization",
+	"cookie",
+	"set-cookie",
+];
+
+const SECRET_PARAMS = [
+	"api_key",
+	"apikey",
+	"key",
+	"token",
+	"access_token",
+	"signature",
+	"private_key",
+];
+
+const SCRUB_PATTERNS: [RegExp, string][] = [
+	[/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, "[REDACTED_JWT]"],
+	[/\bsk-[\w-]{16,}/g, "[REDACTED_API_KEY]"],
+	[/\b0x[0-9a-fA-F]{64}\b/g, "[REDACTED_KEY]"],
+	// Uploaded document images
+	[/data:[\w/.+-]+;base64,[A-Za-z0-9+/=]+/g, "[REDACTED_DATA_URL]"],
+	// 17 character VINs, which always mix letters and digits and never contain I, O or Q
+	[
+		/\b(?=[A-HJ-NPR-Z0-9]*\d)(?=[A-HJ-NPR-Z0-9]*[A-HJ-NPR-Z])[A-HJ-NPR-Z0-9]{17}\b/g,
+		"[REDACTED_VIN]",
+	],
+];
+
+// The recorded body is already decoded, so these would not describe it on replay
+const UNREPLAYABLE_HEADERS = ["content-encoding", "content-length", "transfer-encoding"];
+
+// Request body fields that change on every call and must not affect matching
+const VOLATILE_FIELDS = ["timestamp"];
+
+export function scrubText(text: string) {
+	return SCRUB_PATTERNS.reduce(
+		(scrubbed, [pattern, replacement]) => scrubbed.replace(pattern, replacement),
+		text,
+	);
+}
+
+export function scrubUrl(url: string) {
+	const parsed = new URL(url);
+	for (const param of SECRET_PARAMS) {
+		if (parsed.searchParams.has(param)) {
+			parsed.searchParams.set(param, "[REDACTED]");
+		}
+	}
+	return scrubText(parsed.toString());
+}
+
+function scrubHeaders(headers: Headers) {
+	const scrubbed: Record<string, string> = {};
+	headers.forEach((value, key) => {
+		scrubbed[key] = SECRET_HEADERS.includes(key.toLowerCase())
+			? "[REDACTED]"
+			: scrubText(value);
+	});
+	return scrubbed;
+}
+
+function bodyText(body: RequestInit["body"]) {
+	if (body === undefined || body === null) return undefined;
+	if (typeof body === "string") return body;
+	if (body instanceof URLSearchParams) return body.toString();
+	return "[binary body]";
+}
+
+function withoutVolatileFields(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(withoutVolatileFields);
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([key]) => !VOLATILE_FIELDS.includes(key))
+				.map(([key, item]) => [key, withoutVolatileFields(item)]),
+		);
+	}
+	return value;
+}
+
+function matchKey(request: CassetteInteraction["request"]) {
+	let body = request.body ?? "";
+	try {
+		body = JSON.stringify(withoutVolatileFields(JSON.parse(body)));
+	} catch {
+		// Not JSON, match on the raw body
+	}
+	return `${request.method} ${request.url} ${body}`;
+}
+
+function cassettePath(options: CassetteOptions) {
+	return join(resolve(options.dir), `${options.name}.json`);
+}
+
+async function loadCassette(options: CassetteOptions): Promise<Cassette> {
+	try {
+		return JSON.parse(await readFile(cassettePath(options), "utf8"));
+	} catch (error) {
+		if (options.mode === "replay") {
+			throw new Error(
+				`Cannot replay: cassette ${cassettePath(options)} could not be read (${error instanceof Error ? error.message : error})`,
+			);
+		}
+		return { name: options.name, interactions: [] };
+	}
+}
+
+/**
+ * Wrap fetch with cassette recording or replay
+ * @param options - Mode, cassette name and directory, and the fetch to wrap
+ * @returns A fetch that records to or replays from the cassette, or the plain fetch when the mode is off
+ */
+export function createCassetteFetch(options: CassetteOptions): FetchLike {
+	const baseFetch: FetchLike = options.baseFetch ?? ((input, init) => fetch(input, init));
+	if (options.mode === "off") {
+		return baseFetch;
+	}
+
+	let cassette: Promise<Cassette> | undefined;
+	const replayed = new Set<number>();
+	let saving = Promise.resolve();
+
+	const getCassette = () => {
+		cassette ??= loadCassette(options);
+		return cassette;
+	};
+
+	const record = async (interaction: CassetteInteraction) => {
+		const loaded = await getCassette();
+		loaded.interactions.push(interaction);
+		// Serialize writes so concurrent calls do not interleave
+		saving = saving.then(async () => {
+			await mkdir(resolve(options.dir), { recursive: true });
+			await writeFile(cassettePath(options), JSON.stringify(loaded, null, 2));
+		});
+		await saving;
+	};
+
+	const replay = async (request: CassetteInteraction["request"]) => {
+		const { interactions } = await getCassette();
+		const key = matchKey(request);
+		// Same request first, then the next unplayed call to the same endpoint in recording order
+		let index = interactions.findIndex(
+			(interaction, i) => !replayed.has(i) && matchKey(interaction.request) === key,
+		);
+		if (index === -1) {
+			index = interactions.findIndex(
+				(interaction, i) =>
+					!replayed.has(i) &&
+					interaction.request.method === request.method &&
+					interaction.request.url === request.url,
+			);
+		}
+		if (index === -1) {
+			throw new Error(
+				`No recorded response in cassette "${options.name}" for ${request.method} ${request.url}`,
+			);
+		}
+
+		replayed.add(index);
+		const { response } = interactions[index];
+		return new Response(
+			response.body === "" ? null : response.body,
+			{
+				status: response.status,
+				statusText: response.statusText,
+				headers: response.headers,
+			},
+		);
+	};
+
+	return async (input, init) => {
+		const body = bodyText(init?.body);
+		const request = {
+			method: (init?.method ?? "GET").toUpperCase(),
+			url: scrubUrl(input.toString()),
+			headers: scrubHeaders(new Headers(init?.headers)),
+			...(body !== undefined && { body: scrubText(body) }),
+		};
+
+		if (options.mode === "replay") {
+			return replay(request);
+		}
+
+		const response = await baseFetch(input, init);
+		const responseBody = await response.clone().text();
+		await record({
+			request,
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: Object.fromEntries(
+					Object.entries(scrubHeaders(response.headers)).filter(
+						([key]) => !UNREPLAYABLE_HEADERS.includes(key),
+					),
+				),
+				body: scrubText(responseBody),
+			},
+			recordedAt: new Date().toISOString(),
+		});
+		return response;
+	};
+}
+
+const mode = process.env.DIMO_CASSETTE_MODE;
+export const CASSETTE_MODE: CassetteMode =
+	mode === "record" || mode === "replay" ? mode : "off";
+
+/**
+ * Authorization used instead of a vehicle JWT when replaying. Cassettes store authorization headers
+ * scrubbed, and the SDK's token exchange is not recorded, so replay needs no DIMO credentials.
+ */
+export const REPLAY_AUTHORIZATION = "Bearer [REDACTED]";
+
+/**
+ * Fetch for every upstream call of the MCP servers, recorded or replayed per DIMO_CASSETTE_MODE. Network
+ * calls get the timeouts, retries and circuit breakers of ./upstream, and every attempt is counted in
+ * the upstream metrics.
+ */
+export const upstreamFetch = createCassetteFetch({
+	mode: CASSETTE_MODE,
+	name: process.env.DIMO_CASSETTE_NAME || "session",
+	dir: process.env.DIMO_CASSETTE_DIR || "cassettes",
+	baseFetch: createResilientFetch(instrumentUpstreamFetch((input, init) => fetch(input, init))),
+});
@@ -0,0 +1,273 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { readFile, rename, stat, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+/**
+ * Client credentials for the HTTP server. Each client has an API key, the scopes it was granted and the
+ * vehicles (tokenIds) it may access. Keys are stored as SHA-256 hashes in MCP_CLIENTS_FILE and managed
+ * with admin-cli.ts; the server rereads the file when it changes, so no restart is needed.
+ */
+
+export const CLIENT_SCOPES = [
+	"identity:read",
+	"telemetry:read",
+	"commands:write",
+	"attestations:write",
+	"audit:read",
+] as const;
+
+export type ClientScope = (typeof CLIENT_SCOPES)[number];
+
+/**
+ * Scope a client needs for each vehicle JWT privilege: 1 to 4 are the telemetry and location data the
+ * telemetry tools read, 5 the VIN credential, 6 remote commands. Other privileges are refused.
+ */
+export const PRIVILEGE_SCOPES: Record<number, ClientScope> = {
+	1: "telemetry:read",
+	2: "telemetry:read",
+	3: "telemetry:read",
+	4: "telemetry:read",
+	5: "telemetry:read",
+	6: "commands:write",
+};
+
+export function isKnownPrivilege(privilege: number) {
+	return privilege in PRIVILEGE_SCOPES;
+}
+
+/** Scopes a client needs for a vehicle JWT with these privileges */
+export function privilegeScopes(privileges: number[]): ClientScope[] {
+	return [...new Set(privileges.map((privilege) => PRIVILEGE_SCOPES[privilege]))];
+}
+
+export interface ApiClient {
+	id: string;
+	name: string;
+	keyHash: string;
+	scopes: ClientScope[];
+	/** Vehicles the client may access, "*" for every vehicle shared with the developer license */
+	tokenIds: number[] | "*";
+	createdAt: string;
+	revokedAt?: string;
+}
+
+export interface ClientAuthFailure {
+	status: 401 | 403;
+	code:
+		| "missing_credentials"
+		| "invalid_credentials"
+		| "insufficient_scope"
+		| "vehicle_not_allowed"
+		| "session_forbidden";
+	message: string;
+	requiredScope?: ClientScope;
+	tokenId?: number;
+}
+
+export type ClientAuthResult =
+	| { ok: true; client?: ApiClient }
+	| { ok: false; failure: ClientAuthFailure };
+
+/** MCP_AUTH=off disables client credentials, e.g. for a server bound to localhost */
+export const CLIENT_AUTH_REQUIRED = process.env.MCP_AUTH !== "off";
+
+export const CLIENTS_FILE = resolve(process.env.MCP_CLIENTS_FILE ?? "mcp-clients.json");
+
+const KEY_PREFIX = "dmcp_";
+
+let cache: { mtimeMs: number; clients: ApiClient[] } | undefined;
+
+function hashKey(apiKey: string) {
+	return createHash("sha256").update(apiKey).digest("hex");
+}
+
+function generateKey() {
+	return `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+export async function loadClients(): Promise<ApiClient[]> {
+	let mtimeMs: number;
+	try {
+		mtimeMs = (await stat(CLIENTS_FILE)).mtimeMs;
+	} catch {
+		return [];
+	}
+	if (cache?.mtimeMs !== mtimeMs) {
+		cache = { mtimeMs, clients: JSON.parse(await readFile(CLIENTS_FILE, "utf8")) };
+	}
+	return cache.clients;
+}
+
+// Written to a temporary file and renamed, so a running server never reads a half-written file
+export async function saveClients(clients: ApiClient[]) {
+	const temporaryFile = `${CLIENTS_FILE}.${process.pid}.tmp`;
+	await writeFile(temporaryFile, JSON.stringify(clients, null, 2), { mode: 0o600 });
+	await rename(temporaryFile, CLIENTS_FILE);
+	cache = undefined;
+}
+
+async function findClient(id: string) {
+	const clients = await loadClients();
+	const client = clients.find((candidate) => candidate.id === id);
+	if (!client) {
+		throw new Error(`No client with id ${id}`);
+	}
+	return { clients, client };
+}
+
+export function parseScopes(value: string): ClientScope[] {
+	const scopes = value.split(",").map((scope) => scope.trim()).filter(Boolean);
+	const unknown = scopes.filter((scope) => !CLIENT_SCOPES.includes(scope as ClientScope));
+	if (unknown.length > 0) {
+		throw new Error(`Unknown scopes: ${unknown.join(", ")}. Valid scopes: ${CLIENT_SCOPES.join(", ")}`);
+	}
+	return scopes as ClientScope[];
+}
+
+export function parseTokenIds(value: string): number[] | "*" {
+	if (value.trim() === "*") {
+		return "*";
+	}
+	const tokenIds = value.split(",").map((tokenId) => Number(tokenId.trim()));
+	if (tokenIds.some((tokenId) => !Number.isInteger(tokenId) || tokenId <= 0)) {
+		throw new Error(`Invalid tokenId list: ${value}`);
+	}
+	return tokenIds;
+}
+
+/**
+ * Register a client. The API key is only returned here; the file keeps its hash.
+ */
+export async function createClient(options: {
+	name: string;
+	scopes: ClientScope[];
+	tokenIds: number[] | "*";
+}) {
+	const apiKey = generateKey();
+	const client: ApiClient = {
+		id: randomUUID().slice(0, 8),
+		name: options.name,
+		keyHash: hashKey(apiKey),
+		scopes: options.scopes,
+		tokenIds: options.tokenIds,
+		createdAt: new Date().toISOString(),
+	};
+	await saveClients([...(await loadClients()), client]);
+	return { client, apiKey };
+}
+
+export async function updateClient(
+	id: string,
+	changes: Partial<Pick<ApiClient, "scopes" | "tokenIds">>,
+) {
+	const { clients, client } = await findClient(id);
+	Object.assign(client, changes);
+	await saveClients(clients);
+	return client;
+}
+
+export async function rotateClientKey(id: string) {
+	const { clients, client } = await findClient(id);
+	const apiKey = generateKey();
+	client.keyHash = hashKey(apiKey);
+	await saveClients(clients);
+	return { client, apiKey };
+}
+
+export async function revokeClient(id: string) {
+	const { clients, client } = await findClient(id);
+	client.revokedAt = new Date().toISOString();
+	await saveClients(clients);
+	return client;
+}
+
+/**
+ * Read the API key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function parseClientCredentials(headers: Record<string, string | string[] | undefined>) {
+	const authorization = headers.authorization;
+	if (typeof authorization === "string" && authorization.startsWith("Bearer ")) {
+		return authorization.slice("Bearer ".length).trim();
+	}
+	const apiKey = headers["x-api-key"];
+	return typeof apiKey === "string" ? apiKey.trim() : undefined;
+}
+
+export async function authenticateClient(apiKey: string | undefined): Promise<ClientAuthResult> {
+	if (!CLIENT_AUTH_REQUIRED) {
+		return { ok: true };
+	}
+	if (!apiKey) {
+		return {
+			ok: false,
+			failure: {
+				status: 401,
+				code: "missing_credentials",
+				message: "Provide an API key as 'Authorization: Bearer <key>' or 'X-API-Key: <key>'.",
+			},
+		};
+	}
+
+	const hash = Buffer.from(hashKey(apiKey), "hex");
+	const client = (await loadClients()).find((candidate) => {
+		const keyHash = Buffer.from(candidate.keyHash, "hex");
+		// timingSafeEqual throws on buffers of different lengths, e.g. a hand-edited keyHash
+		return !candidate.revokedAt && keyHash.length === hash.length && timingSafeEqual(keyHash, hash);
+	});
+	if (!client) {
+		return {
+			ok: false,
+			failure: { status: 401, code: "invalid_credentials", message: "The API key is unknown or revoked." },
+		};
+	}
+	return { ok: true, client };
+}
+
+/** How a client appears as the issuer of commands */
+export function clientLabel(client: ApiClient) {
+	return `${client.name} (${client.id})`;
+}
+
+export function isTokenIdAllowed(client: ApiClient | undefined, tokenId: number) {
+	return !client || client.tokenIds === "*" || client.tokenIds.includes(tokenId);
+}
+
+/**
+ * Check a client may use a scope, or every one of several, and the vehicle when the call targets one. An
+ * undefined client is a trusted caller (stdio, or MCP_AUTH=off) and is always allowed.
+ */
+export function authorizeClient(
+	client: ApiClient | undefined,
+	scope: ClientScope | ClientScope[],
+	tokenId?: number,
+): ClientAuthFailure | undefined {
+	if (!client) {
+		return undefined;
+	}
+	const missing = [scope].flat().find((required) => !client.scopes.includes(required));
+	if (missing) {
+		return {
+			status: 403,
+			code: "insufficient_scope",
+			message: `Client ${client.name} is missing the ${missing} scope.`,
+			requiredScope: missing,
+		};
+	}
+	if (tokenId !== undefined && !isTokenIdAllowed(client, tokenId)) {
+		return {
+			status: 403,
+			code: "vehicle_not_allowed",
+			message: `Client ${client.name} may not access vehicle ${tokenId}.`,
+			tokenId,
+		};
+	}
+	return undefined;
+}
+
+/**
+ * Body of a 401/403 (or 429 rate limit) response, in the { success, error } shape of the REST routes
+ */
+export function clientAuthErrorBody<Failure extends { status: number; message: string }>(failure: Failure) {
+	const { status, message, ...details } = failure;
+	return { success: false, error: message, ...details };
+}
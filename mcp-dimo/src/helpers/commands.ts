@@ -0,0 +1,268 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { upstreamFetch } from "./cassette";
+
+export interface VehicleCommand {
+	name: string;
+	description: string;
+	/** Path below /v1/vehicle/{tokenId}/commands on the devices API */
+	path: string;
+	privileges: number[];
+}
+
+/**
+ * Every remote command both servers expose. Tool names and HTTP routes are generated from this list.
+ */
+export const VEHICLE_COMMANDS: VehicleCommand[] = [
+	{
+		name: "lock_doors",
+		description: "Lock the doors of a vehicle.",
+		path: "doors/lock",
+		privileges: [6],
+	},
+	{
+		name: "unlock_doors",
+		description: "Unlock the doors of a vehicle.",
+		path: "doors/unlock",
+		privileges: [6],
+	},
+	{
+		name: "open_trunk",
+		description: "Open the trunk of a vehicle.",
+		path: "trunk/open",
+		privileges: [6],
+	},
+	{
+		name: "open_frunk",
+		description: "Open the front trunk (frunk) of a vehicle.",
+		path: "frunk/open",
+		privileges: [6],
+	},
+	{
+		name: "start_charging",
+		description: "Start charging an electric vehicle that is plugged in.",
+		path: "charge/start",
+		privileges: [6],
+	},
+	{
+		name: "stop_charging",
+		description: "Stop charging an electric vehicle.",
+		path: "charge/stop",
+		privileges: [6],
+	},
+	{
+		name: "start_climate",
+		description: "Start the climate control of a vehicle.",
+		path: "climate/start",
+		privileges: [6],
+	},
+	{
+		name: "stop_climate",
+		description: "Stop the climate control of a vehicle.",
+		path: "climate/stop",
+		privileges: [6],
+	},
+];
+
+export const VehicleCommandSchema = z.object({
+	tokenId: z.number(),
+	confirmationToken: z.string().optional(),
+});
+
+export type VehicleCommandArgs = z.infer<typeof VehicleCommandSchema>;
+
+export const CommandHistorySchema = z.object({
+	tokenId: z.number().optional(),
+	limit: z.number().default(20),
+});
+
+const CONFIRMATION_TTL_MS = 60 * 1000;
+const HISTORY_LIMIT = 500;
+
+/**
+ * Tool description for a command, explaining the confirmation flow to the model
+ */
+export function describeCommand(command: VehicleCommand) {
+	return `${command.description} This is a two-step command: call it with the tokenId to get a confirmation token, confirm the action with the user, then call it again with the same tokenId and the confirmationToken to execute it. Tokens expire after ${CONFIRMATION_TTL_MS / 1000} seconds.`;
+}
+
+interface PendingConfirmation {
+	tokenId: number;
+	command: string;
+	issuedBy: string;
+	expiresAt: number;
+}
+
+export interface CommandRecord {
+	id: string;
+	tokenId: number;
+	command: string;
+	issuedBy: string;
+	executedAt: string;
+	success: boolean;
+	upstreamStatus?: number;
+	upstreamResponse?: unknown;
+	error?: string;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+const commandHistory: CommandRecord[] = [];
+
+function prunePendingConfirmations(now: number) {
+	for (const [token, pending] of pendingConfirmations) {
+		if (pending.expiresAt <= now) {
+			pendingConfirmations.delete(token);
+		}
+	}
+}
+
+/**
+ * Start the two-step flow: reserve a short-lived token that authorizes one execution of a command
+ * @param command - The command to confirm
+ * @param tokenId - The vehicle the command targets
+ * @param issuedBy - Who asked for the command; only they can redeem the token
+ * @returns The confirmation token and its expiry
+ */
+export function requestCommandConfirmation(
+	command: VehicleCommand,
+	tokenId: number,
+	issuedBy: string,
+) {
+	const now = Date.now();
+	prunePendingConfirmations(now);
+
+	const confirmationToken = randomUUID();
+	const expiresAt = now + CONFIRMATION_TTL_MS;
+	pendingConfirmations.set(confirmationToken, {
+		tokenId,
+		command: command.name,
+		issuedBy,
+		expiresAt,
+	});
+
+	return {
+		confirmationRequired: true,
+		command: command.name,
+		tokenId,
+		confirmationToken,
+		expiresAt: new Date(expiresAt).toISOString(),
+		message: `${command.description} Call ${command.name} again with this confirmationToken to execute it.`,
+	};
+}
+
+/**
+ * Redeem a confirmation token. Tokens are single-use and bound to the command, vehicle and issuer.
+ * @throws If the token is unknown, expired or was issued for something else
+ */
+export function consumeCommandConfirmation(
+	command: VehicleCommand,
+	tokenId: number,
+	issuedBy: string,
+	confirmationToken: string,
+) {
+	const pending = pendingConfirmations.get(confirmationToken);
+	pendingConfirmations.delete(confirmationToken);
+
+	if (!pending || pending.expiresAt <= Date.now()) {
+		throw new Error(
+			`Confirmation token is invalid or expired. Call ${command.name} without a confirmationToken to get a new one.`,
+		);
+	}
+	if (
+		pending.command !== command.name ||
+		pending.tokenId !== tokenId ||
+		pending.issuedBy !== issuedBy
+	) {
+		throw new Error(
+			`Confirmation token was issued for a different command, vehicle or client.`,
+		);
+	}
+}
+
+function recordCommand(record: Omit<CommandRecord, "id" | "executedAt">) {
+	const entry: CommandRecord = {
+		id: randomUUID(),
+		executedAt: new Date().toISOString(),
+		...record,
+	};
+	commandHistory.push(entry);
+	if (commandHistory.length > HISTORY_LIMIT) {
+		commandHistory.shift();
+	}
+	return entry;
+}
+
+/**
+ * Send a confirmed command to the devices API and record who issued it and what came back
+ * @param devicesApiUrl - Base URL of the devices API
+ * @param command - The command to execute
+ * @param tokenId - The vehicle the command targets
+ * @param authorization - Authorization header of a vehicle JWT with the command's privileges
+ * @param issuedBy - Who issued the command
+ * @returns The recorded command, including the upstream response
+ */
+export async function executeVehicleCommand(
+	devicesApiUrl: string,
+	command: VehicleCommand,
+	tokenId: number,
+	authorization: string,
+	issuedBy: string,
+): Promise<CommandRecord> {
+	try {
+		const response = await upstreamFetch(
+			`${devicesApiUrl}/v1/vehicle/${tokenId}/commands/${command.path}`,
+			{
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: authorization,
+				},
+				body: JSON.stringify({}),
+			},
+		);
+
+		const responseText = await response.text();
+		let upstreamResponse: unknown = responseText;
+		try {
+			upstreamResponse = responseText ? JSON.parse(responseText) : null;
+		} catch {
+			// Keep the raw text when the devices API does not answer with JSON
+		}
+
+		return recordCommand({
+			tokenId,
+			command: command.name,
+			issuedBy,
+			success: response.ok,
+			upstreamStatus: response.status,
+			upstreamResponse,
+			...(!response.ok && {
+				error: `Request failed: ${response.statusText}`,
+			}),
+		});
+	} catch (error) {
+		return recordCommand({
+			tokenId,
+			command: command.name,
+			issuedBy,
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
+
+/**
+ * Most recent commands first
+ * @param tokenId - Only return commands for this vehicle
+ * @param limit - Maximum number of records
+ */
+export function getCommandHistory(
+	tokenId?: number,
+	limit = 20,
+	isVisible: (tokenId: number) => boolean = () => true,
+) {
+	return commandHistory
+		.filter((record) => (tokenId === undefined || record.tokenId === tokenId) && isVisible(record.tokenId))
+		.slice(-limit)
+		.reverse();
+}
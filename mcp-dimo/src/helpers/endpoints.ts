@@ -0,0 +1,128 @@
+import { DIMO, DimoEnvironment } from "@dimo-network/data-sdk";
+
+/**
+ * DIMO API endpoints, configured from the environment. Uses the same variables as the web app's
+ * src/config/dimoEndpoints.ts:
+ *
+ * - DIMO_ENV: `Production` (default) or `Dev`, the environments of the DIMO SDK
+ * - DIMO_API_BASE_URL: serve every API from one base URL such as a local stand-in
+ *   (`<base>/identity/query`, `<base>/telemetry/query`, `<base>/devices`, ...)
+ * - DIMO_IDENTITY_URL, DIMO_TELEMETRY_URL, DIMO_DEVICES_API_URL, DIMO_TOKEN_EXCHANGE_URL,
+ *   DIMO_AUTH_URL, DIMO_DEVICE_DEFINITIONS_URL, DIMO_ATTEST_URL, DIMO_TRIGGERS_URL: override a single endpoint
+ */
+
+export type DimoEnvironmentName = keyof typeof DimoEnvironment;
+
+export interface DimoEndpoints {
+	environment: DimoEnvironmentName;
+	identity: string;
+	telemetry: string;
+	devices: string;
+	tokenExchange: string;
+	auth: string;
+	deviceDefinitions: string;
+	attest: string;
+	triggers: string;
+}
+
+type EndpointKey = Exclude<keyof DimoEndpoints, "environment">;
+
+const ATTEST_URLS: Record<DimoEnvironmentName, string> = {
+	Production: "https://attest.dimo.zone",
+	Dev: "https://attest.dev.dimo.zone",
+};
+
+// Vehicle triggers (webhooks on telemetry conditions) are not part of the SDK either
+const TRIGGERS_URLS: Record<DimoEnvironmentName, string> = {
+	Production: "https://vehicle-triggers-api.dimo.zone",
+	Dev: "https://vehicle-triggers-api.dev.dimo.zone",
+};
+
+const ENDPOINTS: Record<EndpointKey, { variable: string; path: string }> = {
+	identity: { variable: "DIMO_IDENTITY_URL", path: "/identity/query" },
+	telemetry: { variable: "DIMO_TELEMETRY_URL", path: "/telemetry/query" },
+	devices: { variable: "DIMO_DEVICES_API_URL", path: "/devices" },
+	tokenExchange: {
+		variable: "DIMO_TOKEN_EXCHANGE_URL",
+		path: "/token-exchange",
+	},
+	auth: { variable: "DIMO_AUTH_URL", path: "/auth" },
+	deviceDefinitions: {
+		variable: "DIMO_DEVICE_DEFINITIONS_URL",
+		path: "/device-definitions",
+	},
+	attest: { variable: "DIMO_ATTEST_URL", path: "/attest" },
+	triggers: { variable: "DIMO_TRIGGERS_URL", path: "/vehicle-triggers" },
+};
+
+function parseEnvironment(value?: string): DimoEnvironmentName {
+	const normalized = value?.toLowerCase();
+	return normalized === "dev" || normalized === "development"
+		? "Dev"
+		: "Production";
+}
+
+/**
+ * Resolve the endpoints from environment variables
+ * @param env - The environment, process.env by default
+ * @returns The endpoint of every DIMO API
+ */
+export function resolveEndpoints(
+	env: Record<string, string | undefined> = process.env,
+): DimoEndpoints {
+	const environment = parseEnvironment(env.DIMO_ENV);
+	const baseUrl = env.DIMO_API_BASE_URL?.replace(/\/+$/, "");
+	const sdkDefaults = DimoEnvironment[environment];
+	const defaults: Record<EndpointKey, string> = {
+		identity: sdkDefaults.Identity,
+		telemetry: sdkDefaults.Telemetry,
+		devices: sdkDefaults.Devices,
+		tokenExchange: sdkDefaults.TokenExchange,
+		auth: sdkDefaults.Auth,
+		deviceDefinitions: sdkDefaults.DeviceDefinitions,
+		attest: ATTEST_URLS[environment],
+		triggers: TRIGGERS_URLS[environment],
+	};
+
+	const endpoints = { environment } as DimoEndpoints;
+	for (const key of Object.keys(ENDPOINTS) as EndpointKey[]) {
+		const { variable, path } = ENDPOINTS[key];
+		endpoints[key] =
+			env[variable] || (baseUrl ? `${baseUrl}${path}` : defaults[key]);
+	}
+	return endpoints;
+}
+
+export const DIMO_ENDPOINTS = resolveEndpoints();
+
+/**
+ * Name of the API a URL belongs to, e.g. telemetry, or its host when it is not a DIMO endpoint
+ */
+export function upstreamForUrl(url: string, endpoints: DimoEndpoints = DIMO_ENDPOINTS) {
+	const match = (Object.keys(ENDPOINTS) as EndpointKey[]).find((key) => url.startsWith(endpoints[key]));
+	if (match) {
+		return match;
+	}
+	try {
+		return new URL(url).host;
+	} catch {
+		return "unknown";
+	}
+}
+
+/**
+ * Create the DIMO SDK client for the configured endpoints. The SDK builds extra clients internally
+ * (e.g. for getDeveloperJwt and getVehicleJwt) from its environment table, so the table is pointed
+ * at the configured URLs rather than only this instance.
+ */
+export function createDimoClient(endpoints: DimoEndpoints = DIMO_ENDPOINTS) {
+	Object.assign(DimoEnvironment[endpoints.environment], {
+		Identity: endpoints.identity,
+		Telemetry: endpoints.telemetry,
+		Devices: endpoints.devices,
+		TokenExchange: endpoints.tokenExchange,
+		Auth: endpoints.auth,
+		DeviceDefinitions: endpoints.deviceDefinitions,
+	});
+	return new DIMO(endpoints.environment);
+}
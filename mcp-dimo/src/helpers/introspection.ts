@@ -1,5 +1,11 @@
-import { buildClientSchema, getIntrospectionQuery, printSchema } from "graphql";
+import {
+	buildClientSchema,
+	buildSchema,
+	getIntrospectionQuery,
+	printSchema,
+} from "graphql";
 import { readFile } from "node:fs/promises";
+import { upstreamFetch } from "./cassette";
 /**
  * Introspect a GraphQL endpoint and return the schema as the GraphQL SDL
  * @param endpoint - The endpoint to introspect
@@ -9,7 +15,7 @@ export async function introspectEndpoint(
 	endpoint: string,
 	headers?: Record<string, string>,
 ) {
-	const response = await fetch(endpoint, {
+	const response = await upstreamFetch(endpoint, {
 		method: "POST",
 		headers: {
 			"Content-Type": "application/json",
@@ -34,10 +40,19 @@ export async function introspectEndpoint(
 
 /**
  * Introspect a local GraphQL schema file and return the schema as the GraphQL SDL
- * @param path - The path to the local schema file
+ * @param path - The path to the local schema file, either SDL or a JSON introspection result
+ * (the output of `getIntrospectionQuery()`, with or without the `data` wrapper)
  * @returns The schema
+ * @throws If the file is not a valid schema
  */
 export async function introspectLocalSchema(path: string) {
 	const schema = await readFile(path, "utf8");
+	if (path.endsWith(".json")) {
+		const introspection = JSON.parse(schema);
+		return printSchema(buildClientSchema(introspection.data ?? introspection));
+	}
+
+	// Fail on load instead of on the first query
+	buildSchema(schema);
 	return schema;
 }
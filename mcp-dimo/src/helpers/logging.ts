@@ -0,0 +1,109 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+/**
+ * Structured JSON logs, one object per line on stderr (stdout carries the stdio MCP transport).
+ * Logged data is scrubbed with the rules of sanitizeData in the web app's src/lib/logger.ts.
+ *
+ *   LOG_LEVEL   debug, info (default), warn or error
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const configuredLevel = LEVELS.indexOf((process.env.LOG_LEVEL ?? "info") as LogLevel);
+const MIN_LEVEL = configuredLevel === -1 ? 1 : configuredLevel;
+
+// Same list as sanitizeData in src/lib/logger.ts; change both together
+const FIELDS_TO_HIDE = [
+	"apiKey",
+	"privateKey",
+	"signature",
+	"jwt",
+	"access_token",
+	"token",
+	"vin",
+	"plateNumber",
+	"policyNumber",
+	"ownerName",
+	"ownerAddress",
+	"premium",
+	"totalCost",
+	"extractedText",
+	"challenge",
+	"state",
+	"walletAddress",
+	"wallet_address",
+	"ethereum_address",
+	"address",
+];
+
+/**
+ * Hide API keys, private keys, VINs and other sensitive values, exactly like sanitizeData in
+ * src/lib/logger.ts: long strings are shortened, and the fields in FIELDS_TO_HIDE are masked at any depth
+ */
+export function sanitizeData(data: unknown): unknown {
+	if (typeof data === "string") {
+		if (data.includes("0x") && data.length > 40) {
+			return `${data.substring(0, 10)}...${data.substring(data.length - 4)}`;
+		}
+		if (data.length > 20) {
+			return `${data.substring(0, 8)}...${data.substring(data.length - 4)}`;
+		}
+		return data;
+	}
+
+	if (typeof data === "object" && data !== null) {
+		const sanitized: Record<string, unknown> = { ...data };
+		for (const field of FIELDS_TO_HIDE) {
+			const value = sanitized[field];
+			if (value) {
+				sanitized[field] = typeof value === "string" && value.length > 10 ? `${value.substring(0, 8)}...` : "[HIDDEN]";
+			}
+		}
+		for (const [key, value] of Object.entries(sanitized)) {
+			if (typeof value === "object" && value !== null) {
+				sanitized[key] = sanitizeData(value);
+			}
+		}
+		return Array.isArray(data) ? Object.assign([], sanitized) : sanitized;
+	}
+
+	return data;
+}
+
+interface RequestContext {
+	requestId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a request handler with a request ID that log() and tool results pick up
+ * @param requestId - From the X-Request-Id header when the caller sent one
+ */
+export function runWithRequestId<T>(requestId: string | undefined, callback: () => T): T {
+	return requestContext.run({ requestId: requestId || randomUUID() }, callback);
+}
+
+/** Request ID of the current HTTP request or tool call, if any */
+export function currentRequestId() {
+	return requestContext.getStore()?.requestId;
+}
+
+export function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}) {
+	if (LEVELS.indexOf(level) < MIN_LEVEL) {
+		return;
+	}
+	const requestId = currentRequestId();
+	console.error(
+		JSON.stringify({
+			timestamp: new Date().toISOString(),
+			level,
+			event,
+			...(requestId && { requestId }),
+			...(sanitizeData(fields) as Record<string, unknown>),
+		}),
+	);
+}
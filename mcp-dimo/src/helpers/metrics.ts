@@ -0,0 +1,175 @@
+import { upstreamForUrl } from "./endpoints";
+
+/**
+ * Prometheus metrics in the text exposition format, served at /metrics by http-server.ts. Kept to the
+ * three metric types the server needs so there is no client library to install.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+	name: string;
+	help: string;
+	type: "counter" | "gauge" | "histogram";
+	render: () => string[];
+}
+
+const registry: Metric[] = [];
+
+function labelKey(labels: Labels) {
+	return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels) {
+	const entries = Object.entries(labels);
+	if (entries.length === 0) {
+		return "";
+	}
+	const escaped = entries.map(
+		([key, value]) => `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+	);
+	return `{${escaped.join(",")}}`;
+}
+
+function register(metric: Metric) {
+	registry.push(metric);
+}
+
+export function counter(name: string, help: string) {
+	const values = new Map<string, { labels: Labels; value: number }>();
+	register({
+		name,
+		help,
+		type: "counter",
+		render: () => [...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+	});
+	return {
+		inc(labels: Labels = {}, amount = 1) {
+			const key = labelKey(labels);
+			const entry = values.get(key) ?? { labels, value: 0 };
+			entry.value += amount;
+			values.set(key, entry);
+		},
+	};
+}
+
+/**
+ * A gauge set directly, or read when scraped from a collect callback
+ */
+export function gauge(name: string, help: string, collect?: () => { labels?: Labels; value: number }[]) {
+	const values = new Map<string, { labels: Labels; value: number }>();
+	register({
+		name,
+		help,
+		type: "gauge",
+		render: () =>
+			(collect ? collect().map(({ labels = {}, value }) => ({ labels, value })) : [...values.values()]).map(
+				({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+			),
+	});
+	return {
+		inc(labels: Labels = {}, amount = 1) {
+			const key = labelKey(labels);
+			const entry = values.get(key) ?? { labels, value: 0 };
+			entry.value += amount;
+			values.set(key, entry);
+		},
+		dec(labels: Labels = {}, amount = 1) {
+			this.inc(labels, -amount);
+		},
+	};
+}
+
+export function histogram(name: string, help: string, buckets: number[]) {
+	const values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+	register({
+		name,
+		help,
+		type: "histogram",
+		render: () =>
+			[...values.values()].flatMap(({ labels, counts, sum, count }) => [
+				...buckets.map(
+					(bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`,
+				),
+				`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+				`${name}_sum${formatLabels(labels)} ${sum}`,
+				`${name}_count${formatLabels(labels)} ${count}`,
+			]),
+	});
+	return {
+		observe(labels: Labels, value: number) {
+			const key = labelKey(labels);
+			const entry = values.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+			buckets.forEach((bound, i) => {
+				if (value <= bound) entry.counts[i] += 1;
+			});
+			entry.sum += value;
+			entry.count += 1;
+			values.set(key, entry);
+		},
+	};
+}
+
+export function renderMetrics() {
+	return `${registry
+		.flatMap((metric) => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()])
+		.join("\n")}\n`;
+}
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const toolDuration = histogram(
+	"dimo_mcp_tool_duration_seconds",
+	"Tool call latency by tool, transport and outcome (ok, error, exception).",
+	LATENCY_BUCKETS,
+);
+
+export const upstreamRequests = counter(
+	"dimo_mcp_upstream_requests_total",
+	"Requests to DIMO and other upstream APIs by upstream and HTTP status.",
+);
+
+export const upstreamErrors = counter(
+	"dimo_mcp_upstream_errors_total",
+	"Failed upstream requests by upstream and reason (HTTP status or network).",
+);
+
+export const vehicleJwtCache = counter(
+	"dimo_mcp_vehicle_jwt_cache_total",
+	"Vehicle JWT lookups by result (hit, miss), and background refreshes (refresh).",
+);
+
+export const webhookDeliveries = counter(
+	"dimo_mcp_webhook_deliveries_total",
+	"Webhook delivery attempts of subscriptions by outcome (delivered, retrying, failed).",
+);
+
+/**
+ * Count requests and errors per upstream around a fetch function
+ */
+export function instrumentUpstreamFetch<Fetch extends (input: string | URL, init?: RequestInit) => Promise<Response>>(
+	fetchFn: Fetch,
+): Fetch {
+	return (async (input: string | URL, init?: RequestInit) => {
+		const upstream = upstreamForUrl(input.toString());
+		try {
+			const response = await fetchFn(input, init);
+			upstreamRequests.inc({ upstream, status: String(response.status) });
+			if (!response.ok) {
+				upstreamErrors.inc({ upstream, reason: String(response.status) });
+			}
+			return response;
+		} catch (error) {
+			upstreamRequests.inc({ upstream, status: "network" });
+			upstreamErrors.inc({ upstream, reason: "network" });
+			throw error;
+		}
+	}) as Fetch;
+}
+
+export const httpRequestsInFlight = gauge("dimo_mcp_http_requests_in_flight", "HTTP requests being handled.");
+
+export const httpRequests = counter(
+	"dimo_mcp_http_requests_total",
+	"Handled HTTP requests by method, route and status.",
+);
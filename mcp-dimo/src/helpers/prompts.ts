@@ -0,0 +1,145 @@
+/**
+ * Prompt templates shared by every MCP client. The wording follows the system prompts the web chat
+ * (`AIChatEnhanced`) and `aiService` use, so any client gets the same kind of answers.
+ */
+
+const RESPONSE_RULES = `Response rules:
+- Do not use emojis or bold formatting; return clean, professional text.
+- All DIMO distances and odometer readings are in kilometers and speeds in km/h. If the user asks for miles or mph, convert directly (1 km = 0.621371 miles) without explaining the conversion.
+- Always state the unit of every number you report.
+- If a signal is missing from the data, say so instead of guessing.`;
+
+const LATEST_SIGNALS_HINT = `{
+  signalsLatest(tokenId: TOKEN_ID) {
+    lastSeen
+    speed { value timestamp }
+    powertrainTransmissionTravelledDistance { value timestamp }
+    powertrainFuelSystemRelativeLevel { value timestamp }
+    powertrainTractionBatteryStateOfChargeCurrent { value timestamp }
+    powertrainCombustionEngineECT { value timestamp }
+    lowVoltageBatteryCurrentVoltage { value timestamp }
+    chassisAxleRow1WheelLeftTirePressure { value timestamp }
+    chassisAxleRow1WheelRightTirePressure { value timestamp }
+    chassisAxleRow2WheelLeftTirePressure { value timestamp }
+    chassisAxleRow2WheelRightTirePressure { value timestamp }
+    obdDTCList { value timestamp }
+  }
+}`;
+
+function latestSignalsStep(tokenId: string) {
+	return `Call telemetry_query with tokenId ${tokenId} and this query (drop fields the schema rejects; check telemetry_introspect if unsure):
+${LATEST_SIGNALS_HINT.replace("TOKEN_ID", tokenId)}`;
+}
+
+function daysAgo(days: number) {
+	return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Build the vehicle_health_report prompt
+ * @param tokenId - Vehicle token ID
+ * @param focus - Optional system to focus on (e.g. "battery")
+ */
+export function vehicleHealthReportPrompt(tokenId: string, focus?: string) {
+	return `Write a health report for vehicle ${tokenId}${focus ? `, focusing on the ${focus}` : ""}.
+
+Gather the data first:
+1. Read the resource dimo://vehicle/${tokenId}/identity for make, model and year.
+2. ${latestSignalsStep(tokenId)}
+3. Call telemetry_history with tokenId ${tokenId}, signals ["lowVoltageBatteryCurrentVoltage", "powertrainCombustionEngineECT", "powertrainFuelSystemRelativeLevel"], from "${daysAgo(7)}", to "${new Date().toISOString()}", interval "24h" and aggregation "AVG" to spot trends.
+4. Read the resource dimo://vehicle/${tokenId}/alerts for upcoming registration, insurance and service dates.
+
+Then report:
+- An overall health score from 0 to 100
+- The status of engine, battery, tires, fluids and diagnostics, each with the readings it is based on
+- Prioritized recommendations (low, medium, high, urgent) with timeframes and cost estimates where relevant
+
+${RESPONSE_RULES}`;
+}
+
+/**
+ * Build the trip_readiness_check prompt
+ * @param tokenId - Vehicle token ID
+ * @param destination - Optional destination of the trip
+ * @param distanceKm - Optional trip distance in kilometers
+ */
+export function tripReadinessCheckPrompt(
+	tokenId: string,
+	destination?: string,
+	distanceKm?: string,
+) {
+	const trip = [
+		destination ? `to ${destination}` : "",
+		distanceKm ? `of about ${distanceKm} km` : "",
+	]
+		.filter(Boolean)
+		.join(" ");
+
+	return `Decide whether vehicle ${tokenId} is ready for a trip${trip ? ` ${trip}` : ""}.
+
+Gather the data first:
+1. Read the resource dimo://vehicle/${tokenId}/identity for make, model and year.
+2. ${latestSignalsStep(tokenId)}
+3. Call trip_segments with tokenId ${tokenId}, from "${daysAgo(7)}" and to "${new Date().toISOString()}" to see how the vehicle has been driven recently.
+
+Then answer with:
+- Ready or not ready, and a readiness score from 0 to 100
+- Blockers (active diagnostic codes, very low fuel or charge, low tire pressure) and warnings
+- Estimated range against the trip distance, if both are known
+- Concrete preparation steps before departure
+
+${RESPONSE_RULES}`;
+}
+
+/**
+ * Build the maintenance_plan prompt
+ * @param tokenId - Vehicle token ID
+ * @param months - Optional planning horizon in months
+ */
+export function maintenancePlanPrompt(tokenId: string, months?: string) {
+	const horizon = months || "6";
+
+	return `Create a maintenance plan for vehicle ${tokenId} covering the next ${horizon} months.
+
+Gather the data first:
+1. Read the resource dimo://vehicle/${tokenId}/identity for make, model and year.
+2. ${latestSignalsStep(tokenId)}
+3. Call telemetry_history with tokenId ${tokenId}, signals ["powertrainTransmissionTravelledDistance"], from "${daysAgo(30)}", to "${new Date().toISOString()}", interval "24h" and aggregation "MAX" to estimate kilometers driven per month.
+4. Read the resources dimo://vehicle/${tokenId}/documents (past service receipts) and dimo://vehicle/${tokenId}/alerts (upcoming due dates).
+
+Then produce a schedule that lists, for each item, the service, the date or odometer reading it is due at, why, and an estimated cost. Base the intervals on the make and model and on the mileage trend, and point out anything already overdue.
+
+${RESPONSE_RULES}`;
+}
+
+/**
+ * Build the explain_dtc prompt
+ * @param tokenId - Vehicle token ID
+ * @param code - Optional diagnostic trouble code; when omitted the vehicle's active codes are used
+ */
+export function explainDtcPrompt(tokenId: string, code?: string) {
+	const codeStep = code
+		? `The code to explain is ${code}. Still check whether it is currently active on the vehicle.`
+		: "Explain every code that is currently active on the vehicle.";
+
+	return `Explain the diagnostic trouble codes (DTCs) of vehicle ${tokenId}. ${codeStep}
+
+Gather the data first:
+1. Read the resource dimo://vehicle/${tokenId}/identity for make, model and year, since code meanings can be manufacturer specific.
+2. Call telemetry_query with tokenId ${tokenId} and this query:
+{
+  signalsLatest(tokenId: ${tokenId}) {
+    obdDTCList { value timestamp }
+    powertrainCombustionEngineECT { value timestamp }
+    lowVoltageBatteryCurrentVoltage { value timestamp }
+  }
+}
+
+Then, for each code, explain:
+- What the code means in plain language, and the system it belongs to
+- Likely causes for this make and model, most likely first
+- Whether it is safe to keep driving, and how urgent a repair is
+- Typical repair and an estimated cost range
+
+${RESPONSE_RULES}`;
+}
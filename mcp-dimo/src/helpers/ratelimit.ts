@@ -0,0 +1,222 @@
+/**
+ * Token-bucket rate limits on tool calls, per caller (API client or transport), per vehicle tokenId and
+ * per DIMO upstream, so one runaway agent cannot exhaust the developer license quota. Every admitted or
+ * limited call is counted per minute for the /usage endpoint.
+ *
+ * Limits are "<count>/<s|min|h>" strings, or "off":
+ *   RATE_LIMIT_CLIENT                 default 120/min
+ *   RATE_LIMIT_VEHICLE                default 60/min
+ *   RATE_LIMIT_UPSTREAM_<UPSTREAM>    IDENTITY, TELEMETRY, DEVICE_DEFINITIONS 300/min, DEVICES, ATTEST 30/min
+ */
+
+export type Upstream = "identity" | "telemetry" | "devices" | "deviceDefinitions" | "attest";
+
+export interface RateLimit {
+	/** Burst size */
+	capacity: number;
+	refillPerSecond: number;
+	/** As configured, e.g. 120/min */
+	description: string;
+}
+
+export interface RateLimitFailure {
+	status: 429;
+	code: "rate_limited";
+	message: string;
+	/** Bucket that ran out, e.g. client:3f9a2c1d, vehicle:101 or upstream:telemetry */
+	limit: string;
+	retryAfterSeconds: number;
+}
+
+export interface CallUsage {
+	allowed: number;
+	limited: number;
+}
+
+const PERIOD_SECONDS: Record<string, number> = { s: 1, min: 60, h: 3600 };
+
+const UPSTREAM_ENV: Record<Upstream, [string, string]> = {
+	identity: ["RATE_LIMIT_UPSTREAM_IDENTITY", "300/min"],
+	telemetry: ["RATE_LIMIT_UPSTREAM_TELEMETRY", "300/min"],
+	devices: ["RATE_LIMIT_UPSTREAM_DEVICES", "30/min"],
+	deviceDefinitions: ["RATE_LIMIT_UPSTREAM_DEVICE_DEFINITIONS", "300/min"],
+	attest: ["RATE_LIMIT_UPSTREAM_ATTEST", "30/min"],
+};
+
+export function parseRateLimit(value: string): RateLimit | undefined {
+	if (value.trim() === "off") {
+		return undefined;
+	}
+	const match = value.trim().match(/^(\d+)\/(s|min|h)$/);
+	if (!match || Number(match[1]) <= 0) {
+		throw new Error(`Invalid rate limit "${value}", expected e.g. 120/min or off`);
+	}
+	const count = Number(match[1]);
+	return {
+		capacity: count,
+		refillPerSecond: count / PERIOD_SECONDS[match[2]],
+		description: `${count}/${match[2]}`,
+	};
+}
+
+export const RATE_LIMITS = {
+	client: parseRateLimit(process.env.RATE_LIMIT_CLIENT ?? "120/min"),
+	vehicle: parseRateLimit(process.env.RATE_LIMIT_VEHICLE ?? "60/min"),
+	upstream: Object.fromEntries(
+		Object.entries(UPSTREAM_ENV).map(([upstream, [variable, fallback]]) => [
+			upstream,
+			parseRateLimit(process.env[variable] ?? fallback),
+		]),
+	) as Record<Upstream, RateLimit | undefined>,
+};
+
+// Usage is kept per minute for the longest reported window
+const USAGE_RETENTION_MINUTES = 24 * 60;
+
+export const USAGE_WINDOWS: Record<string, number> = { "1m": 1, "1h": 60, "24h": USAGE_RETENTION_MINUTES };
+
+const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+const usageByMinute = new Map<number, Map<string, CallUsage>>();
+
+function refill(key: string, limit: RateLimit, now: number) {
+	const bucket = buckets.get(key) ?? { tokens: limit.capacity, updatedAt: now };
+	bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond);
+	bucket.updatedAt = now;
+	buckets.set(key, bucket);
+	return bucket;
+}
+
+// A bucket that has refilled to capacity behaves like a missing one, so idle callers and vehicles are dropped
+function pruneBuckets(now: number) {
+	for (const [key, bucket] of buckets) {
+		const limit = limitFor(key);
+		if (!limit || bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond >= limit.capacity) {
+			buckets.delete(key);
+		}
+	}
+}
+
+function recordUsage(keys: string[], outcome: keyof CallUsage, now: number) {
+	const minute = Math.floor(now / 60000);
+	let counters = usageByMinute.get(minute);
+	if (!counters) {
+		counters = new Map();
+		usageByMinute.set(minute, counters);
+		for (const stored of usageByMinute.keys()) {
+			if (stored <= minute - USAGE_RETENTION_MINUTES) {
+				usageByMinute.delete(stored);
+			}
+		}
+		pruneBuckets(now);
+	}
+	for (const key of keys) {
+		const usage = counters.get(key) ?? { allowed: 0, limited: 0 };
+		usage[outcome] += 1;
+		counters.set(key, usage);
+	}
+}
+
+/**
+ * Take one token from the caller, vehicle and upstream buckets of a call. Nothing is taken unless every
+ * bucket has a token, so a limited call does not count against the others.
+ * @param caller - API client id, or the transport for unauthenticated callers
+ */
+export function consumeRateLimit(call: {
+	caller: string;
+	tokenId?: number;
+	upstreams?: Upstream[];
+}): RateLimitFailure | undefined {
+	const now = Date.now();
+	const checks: [string, RateLimit | undefined][] = [
+		[`client:${call.caller}`, RATE_LIMITS.client],
+		...(call.tokenId !== undefined
+			? [[`vehicle:${call.tokenId}`, RATE_LIMITS.vehicle] as [string, RateLimit | undefined]]
+			: []),
+		...(call.upstreams ?? []).map(
+			(upstream) => [`upstream:${upstream}`, RATE_LIMITS.upstream[upstream]] as [string, RateLimit | undefined],
+		),
+	];
+	const keys = checks.map(([key]) => key);
+
+	for (const [key, limit] of checks) {
+		if (!limit) {
+			continue;
+		}
+		const bucket = refill(key, limit, now);
+		if (bucket.tokens < 1) {
+			recordUsage(keys, "limited", now);
+			const retryAfterSeconds = Math.ceil((1 - bucket.tokens) / limit.refillPerSecond);
+			return {
+				status: 429,
+				code: "rate_limited",
+				message: `Rate limit of ${limit.description} reached for ${key}. Retry after ${retryAfterSeconds}s.`,
+				limit: key,
+				retryAfterSeconds,
+			};
+		}
+	}
+
+	for (const [key, limit] of checks) {
+		if (limit) {
+			buckets.get(key)!.tokens -= 1;
+		}
+	}
+	recordUsage(keys, "allowed", now);
+	return undefined;
+}
+
+/**
+ * Calls per bucket key (client:…, vehicle:…, upstream:…) in each of USAGE_WINDOWS, plus the tokens left
+ * in each bucket now
+ * @param include - Filter the reported keys, e.g. to the caller's own client and vehicles
+ */
+export function getUsage(include: (key: string) => boolean = () => true) {
+	const now = Date.now();
+	const currentMinute = Math.floor(now / 60000);
+	const windows: Record<string, Record<string, CallUsage>> = {};
+
+	for (const [window, minutes] of Object.entries(USAGE_WINDOWS)) {
+		const totals: Record<string, CallUsage> = {};
+		for (const [minute, counters] of usageByMinute) {
+			if (minute <= currentMinute - minutes) {
+				continue;
+			}
+			for (const [key, usage] of counters) {
+				if (!include(key)) {
+					continue;
+				}
+				totals[key] ??= { allowed: 0, limited: 0 };
+				totals[key].allowed += usage.allowed;
+				totals[key].limited += usage.limited;
+			}
+		}
+		windows[window] = totals;
+	}
+
+	const remaining: Record<string, number> = {};
+	for (const key of buckets.keys()) {
+		const limit = limitFor(key);
+		if (limit && include(key)) {
+			remaining[key] = Math.floor(refill(key, limit, now).tokens);
+		}
+	}
+
+	return {
+		limits: {
+			client: RATE_LIMITS.client?.description ?? "off",
+			vehicle: RATE_LIMITS.vehicle?.description ?? "off",
+			upstream: Object.fromEntries(
+				Object.entries(RATE_LIMITS.upstream).map(([upstream, limit]) => [upstream, limit?.description ?? "off"]),
+			),
+		},
+		remaining,
+		windows,
+	};
+}
+
+function limitFor(key: string) {
+	const [kind, name] = key.split(":");
+	if (kind === "client") return RATE_LIMITS.client;
+	if (kind === "vehicle") return RATE_LIMITS.vehicle;
+	return RATE_LIMITS.upstream[name as Upstream];
+}
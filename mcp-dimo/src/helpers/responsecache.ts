@@ -0,0 +1,166 @@
+import { createHash } from "node:crypto";
+import { type OperationDefinitionNode, parse, print } from "graphql/language";
+
+/**
+ * Short-lived cache of GraphQL responses. Dashboard, chat and the AI service issue the same vehicle
+ * identity and signalsLatest queries within seconds of each other; this serves the repeats without
+ * another upstream round trip. Entries are keyed on the normalized query, variables and tokenId.
+ *
+ *   RESPONSE_CACHE_TTL_IDENTITY_SECONDS    default 600, 0 disables
+ *   RESPONSE_CACHE_TTL_TELEMETRY_SECONDS   default 15, 0 disables
+ *   RESPONSE_CACHE_MAX_ENTRIES             default 500
+ */
+
+export type CachedApi = "identity" | "telemetry";
+
+export interface ResponseCacheInfo {
+	status: "hit" | "miss" | "bypass";
+	/** Seconds the response may still be reused, for Cache-Control: max-age */
+	maxAgeSeconds: number;
+	ageSeconds: number;
+}
+
+interface CacheEntry {
+	response: unknown;
+	storedAt: number;
+	expiresAt: number;
+}
+
+export const RESPONSE_CACHE_TTL_SECONDS: Record<CachedApi, number> = {
+	identity: Number(process.env.RESPONSE_CACHE_TTL_IDENTITY_SECONDS ?? 600),
+	telemetry: Number(process.env.RESPONSE_CACHE_TTL_TELEMETRY_SECONDS ?? 15),
+};
+
+const MAX_ENTRIES = Number(process.env.RESPONSE_CACHE_MAX_ENTRIES ?? 500);
+
+// Telemetry changes by the second; only the "latest value" queries are worth reusing
+const CACHEABLE_TELEMETRY_FIELDS = ["signalsLatest", "availableSignals"];
+
+const entries = new Map<string, CacheEntry>();
+const stats: Record<CachedApi, { hits: number; misses: number; bypassed: number }> = {
+	identity: { hits: 0, misses: 0, bypassed: 0 },
+	telemetry: { hits: 0, misses: 0, bypassed: 0 },
+};
+
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value && typeof value === "object") {
+		return `{${Object.keys(value)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Whether a query may be cached: a query operation (not a mutation) and, for telemetry, only
+ * latest-value root fields
+ */
+function isCacheable(api: CachedApi, query: string) {
+	if (RESPONSE_CACHE_TTL_SECONDS[api] <= 0) {
+		return false;
+	}
+	try {
+		const operations = parse(query).definitions.filter(
+			(definition): definition is OperationDefinitionNode => definition.kind === "OperationDefinition",
+		);
+		return operations.every(
+			(operation) =>
+				operation.operation === "query" &&
+				(api === "identity" ||
+					operation.selectionSet.selections.every(
+						(selection) => selection.kind === "Field" && CACHEABLE_TELEMETRY_FIELDS.includes(selection.name.value),
+					)),
+		);
+	} catch {
+		return false;
+	}
+}
+
+function cacheKey(api: CachedApi, query: string, variables: Record<string, unknown> | undefined, tokenId?: number) {
+	// print() drops comments and whitespace differences, so reformatted queries share an entry
+	const normalized = `${api}\n${print(parse(query))}\n${stableStringify(variables ?? {})}\n${tokenId ?? ""}`;
+	return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Serve a GraphQL response from the cache, or fetch and store it. Only successful responses are stored.
+ * @param fetchResponse - Performs the upstream request and tells whether the response may be stored
+ */
+export async function withResponseCache<T>(
+	request: {
+		api: CachedApi;
+		query: string;
+		variables?: Record<string, unknown>;
+		tokenId?: number;
+		bypass?: boolean;
+	},
+	fetchResponse: () => Promise<{ value: T; cacheable: boolean }>,
+): Promise<{ value: T; cache?: ResponseCacheInfo }> {
+	if (!isCacheable(request.api, request.query)) {
+		return { value: (await fetchResponse()).value };
+	}
+
+	const ttlMs = RESPONSE_CACHE_TTL_SECONDS[request.api] * 1000;
+	const key = cacheKey(request.api, request.query, request.variables, request.tokenId);
+	const now = Date.now();
+	const entry = entries.get(key);
+
+	if (request.bypass) {
+		stats[request.api].bypassed += 1;
+	} else if (entry && entry.expiresAt > now) {
+		stats[request.api].hits += 1;
+		return {
+			value: entry.response as T,
+			cache: {
+				status: "hit",
+				maxAgeSeconds: Math.floor((entry.expiresAt - now) / 1000),
+				ageSeconds: Math.floor((now - entry.storedAt) / 1000),
+			},
+		};
+	} else {
+		stats[request.api].misses += 1;
+	}
+
+	const { value, cacheable } = await fetchResponse();
+	if (cacheable) {
+		entries.delete(key);
+		entries.set(key, { response: value, storedAt: now, expiresAt: now + ttlMs });
+		// Map keeps insertion order, so the first key is the oldest entry
+		if (entries.size > MAX_ENTRIES) {
+			entries.delete(entries.keys().next().value!);
+		}
+	}
+	return {
+		value,
+		cache: {
+			status: request.bypass ? "bypass" : "miss",
+			maxAgeSeconds: cacheable ? ttlMs / 1000 : 0,
+			ageSeconds: 0,
+		},
+	};
+}
+
+/**
+ * Hit/miss counts per API, for the health endpoint
+ */
+export function getResponseCacheStats() {
+	const now = Date.now();
+	let live = 0;
+	for (const entry of entries.values()) {
+		if (entry.expiresAt > now) live += 1;
+	}
+	return {
+		entries: live,
+		ttlSeconds: RESPONSE_CACHE_TTL_SECONDS,
+		...Object.fromEntries(
+			Object.entries(stats).map(([api, counts]) => {
+				const lookups = counts.hits + counts.misses;
+				return [api, { ...counts, hitRate: lookups ? Number((counts.hits / lookups).toFixed(3)) : null }];
+			}),
+		),
+	};
+}
@@ -0,0 +1,361 @@
+import {
+	type GraphQLField,
+	type GraphQLInputField,
+	type GraphQLNamedType,
+	type GraphQLSchema,
+	buildSchema,
+	isEnumType,
+	isInputObjectType,
+	isInterfaceType,
+	isObjectType,
+	isUnionType,
+	parse,
+	validate,
+} from "graphql";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { z } from "zod";
+import { introspectEndpoint, introspectLocalSchema } from "./introspection";
+
+export interface SchemaSource {
+	/** Human readable API name used in error messages, e.g. "Identity" */
+	name: string;
+	endpoint: string;
+	/** SDL file to load instead of introspecting the endpoint, for offline use */
+	localPath?: string;
+	headers?: Record<string, string>;
+}
+
+interface LoadedSchema {
+	sdl: string;
+	schema: GraphQLSchema;
+	/** pinned: local file, introspection: fetched now, snapshot: read from the disk cache */
+	origin: "pinned" | "introspection" | "snapshot";
+	loadedAt: number;
+	/** When the schema should be introspected again; never for pinned files */
+	expiresAt: number;
+}
+
+interface CacheEntry {
+	loaded: Promise<LoadedSchema>;
+	expiresAt: number;
+}
+
+const MAX_SUGGESTIONS = 5;
+const DEFAULT_TTL_MINUTES = 24 * 60;
+// How long a stale snapshot is served before introspection is tried again
+const OFFLINE_RETRY_MS = 5 * 60 * 1000;
+
+const schemas = new Map<string, CacheEntry>();
+
+function ttlMs() {
+	const minutes = Number(process.env.SCHEMA_CACHE_TTL_MINUTES);
+	const ttlMinutes =
+		Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_TTL_MINUTES;
+	return ttlMinutes * 60 * 1000;
+}
+
+function snapshotPath(source: SchemaSource) {
+	const dir =
+		process.env.SCHEMA_CACHE_DIR ?? join(tmpdir(), "dimo-mcp", "schemas");
+	const hash = createHash("sha1").update(source.endpoint).digest("hex");
+	return join(dir, `${source.name.toLowerCase()}-${hash.slice(0, 8)}.graphql`);
+}
+
+async function readSnapshot(source: SchemaSource) {
+	const path = snapshotPath(source);
+	try {
+		const [sdl, info] = await Promise.all([
+			readFile(path, "utf8"),
+			stat(path),
+		]);
+		return { sdl, savedAt: info.mtimeMs };
+	} catch {
+		return undefined;
+	}
+}
+
+async function writeSnapshot(source: SchemaSource, sdl: string) {
+	const path = snapshotPath(source);
+	try {
+		await mkdir(dirname(path), { recursive: true });
+		await writeFile(path, sdl);
+	} catch {
+		// The snapshot only saves a round trip on the next start
+	}
+}
+
+function toLoadedSchema(
+	sdl: string,
+	origin: LoadedSchema["origin"],
+	loadedAt: number,
+	expiresAt: number,
+): LoadedSchema {
+	return { sdl, schema: buildSchema(sdl), origin, loadedAt, expiresAt };
+}
+
+async function loadSchema(source: SchemaSource): Promise<LoadedSchema> {
+	const now = Date.now();
+	const ttl = ttlMs();
+	if (source.localPath) {
+		const sdl = await introspectLocalSchema(source.localPath);
+		return toLoadedSchema(sdl, "pinned", now, Number.POSITIVE_INFINITY);
+	}
+
+	const snapshot = await readSnapshot(source);
+	if (snapshot && snapshot.savedAt + ttl > now) {
+		const { sdl, savedAt } = snapshot;
+		return toLoadedSchema(sdl, "snapshot", savedAt, savedAt + ttl);
+	}
+
+	try {
+		const sdl = await introspectEndpoint(source.endpoint, source.headers);
+		await writeSnapshot(source, sdl);
+		return toLoadedSchema(sdl, "introspection", now, now + ttl);
+	} catch (error) {
+		// Offline: an outdated schema is more useful than none
+		if (snapshot) {
+			const { sdl, savedAt } = snapshot;
+			return toLoadedSchema(sdl, "snapshot", savedAt, now + OFFLINE_RETRY_MS);
+		}
+		throw error;
+	}
+}
+
+function cacheKey(source: SchemaSource) {
+	return source.localPath ?? source.endpoint;
+}
+
+function getLoadedSchema(source: SchemaSource) {
+	const key = cacheKey(source);
+	const cached = schemas.get(key);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.loaded;
+	}
+
+	const entry: CacheEntry = {
+		loaded: loadSchema(source),
+		expiresAt: Number.POSITIVE_INFINITY,
+	};
+	entry.loaded.then(
+		(loaded) => {
+			entry.expiresAt = loaded.expiresAt;
+		},
+		// Do not keep failed loads around, the next call retries
+		() => schemas.delete(key),
+	);
+	schemas.set(key, entry);
+	return entry.loaded;
+}
+
+/**
+ * Get the schema SDL. Schemas are cached in memory and on disk for SCHEMA_CACHE_TTL_MINUTES
+ * (default one day); pinned local files are read once and never expire.
+ * @param source - Where the schema comes from
+ * @returns The schema SDL
+ */
+export async function getSchemaSdl(source: SchemaSource) {
+	return (await getLoadedSchema(source)).sdl;
+}
+
+function words(name: string) {
+	return name
+		.split(/(?=[A-Z])|_/)
+		.map((word) => word.toLowerCase())
+		.filter((word) => word.length >= 3);
+}
+
+/**
+ * Fields of a type whose names share words with an unknown field name, best match first.
+ * graphql-js only suggests names within a small edit distance, which misses e.g.
+ * tirePressure -> chassisAxleRow1WheelLeftTirePressure.
+ */
+function similarFields(schema: GraphQLSchema, typeName: string, field: string) {
+	const type = schema.getType(typeName);
+	if (!type || !(isObjectType(type) || isInterfaceType(type))) return [];
+
+	const wanted = words(field);
+	return Object.keys(type.getFields())
+		.map((name) => {
+			const lower = name.toLowerCase();
+			return { name, score: wanted.filter((w) => lower.includes(w)).length };
+		})
+		.filter((candidate) => candidate.score > 0)
+		.sort((a, b) => b.score - a.score || a.name.length - b.name.length)
+		.slice(0, MAX_SUGGESTIONS)
+		.map((candidate) => candidate.name);
+}
+
+function withSuggestions(schema: GraphQLSchema, message: string) {
+	if (message.includes("Did you mean")) return message;
+
+	const unknownField = message.match(
+		/^Cannot query field "(\w+)" on type "(\w+)"\.$/,
+	);
+	if (!unknownField) return message;
+
+	const [, field, typeName] = unknownField;
+	const suggestions = similarFields(schema, typeName, field);
+	if (suggestions.length > 0) {
+		return `${message} Did you mean ${suggestions.map((s) => `"${s}"`).join(", ")}?`;
+	}
+
+	const type = schema.getType(typeName);
+	if (type && (isObjectType(type) || isInterfaceType(type))) {
+		const fields = Object.keys(type.getFields());
+		return `${message} Available fields: ${fields.slice(0, 20).join(", ")}${fields.length > 20 ? ", ..." : ""}.`;
+	}
+	return message;
+}
+
+/**
+ * Validate a query against the schema of an API
+ * @param source - Where the schema comes from
+ * @param query - The GraphQL query string
+ * @returns Validation errors with field suggestions, empty when the query is valid. Syntax errors
+ * are returned as well. If the schema cannot be loaded only the syntax is checked, so an
+ * unreachable introspection endpoint never blocks queries.
+ */
+export async function validateQuery(
+	source: SchemaSource,
+	query: string,
+): Promise<string[]> {
+	let document: ReturnType<typeof parse>;
+	try {
+		document = parse(query);
+	} catch (error) {
+		return [`${error}`];
+	}
+
+	let schema: GraphQLSchema;
+	try {
+		schema = (await getLoadedSchema(source)).schema;
+	} catch {
+		return [];
+	}
+
+	return validate(schema, document).map((error) =>
+		withSuggestions(schema, error.message),
+	);
+}
+
+/**
+ * Format validation errors for a tool response
+ * @param source - The API the query was validated against
+ * @param errors - Errors returned by validateQuery
+ */
+export function formatValidationErrors(source: SchemaSource, errors: string[]) {
+	return `The query is not valid against the ${source.name} schema, please fix it:\n${errors.map((e) => `- ${e}`).join("\n")}`;
+}
+
+export const SchemaSearchSchema = z.object({
+	api: z.enum(["identity", "telemetry"]),
+	keyword: z.string().min(1),
+	limit: z.number().default(25),
+});
+
+export interface SchemaMatch {
+	type: string;
+	kind: string;
+	/** Set when a field or enum value matched rather than the type itself */
+	field?: string;
+	/** Field signature with arguments and return type, e.g. `speed(agg: FloatAggregation!): Float` */
+	signature?: string;
+	description?: string;
+}
+
+function typeKind(type: GraphQLNamedType) {
+	if (isObjectType(type)) return "object";
+	if (isInterfaceType(type)) return "interface";
+	if (isInputObjectType(type)) return "input";
+	if (isEnumType(type)) return "enum";
+	if (isUnionType(type)) return "union";
+	return "scalar";
+}
+
+function fieldSignature(
+	field: GraphQLField<unknown, unknown> | GraphQLInputField,
+) {
+	const args =
+		"args" in field && field.args.length > 0
+			? `(${field.args.map((arg) => `${arg.name}: ${arg.type}`).join(", ")})`
+			: "";
+	return `${field.name}${args}: ${field.type}`;
+}
+
+function matches(keyword: string, ...texts: (string | null | undefined)[]) {
+	return texts.some((text) => text?.toLowerCase().includes(keyword));
+}
+
+/**
+ * Find the types, fields and enum values whose name or description contains a keyword, so a
+ * client does not need the whole SDL in its context
+ * @param source - Where the schema comes from
+ * @param keyword - Case-insensitive keyword, e.g. "battery"
+ * @param limit - Maximum number of matches returned
+ * @returns The matches, types first, the total number found and where the schema came from
+ */
+export async function searchSchema(
+	source: SchemaSource,
+	keyword: string,
+	limit = 25,
+) {
+	const { schema, origin, loadedAt } = await getLoadedSchema(source);
+	const needle = keyword.toLowerCase();
+	const typeMatches: SchemaMatch[] = [];
+	const fieldMatches: SchemaMatch[] = [];
+
+	for (const type of Object.values(schema.getTypeMap())) {
+		if (type.name.startsWith("__")) continue;
+		const kind = typeKind(type);
+
+		if (matches(needle, type.name, type.description)) {
+			typeMatches.push({
+				type: type.name,
+				kind,
+				...(type.description && { description: type.description }),
+			});
+		}
+
+		if (
+			isObjectType(type) ||
+			isInterfaceType(type) ||
+			isInputObjectType(type)
+		) {
+			for (const field of Object.values(type.getFields())) {
+				if (matches(needle, field.name, field.description)) {
+					fieldMatches.push({
+						type: type.name,
+						kind,
+						field: field.name,
+						signature: fieldSignature(field),
+						...(field.description && { description: field.description }),
+					});
+				}
+			}
+		} else if (isEnumType(type)) {
+			for (const value of type.getValues()) {
+				if (matches(needle, value.name, value.description)) {
+					fieldMatches.push({
+						type: type.name,
+						kind,
+						field: value.name,
+						...(value.description && { description: value.description }),
+					});
+				}
+			}
+		}
+	}
+
+	const all = [...typeMatches, ...fieldMatches];
+	return {
+		api: source.name,
+		keyword,
+		schemaOrigin: origin,
+		schemaLoadedAt: new Date(loadedAt).toISOString(),
+		total: all.length,
+		matches: all.slice(0, limit),
+	};
+}
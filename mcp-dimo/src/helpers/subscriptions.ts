@@ -0,0 +1,754 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { readFile, writeFile } from "node:fs/promises";
+import { isIP } from "node:net";
+import { resolve } from "node:path";
+import { type PeerCertificate, checkServerIdentity } from "node:tls";
+import { z } from "zod";
+import { appendAudit } from "./audit";
+import { BATCH_CONCURRENCY, mapWithConcurrency } from "./batch";
+import { upstreamFetch } from "./cassette";
+import { DIMO_ENDPOINTS } from "./endpoints";
+import { log } from "./logging";
+import { gauge, webhookDeliveries } from "./metrics";
+
+/**
+ * Webhook subscriptions of the HTTP server. A client registers conditions on the signals of a vehicle
+ * and a callback URL; every SUBSCRIPTION_POLL_SECONDS the latest signals of each subscribed vehicle are
+ * queried once, and a subscription fires when all its conditions hold and did not at the previous
+ * evaluation (a `changed` condition fires on every change), then not again within its cooldown.
+ * With `native: true` a single-condition subscription is registered as a DIMO vehicle trigger instead,
+ * which calls this server back at MCP_PUBLIC_URL; when that is not possible the subscription is polled.
+ *
+ * Payloads are signed with the subscription's secret, which is only returned when it is created:
+ * X-Dimo-Signature is `sha256=` and the hex HMAC-SHA256 of `<X-Dimo-Timestamp>.<body>`. Deliveries that
+ * fail with a network error, a timeout, 408, 429 or 5xx are retried with exponential backoff.
+ *
+ * Callback URLs must not point into this server's network: loopback, private, link-local and other
+ * non-public addresses are rejected when a subscription is created, and the host is resolved again
+ * before every delivery. The delivery connects to the address that was checked, with the hostname kept
+ * for the Host header and TLS, so a DNS record changed afterwards cannot redirect events there either.
+ *
+ *   MCP_SUBSCRIPTIONS_FILE       default mcp-subscriptions.json
+ *   SUBSCRIPTION_POLL_SECONDS    default 60
+ *   SUBSCRIPTIONS_PER_CLIENT     default 100
+ *   MCP_PUBLIC_URL               base URL DIMO reaches this server at, needed for native triggers
+ *   WEBHOOK_TIMEOUT_MS           default 10000
+ *   WEBHOOK_MAX_ATTEMPTS         default 5
+ *   WEBHOOK_RETRY_BASE_SECONDS   default 10, doubled after every attempt
+ *   WEBHOOK_ALLOW_PRIVATE_URLS   true to allow callbacks to non-public addresses, for local development
+ */
+
+export const SUBSCRIPTIONS_FILE = resolve(process.env.MCP_SUBSCRIPTIONS_FILE ?? "mcp-subscriptions.json");
+const POLL_MS = Number(process.env.SUBSCRIPTION_POLL_SECONDS ?? 60) * 1000;
+const PUBLIC_URL = process.env.MCP_PUBLIC_URL?.replace(/\/+$/, "");
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS ?? 10000);
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 5);
+const WEBHOOK_RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_SECONDS ?? 10) * 1000;
+const ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+export const MAX_SUBSCRIPTIONS_PER_CLIENT = Number(process.env.SUBSCRIPTIONS_PER_CLIENT ?? 100);
+
+// Deliveries kept per subscription for GET /subscriptions/:id
+const RECENT_DELIVERIES = 20;
+
+export const SIGNAL_OPERATORS = ["eq", "neq", "gt", "gte", "lt", "lte", "changed"] as const;
+
+export type SignalOperator = (typeof SIGNAL_OPERATORS)[number];
+
+const ORDERING_OPERATORS: SignalOperator[] = ["gt", "gte", "lt", "lte"];
+
+export const SignalConditionSchema = z
+	.object({
+		/** Signal of signalsLatest, e.g. speed */
+		signal: z.string().regex(/^[a-zA-Z][a-zA-Z0-9]*$/, "Expected a signal name such as speed"),
+		operator: z.enum(SIGNAL_OPERATORS),
+		/** Value the signal is compared with, not used by changed */
+		value: z.union([z.number(), z.string()]).optional(),
+	})
+	.refine((condition) => condition.operator === "changed" || condition.value !== undefined, {
+		message: "value is required unless the operator is changed",
+	})
+	.refine((condition) => !ORDERING_OPERATORS.includes(condition.operator) || typeof condition.value === "number", {
+		message: "gt, gte, lt and lte compare numbers",
+	});
+
+export type SignalCondition = z.infer<typeof SignalConditionSchema>;
+
+// Non-public IPv4 ranges: this network, private, carrier-grade NAT, loopback, link-local (cloud metadata),
+// IETF protocol assignments, benchmarking, multicast and reserved
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.168.0.0", 16],
+	["198.18.0.0", 15],
+	["224.0.0.0", 4],
+	["240.0.0.0", 4],
+];
+
+function ipv4ToNumber(address: string) {
+	return address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+	const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+	if (isIP(ip) === 4) {
+		const value = ipv4ToNumber(ip);
+		return PRIVATE_IPV4_RANGES.some(([base, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(ipv4ToNumber(base) / 2 ** (32 - bits)));
+	}
+	if (isIP(ip) !== 6) {
+		return false;
+	}
+	// IPv4-mapped and IPv4-compatible addresses, e.g. ::ffff:127.0.0.1
+	const mapped = /^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+	if (mapped) {
+		return isPrivateAddress(mapped[1]);
+	}
+	const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ip);
+	if (mappedHex) {
+		const value = Number.parseInt(mappedHex[1], 16) * 65536 + Number.parseInt(mappedHex[2], 16);
+		return isPrivateAddress([24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join("."));
+	}
+	// Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+	return ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith("ff");
+}
+
+function isPrivateHostname(hostname: string) {
+	const host = hostname.toLowerCase().replace(/\.$/, "");
+	return host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host);
+}
+
+/**
+ * Where a delivery to a callback URL connects: `rejected` when the host is or resolves to a non-public
+ * address, `error` when it does not resolve, otherwise the checked `address` to connect to (none when the
+ * host is an IP address or private URLs are allowed)
+ */
+type CallbackTarget = { rejected: string } | { error: string } | { address?: string };
+
+async function resolveCallbackUrl(callbackUrl: string): Promise<CallbackTarget> {
+	if (ALLOW_PRIVATE_URLS) {
+		return {};
+	}
+	const { hostname } = new URL(callbackUrl);
+	if (isPrivateHostname(hostname)) {
+		return { rejected: `callbackUrl: ${hostname} is not a public address` };
+	}
+	if (isIP(hostname.replace(/^\[|\]$/g, ""))) {
+		return {};
+	}
+	try {
+		const addresses = await lookup(hostname, { all: true });
+		const privateAddress = addresses.find(({ address }) => isPrivateAddress(address));
+		if (privateAddress) {
+			return { rejected: `callbackUrl: ${hostname} resolves to ${privateAddress.address}, which is not a public address` };
+		}
+		return addresses.length > 0 ? { address: addresses[0].address } : { error: `${hostname} has no address` };
+	} catch (error) {
+		return { error: `${hostname} could not be resolved: ${(error as NodeJS.ErrnoException).code ?? errorMessage(error)}` };
+	}
+}
+
+/**
+ * Why a callback URL may not be used, or undefined when its host resolves only to public addresses.
+ * A host that does not resolve is accepted; its deliveries fail as retryable network errors.
+ */
+export async function validateCallbackUrl(callbackUrl: string): Promise<string | undefined> {
+	const target = await resolveCallbackUrl(callbackUrl);
+	return "rejected" in target ? target.rejected : undefined;
+}
+
+export const SubscriptionCreateSchema = z.object({
+	tokenId: z.number().int(),
+	callbackUrl: z
+		.string()
+		.url()
+		.refine((url) => /^https?:$/.test(new URL(url).protocol), "Expected an http or https URL")
+		.refine(
+			(url) => ALLOW_PRIVATE_URLS || !isPrivateHostname(new URL(url).hostname),
+			"Expected a public host, not a loopback, private or link-local address",
+		),
+	conditions: z.array(SignalConditionSchema).min(1).max(10),
+	/** Least time between two notifications */
+	cooldownSeconds: z.number().int().min(0).default(0),
+	description: z.string().max(200).optional(),
+	/** Register a DIMO vehicle trigger instead of polling, when possible */
+	native: z.boolean().default(false),
+});
+
+export type SubscriptionCreateArgs = z.infer<typeof SubscriptionCreateSchema>;
+
+export interface Subscription {
+	id: string;
+	/** API client that created the subscription, absent with MCP_AUTH=off */
+	clientId?: string;
+	tokenId: number;
+	callbackUrl: string;
+	conditions: SignalCondition[];
+	cooldownSeconds: number;
+	description?: string;
+	/** HMAC key of the payload signatures */
+	secret: string;
+	createdAt: string;
+	/** Whether the conditions held at the last evaluation */
+	matched: boolean;
+	lastTriggeredAt?: string;
+	/** The DIMO vehicle trigger, when the subscription was registered as one */
+	native?: {
+		webhookId: string;
+		/** Secret path segment of the callback URL given to DIMO, also its verification token */
+		token: string;
+	};
+	/** Why a native trigger was requested but the subscription is polled */
+	nativeError?: string;
+}
+
+export interface LatestSignal {
+	value: number | string;
+	timestamp: string;
+}
+
+export type WebhookEventType = "subscription.triggered" | "subscription.test";
+
+export interface WebhookEvent {
+	id: string;
+	type: WebhookEventType;
+	subscriptionId: string;
+	tokenId: number;
+	createdAt: string;
+	source: "poll" | "native" | "test";
+	conditions: SignalCondition[];
+	/** Latest values of the subscription's signals, for polled subscriptions */
+	signals?: Record<string, LatestSignal | null>;
+	/** The payload of the DIMO vehicle trigger, for native subscriptions */
+	trigger?: unknown;
+}
+
+export interface WebhookDelivery {
+	eventId: string;
+	type: WebhookEventType;
+	attempt: number;
+	at: string;
+	status?: number;
+	error?: string;
+	outcome: "delivered" | "retrying" | "failed";
+}
+
+export interface SubscriptionDependencies {
+	/** Latest value of the signals of a vehicle, null for signals it has not sent */
+	queryLatest(
+		tokenId: number,
+		signals: string[],
+	): Promise<{ data: Record<string, LatestSignal | null> } | { error: string }>;
+	/** Authorization header with the developer JWT, for the vehicle triggers API */
+	developerAuthorization(): string | undefined;
+	/** Why the creator of a subscription may no longer read the vehicle, e.g. a revoked client */
+	authorize(subscription: Subscription): Promise<string | undefined>;
+}
+
+let subscriptions: Subscription[] | undefined;
+let loading: Promise<Subscription[]> | undefined;
+let saving = Promise.resolve();
+let dependencies: SubscriptionDependencies | undefined;
+
+const deliveries = new Map<string, WebhookDelivery[]>();
+
+// Signal values of the previous evaluation by tokenId, for changed conditions
+const previousValues = new Map<number, Record<string, number | string>>();
+
+// Why the last telemetry query of a vehicle failed, by tokenId
+const pollErrors = new Map<number, string>();
+
+gauge("dimo_mcp_subscriptions", "Webhook subscriptions by mode (poll, native).", () =>
+	(["poll", "native"] as const).map((mode) => ({
+		labels: { mode },
+		value: (subscriptions ?? []).filter((subscription) => (subscription.native ? "native" : "poll") === mode).length,
+	})),
+);
+
+function errorMessage(error: unknown) {
+	return error instanceof Error ? error.message : String(error);
+}
+
+async function loadSubscriptions(): Promise<Subscription[]> {
+	if (subscriptions) {
+		return subscriptions;
+	}
+	loading ??= readFile(SUBSCRIPTIONS_FILE, "utf8")
+		.then((text) => JSON.parse(text) as Subscription[])
+		.catch((error: NodeJS.ErrnoException) => {
+			if (error.code === "ENOENT") return [];
+			loading = undefined;
+			throw error;
+		});
+	subscriptions = await loading;
+	return subscriptions;
+}
+
+async function saveSubscriptions() {
+	// Serialize writes so concurrent changes do not interleave; the file holds the signing secrets
+	saving = saving
+		.catch(() => undefined)
+		.then(async () => writeFile(SUBSCRIPTIONS_FILE, JSON.stringify(await loadSubscriptions(), null, 2), { mode: 0o600 }));
+	await saving;
+}
+
+export async function getSubscriptions() {
+	return [...(await loadSubscriptions())];
+}
+
+export async function findSubscription(id: string) {
+	return (await loadSubscriptions()).find((subscription) => subscription.id === id);
+}
+
+/**
+ * A subscription as shown to its client: without the secret, with its recent deliveries
+ */
+export function describeSubscription({ secret, native, ...subscription }: Subscription) {
+	return {
+		...subscription,
+		mode: native ? "native" : "poll",
+		...(native && { webhookId: native.webhookId }),
+		...(!native && pollErrors.has(subscription.tokenId) && { pollError: pollErrors.get(subscription.tokenId) }),
+		recentDeliveries: deliveries.get(subscription.id) ?? [],
+	};
+}
+
+/**
+ * Signature header of a payload, see the module comment
+ */
+export function signPayload(secret: string, timestamp: string, body: string) {
+	return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function recordDelivery(subscriptionId: string, delivery: WebhookDelivery) {
+	const recent = deliveries.get(subscriptionId) ?? [];
+	recent.unshift(delivery);
+	deliveries.set(subscriptionId, recent.slice(0, RECENT_DELIVERIES));
+}
+
+/**
+ * POST an event to the callback URL
+ * @param address - Checked address of the callback host to connect to instead of resolving it again
+ */
+async function postEvent(subscription: Subscription, body: string, eventId: string, address?: string) {
+	const timestamp = String(Math.floor(Date.now() / 1000));
+	const url = new URL(subscription.callbackUrl);
+	const { host, hostname } = url;
+	if (address) {
+		url.hostname = isIP(address) === 6 ? `[${address}]` : address;
+	}
+	try {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: {
+				...(address && { Host: host }),
+				"Content-Type": "application/json",
+				"User-Agent": "dimo-mcp-webhooks",
+				"X-Dimo-Event-Id": eventId,
+				"X-Dimo-Timestamp": timestamp,
+				"X-Dimo-Signature": signPayload(subscription.secret, timestamp, body),
+			},
+			body,
+			// A redirect is not followed, so a callback cannot bounce the payload to another host
+			redirect: "manual",
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+			// The certificate must still be valid for the callback host, not for the address
+			...(address && {
+				tls: { serverName: hostname, checkServerIdentity: (_address: string, cert: PeerCertificate) => checkServerIdentity(hostname, cert) },
+			}),
+		});
+		await response.body?.cancel().catch(() => undefined);
+		return { status: response.status };
+	} catch (error) {
+		return { error: errorMessage(error) };
+	}
+}
+
+/**
+ * Deliver an event, scheduling retries of failed attempts in the background
+ * @returns The outcome of this attempt
+ */
+async function deliver(subscription: Subscription, event: WebhookEvent, attempt = 1): Promise<WebhookDelivery> {
+	// The host may resolve elsewhere than when the subscription was created; such a delivery is not retried
+	const target = await resolveCallbackUrl(subscription.callbackUrl);
+	const result: { status?: number; error?: string } =
+		"rejected" in target
+			? { error: target.rejected }
+			: "error" in target
+				? { error: target.error }
+				: await postEvent(subscription, JSON.stringify(event), event.id, target.address);
+	const delivered = result.status !== undefined && result.status >= 200 && result.status < 300;
+	const retryable =
+		!("rejected" in target) &&
+		(result.error !== undefined || result.status === 408 || result.status === 429 || (result.status ?? 0) >= 500);
+	const retry = !delivered && retryable && attempt < WEBHOOK_MAX_ATTEMPTS;
+
+	const delivery: WebhookDelivery = {
+		eventId: event.id,
+		type: event.type,
+		attempt,
+		at: new Date().toISOString(),
+		...result,
+		outcome: delivered ? "delivered" : retry ? "retrying" : "failed",
+	};
+	recordDelivery(subscription.id, delivery);
+	webhookDeliveries.inc({ outcome: delivery.outcome });
+	log(delivered ? "info" : "warn", "webhook_delivery", {
+		subscriptionId: subscription.id,
+		eventId: event.id,
+		attempt,
+		status: result.status,
+		error: result.error,
+		outcome: delivery.outcome,
+	});
+
+	// Events carry the vehicle's data, so each is audited as an access by the subscription's client
+	if (event.type === "subscription.triggered" && delivery.outcome !== "retrying") {
+		await appendAudit({
+			actor: { transport: "webhook", clientId: subscription.clientId },
+			action: "webhook",
+			name: event.type,
+			tokenIds: [subscription.tokenId],
+			privileges: event.source === "poll" ? latestSignalPrivileges(subscription.conditions.map(({ signal }) => signal)) : [],
+			outcome: delivery.outcome === "delivered" ? "ok" : "error",
+			subscriptionId: subscription.id,
+		});
+	}
+
+	if (retry) {
+		const timer = setTimeout(async () => {
+			// Nothing is delivered for a subscription deleted in the meantime
+			if (await findSubscription(subscription.id)) {
+				await deliver(subscription, event, attempt + 1);
+			}
+		}, WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1));
+		timer.unref();
+	}
+	return delivery;
+}
+
+function createEvent(
+	subscription: Subscription,
+	type: WebhookEventType,
+	source: WebhookEvent["source"],
+	details: Pick<WebhookEvent, "signals" | "trigger"> = {},
+): WebhookEvent {
+	return {
+		id: randomUUID(),
+		type,
+		subscriptionId: subscription.id,
+		tokenId: subscription.tokenId,
+		createdAt: new Date().toISOString(),
+		source,
+		conditions: subscription.conditions,
+		...details,
+	};
+}
+
+/**
+ * Send a test event to a subscription's callback URL
+ * @returns The outcome of the first attempt; failed attempts are retried like any event
+ */
+export function sendTestEvent(subscription: Subscription) {
+	return deliver(subscription, createEvent(subscription, "subscription.test", "test"));
+}
+
+/**
+ * Vehicle JWT privileges the latest values of these signals need: location signals need the current
+ * location privilege, everything else only privilege 1
+ */
+export function latestSignalPrivileges(signals: string[]) {
+	return signals.some((signal) => signal.startsWith("currentLocation")) ? [1, 3] : [1];
+}
+
+function conditionHolds(
+	condition: SignalCondition,
+	current: LatestSignal | null | undefined,
+	previous: number | string | undefined,
+) {
+	if (!current) {
+		return false;
+	}
+	const { value } = current;
+	switch (condition.operator) {
+		case "changed":
+			return previous !== undefined && previous !== value;
+		case "eq":
+			return String(value) === String(condition.value);
+		case "neq":
+			return String(value) !== String(condition.value);
+		case "gt":
+			return typeof value === "number" && value > Number(condition.value);
+		case "gte":
+			return typeof value === "number" && value >= Number(condition.value);
+		case "lt":
+			return typeof value === "number" && value < Number(condition.value);
+		case "lte":
+			return typeof value === "number" && value <= Number(condition.value);
+	}
+}
+
+/**
+ * Evaluate a polled subscription against the latest signals of its vehicle and fire it when due
+ * @returns Whether the stored subscription changed
+ */
+function evaluate(
+	subscription: Subscription,
+	signals: Record<string, LatestSignal | null>,
+	previous: Record<string, number | string>,
+) {
+	const matched = subscription.conditions.every((condition) =>
+		conditionHolds(condition, signals[condition.signal], previous[condition.signal]),
+	);
+	const edge = matched && (!subscription.matched || subscription.conditions.some((c) => c.operator === "changed"));
+	const coolingDown =
+		subscription.lastTriggeredAt !== undefined &&
+		Date.now() - Date.parse(subscription.lastTriggeredAt) < subscription.cooldownSeconds * 1000;
+
+	const changed = matched !== subscription.matched || (edge && !coolingDown);
+	subscription.matched = matched;
+	if (edge && !coolingDown) {
+		subscription.lastTriggeredAt = new Date().toISOString();
+		const subscribedSignals = Object.fromEntries(
+			subscription.conditions.map(({ signal }) => [signal, signals[signal] ?? null]),
+		);
+		void deliver(subscription, createEvent(subscription, "subscription.triggered", "poll", { signals: subscribedSignals }));
+	}
+	return changed;
+}
+
+/**
+ * Forget the deliveries of deleted subscriptions and the signal values and errors of vehicles that are
+ * no longer polled, e.g. deliveries recorded by retries still running when their subscription was deleted
+ */
+function pruneState(stored: Subscription[], polledVehicles: Map<number, Subscription[]>) {
+	const ids = new Set(stored.map(({ id }) => id));
+	for (const id of deliveries.keys()) {
+		if (!ids.has(id)) deliveries.delete(id);
+	}
+	for (const tokenId of [...previousValues.keys(), ...pollErrors.keys()]) {
+		if (!polledVehicles.has(tokenId)) {
+			previousValues.delete(tokenId);
+			pollErrors.delete(tokenId);
+		}
+	}
+}
+
+/**
+ * Query every vehicle with polled subscriptions once and evaluate its subscriptions
+ */
+async function poll(deps: SubscriptionDependencies) {
+	const stored = await loadSubscriptions();
+	const byVehicle = new Map<number, Subscription[]>();
+	for (const subscription of stored) {
+		if (!subscription.native) {
+			byVehicle.set(subscription.tokenId, [...(byVehicle.get(subscription.tokenId) ?? []), subscription]);
+		}
+	}
+	pruneState(stored, byVehicle);
+
+	const changed = await mapWithConcurrency([...byVehicle], BATCH_CONCURRENCY, async ([tokenId, vehicleSubscriptions]) => {
+		const allowed: Subscription[] = [];
+		for (const subscription of vehicleSubscriptions) {
+			const reason = await deps.authorize(subscription);
+			if (reason) {
+				log("debug", "subscription_skipped", { subscriptionId: subscription.id, tokenId, reason });
+			} else {
+				allowed.push(subscription);
+			}
+		}
+		if (allowed.length === 0) {
+			return false;
+		}
+
+		const signalNames = [...new Set(allowed.flatMap(({ conditions }) => conditions.map(({ signal }) => signal)))];
+		const result = await deps.queryLatest(tokenId, signalNames).catch((error) => ({ error: errorMessage(error) }));
+		if ("error" in result) {
+			pollErrors.set(tokenId, result.error);
+			log("warn", "subscription_poll_failed", { tokenId, error: result.error });
+			return false;
+		}
+		pollErrors.delete(tokenId);
+
+		const previous = previousValues.get(tokenId) ?? {};
+		const results = allowed.map((subscription) => evaluate(subscription, result.data, previous));
+		const values = Object.entries(result.data).filter((entry): entry is [string, LatestSignal] => entry[1] !== null);
+		previousValues.set(tokenId, { ...previous, ...Object.fromEntries(values.map(([name, signal]) => [name, signal.value])) });
+		return results.some(Boolean);
+	});
+
+	if (changed.some(Boolean)) {
+		await saveSubscriptions();
+	}
+}
+
+/**
+ * Start evaluating polled subscriptions every SUBSCRIPTION_POLL_SECONDS
+ */
+export function startSubscriptions(deps: SubscriptionDependencies) {
+	dependencies = deps;
+	let polling = false;
+	setInterval(async () => {
+		// A slow round is not overlapped by the next one
+		if (polling) return;
+		polling = true;
+		try {
+			await poll(deps);
+		} catch (error) {
+			log("error", "subscription_poll_failed", { error: errorMessage(error) });
+		} finally {
+			polling = false;
+		}
+	}, POLL_MS);
+}
+
+const NATIVE_OPERATORS: Partial<Record<SignalOperator, string>> = {
+	eq: "==",
+	neq: "!=",
+	gt: ">",
+	gte: ">=",
+	lt: "<",
+	lte: "<=",
+};
+
+async function triggersRequest<T>(method: string, path: string, authorization: string, body?: unknown): Promise<T> {
+	const response = await upstreamFetch(`${DIMO_ENDPOINTS.triggers}${path}`, {
+		method,
+		headers: {
+			Authorization: authorization,
+			...(body !== undefined && { "Content-Type": "application/json" }),
+		},
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+	const text = await response.text();
+	if (!response.ok) {
+		throw new Error(`Vehicle triggers API ${method} ${path} failed: ${response.status} ${text.slice(0, 200)}`.trim());
+	}
+	return (text ? JSON.parse(text) : undefined) as T;
+}
+
+/**
+ * Register a subscription as a DIMO vehicle trigger: a webhook on one signal condition, subscribed to
+ * the vehicle, that calls /dimo-triggers/:id/:token of this server
+ */
+async function registerNativeTrigger(subscription: Subscription): Promise<NonNullable<Subscription["native"]>> {
+	const authorization = dependencies?.developerAuthorization();
+	const [condition] = subscription.conditions;
+	const operator = NATIVE_OPERATORS[condition.operator];
+	if (!PUBLIC_URL) {
+		throw new Error("MCP_PUBLIC_URL is not set, so DIMO cannot call this server");
+	}
+	if (!authorization) {
+		throw new Error("The developer JWT is not available");
+	}
+	if (subscription.conditions.length !== 1 || !operator) {
+		throw new Error("A vehicle trigger supports one condition with a comparison operator");
+	}
+
+	const token = randomBytes(24).toString("base64url");
+	const valueField = typeof condition.value === "number" ? "valueNumber" : "valueString";
+	const webhook = await triggersRequest<{ id: string }>("POST", "/v1/webhooks", authorization, {
+		service: "telemetry.signals",
+		metricName: condition.signal,
+		condition: `${valueField} ${operator} ${JSON.stringify(condition.value)}`,
+		coolDownPeriod: subscription.cooldownSeconds,
+		description: subscription.description ?? `dimo-mcp subscription ${subscription.id}`,
+		targetURL: `${PUBLIC_URL}/dimo-triggers/${subscription.id}/${token}`,
+		status: "enabled",
+		verificationToken: token,
+	});
+	try {
+		await triggersRequest("POST", `/v1/webhooks/${webhook.id}/subscribe/${subscription.tokenId}`, authorization);
+	} catch (error) {
+		await triggersRequest("DELETE", `/v1/webhooks/${webhook.id}`, authorization).catch(() => undefined);
+		throw error;
+	}
+	return { webhookId: webhook.id, token };
+}
+
+/**
+ * Create a subscription, registered as a DIMO vehicle trigger when requested and possible
+ * @returns The subscription, with the secret the client verifies signatures with
+ */
+export async function createSubscription(args: SubscriptionCreateArgs, clientId?: string) {
+	const subscription: Subscription = {
+		id: randomUUID(),
+		clientId,
+		tokenId: args.tokenId,
+		callbackUrl: args.callbackUrl,
+		conditions: args.conditions,
+		cooldownSeconds: args.cooldownSeconds,
+		description: args.description,
+		secret: `whsec_${randomBytes(24).toString("base64url")}`,
+		createdAt: new Date().toISOString(),
+		matched: false,
+	};
+	if (args.native) {
+		try {
+			subscription.native = await registerNativeTrigger(subscription);
+		} catch (error) {
+			subscription.nativeError = errorMessage(error);
+			log("warn", "native_trigger_unavailable", { subscriptionId: subscription.id, error: subscription.nativeError });
+		}
+	}
+	(await loadSubscriptions()).push(subscription);
+	await saveSubscriptions();
+	return subscription;
+}
+
+/**
+ * Delete a subscription and its DIMO vehicle trigger
+ */
+export async function deleteSubscription(subscription: Subscription) {
+	const stored = await loadSubscriptions();
+	const index = stored.findIndex((candidate) => candidate.id === subscription.id);
+	if (index !== -1) {
+		stored.splice(index, 1);
+	}
+	deliveries.delete(subscription.id);
+	await saveSubscriptions();
+
+	const authorization = dependencies?.developerAuthorization();
+	if (subscription.native && authorization) {
+		await triggersRequest("DELETE", `/v1/webhooks/${subscription.native.webhookId}`, authorization).catch((error) => {
+			log("warn", "native_trigger_delete_failed", {
+				subscriptionId: subscription.id,
+				webhookId: subscription.native?.webhookId,
+				error: errorMessage(error),
+			});
+		});
+	}
+}
+
+/**
+ * Handle a call of a DIMO vehicle trigger and forward its event to the subscription's callback URL.
+ * DIMO verifies a new webhook by expecting its verification token in the response; calls without event
+ * data are such verifications and are not forwarded.
+ * @returns The verification token to answer with, or undefined when the subscription or token is unknown
+ */
+export async function handleNativeTrigger(id: string, token: string, payload: unknown) {
+	const subscription = await findSubscription(id);
+	const expected = Buffer.from(subscription?.native?.token ?? "");
+	const given = Buffer.from(token);
+	if (!subscription?.native || expected.length !== given.length || !timingSafeEqual(expected, given)) {
+		return undefined;
+	}
+
+	const isEvent =
+		typeof payload === "object" &&
+		payload !== null &&
+		Object.keys(payload).some((key) => !/verification/i.test(key));
+	if (isEvent) {
+		subscription.lastTriggeredAt = new Date().toISOString();
+		await saveSubscriptions();
+		void deliver(subscription, createEvent(subscription, "subscription.triggered", "native", { trigger: payload }));
+	}
+	return subscription.native.token;
+}
@@ -0,0 +1,93 @@
+import { upstreamFetch } from "./cassette";
+
+/**
+ * Minimal read-only access to the web app's Supabase tables over PostgREST, mirroring
+ * `db.getDocumentsByTokenId` and `db.getActiveAlerts` in the web app.
+ * Configure with SUPABASE_URL and SUPABASE_KEY (service role or anon key).
+ */
+
+export function isSupabaseConfigured() {
+	return !!(process.env.SUPABASE_URL && process.env.SUPABASE_KEY);
+}
+
+async function select<T>(table: string, query: URLSearchParams): Promise<T[]> {
+	const { SUPABASE_URL, SUPABASE_KEY } = process.env;
+	if (!SUPABASE_URL || !SUPABASE_KEY) {
+		throw new Error("Supabase is not configured. Set SUPABASE_URL and SUPABASE_KEY.");
+	}
+
+	const response = await upstreamFetch(`${SUPABASE_URL}/rest/v1/${table}?${query}`, {
+		headers: {
+			apikey: SUPABASE_KEY,
+			Authorization: `Bearer ${SUPABASE_KEY}`,
+			Accept: "application/json",
+		},
+	});
+
+	if (!response.ok) {
+		throw new Error(
+			`Supabase request failed: ${response.statusText}\n${await response.text()}`,
+		);
+	}
+
+	return response.json();
+}
+
+export interface DocumentRow {
+	id: string;
+	type: string;
+	original_name: string;
+	size: number;
+	uploaded_at: string;
+	/** JSON, or JSON text that getDocumentsByTokenId parses */
+	processed_data: unknown;
+}
+
+/**
+ * Get the documents uploaded for a vehicle, newest first
+ * @param tokenId - The vehicle token ID
+ * @returns Document rows with `processed_data` parsed
+ */
+export async function getDocumentsByTokenId(tokenId: number) {
+	const rows = await select<DocumentRow>(
+		"documents",
+		new URLSearchParams({
+			select: "id,type,original_name,size,uploaded_at,processed_data",
+			token_id: `eq.${tokenId}`,
+			order: "uploaded_at.desc",
+		}),
+	);
+
+	return rows.map((row) => ({
+		...row,
+		processed_data:
+			typeof row.processed_data === "string"
+				? JSON.parse(row.processed_data)
+				: row.processed_data,
+	}));
+}
+
+/**
+ * Get the active, upcoming alerts for a vehicle, soonest first
+ * @param tokenId - The vehicle token ID
+ * @returns Alert rows
+ */
+export async function getActiveAlertsByTokenId(tokenId: number) {
+	const vehicles = await select<{ id: string }>(
+		"vehicles",
+		new URLSearchParams({ select: "id", token_id: `eq.${tokenId}` }),
+	);
+	if (vehicles.length === 0) return [];
+
+	const today = new Date().toISOString().split("T")[0];
+	return select<Record<string, unknown>>(
+		"alerts",
+		new URLSearchParams({
+			select: "*",
+			vehicle_id: `in.(${vehicles.map((v) => v.id).join(",")})`,
+			is_active: "eq.true",
+			alert_date: `gte.${today}`,
+			order: "alert_date.asc",
+		}),
+	);
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+
+export const TELEMETRY_AGGREGATIONS = ["AVG", "MIN", "MAX", "LAST"] as const;
+
+export type TelemetryAggregation = (typeof TELEMETRY_AGGREGATIONS)[number];
+
+const SIGNAL_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9]*$/;
+// Go duration units, as the Telemetry API parses them; there is no day unit, so a day is 24h
+export const INTERVAL_PATTERN = /^\d+(ms|s|m|h)$/;
+
+export function isTimestamp(value: string) {
+	return !Number.isNaN(Date.parse(value));
+}
+
+export const TelemetryHistorySchema = z.object({
+	tokenId: z.number(),
+	signals: z
+		.array(
+			z
+				.string()
+				.regex(SIGNAL_NAME_PATTERN, "Signal names must be plain identifiers"),
+		)
+		.min(1),
+	from: z.string().refine(isTimestamp, "from must be an ISO 8601 timestamp"),
+	to: z.string().refine(isTimestamp, "to must be an ISO 8601 timestamp"),
+	interval: z
+		.string()
+		.regex(INTERVAL_PATTERN, "interval must look like 30s, 15m, 1h or 24h")
+		.default("1h"),
+	aggregation: z.enum(TELEMETRY_AGGREGATIONS).default("AVG"),
+});
+
+export type TelemetryHistoryArgs = z.infer<typeof TelemetryHistorySchema>;
+
+export interface TelemetrySeries {
+	tokenId: number;
+	from: string;
+	to: string;
+	interval: string;
+	aggregation: TelemetryAggregation;
+	timestamps: string[];
+	series: Record<string, Array<number | null>>;
+}
+
+/**
+ * Build a `signals(from,to,interval)` query that aggregates every requested signal the same way
+ * @param args - Validated telemetry_history arguments
+ * @returns The GraphQL query string
+ */
+export function buildTelemetryHistoryQuery(args: TelemetryHistoryArgs) {
+	const from = new Date(args.from).toISOString();
+	const to = new Date(args.to).toISOString();
+	const fields = args.signals
+		.map((signal) => `    ${signal}(agg: ${args.aggregation})`)
+		.join("\n");
+
+	return `{
+  signals(tokenId: ${args.tokenId}, from: "${from}", to: "${to}", interval: "${args.interval}") {
+    timestamp
+${fields}
+  }
+}`;
+}
+
+/** The `data` object of a `signals` response, one row per interval */
+export interface SignalsData {
+	signals?: Array<Record<string, unknown>> | null;
+}
+
+/**
+ * Turn the rows of a `signals` response into a column-oriented time series
+ * @param args - The arguments the query was built from
+ * @param data - The `data` object of the GraphQL response
+ * @returns The time series, ordered by timestamp
+ */
+export function toTelemetrySeries(
+	args: TelemetryHistoryArgs,
+	data: SignalsData | undefined,
+): TelemetrySeries {
+	const rows = [...(data?.signals ?? [])].sort((a, b) =>
+		String(a.timestamp).localeCompare(String(b.timestamp)),
+	);
+
+	const series: Record<string, Array<number | null>> = {};
+	for (const signal of args.signals) {
+		series[signal] = rows.map((row) =>
+			typeof row[signal] === "number" ? (row[signal] as number) : null,
+		);
+	}
+
+	return {
+		tokenId: args.tokenId,
+		from: new Date(args.from).toISOString(),
+		to: new Date(args.to).toISOString(),
+		interval: args.interval,
+		aggregation: args.aggregation,
+		timestamps: rows.map((row) => String(row.timestamp)),
+		series,
+	};
+}
@@ -0,0 +1,164 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import type { TelemetrySeries } from "./telemetry";
+import {
+	type TripDetectionOptions,
+	TripSegmentsSchema,
+	detectTrips,
+	loadTelemetryFixture,
+	summarizeTrips,
+} from "./trips";
+
+const FIXTURE = join(import.meta.dir, "../../fixtures/telemetry-trips.json");
+
+const OPTIONS: TripDetectionOptions = {
+	idleSpeedKmh: 2,
+	maxGapMinutes: 10,
+	minDurationMinutes: 2,
+};
+
+interface Row {
+	minute: number;
+	ignition?: number | null;
+	speed?: number | null;
+	odometer?: number | null;
+}
+
+/** Build a one-sample-per-row series starting at 08:00 UTC */
+function series(rows: Row[]): TelemetrySeries {
+	const start = Date.parse("2025-08-04T08:00:00Z");
+	return {
+		tokenId: 101,
+		from: "2025-08-04T08:00:00Z",
+		to: "2025-08-04T10:00:00Z",
+		interval: "1m",
+		aggregation: "MAX",
+		timestamps: rows.map((row) =>
+			new Date(start + row.minute * 60 * 1000).toISOString(),
+		),
+		series: {
+			isIgnitionOn: rows.map((row) => row.ignition ?? null),
+			speed: rows.map((row) => row.speed ?? null),
+			powertrainTransmissionTravelledDistance: rows.map(
+				(row) => row.odometer ?? null,
+			),
+		},
+	};
+}
+
+describe("detectTrips", () => {
+	test("finds the three trips in the recorded fixture", async () => {
+		const args = TripSegmentsSchema.parse({
+			tokenId: 101,
+			from: "2025-08-04T00:00:00Z",
+			to: "2025-08-05T00:00:00Z",
+		});
+		const summary = summarizeTrips(
+			args,
+			await loadTelemetryFixture(FIXTURE, args),
+		);
+
+		expect(summary.tripCount).toBe(3);
+		expect(
+			summary.trips.map(({ start, end, distanceKm }) => ({
+				start,
+				end,
+				distanceKm,
+			})),
+		).toEqual([
+			{
+				start: "2025-08-04T07:32:00.000Z",
+				end: "2025-08-04T08:00:00.000Z",
+				distanceKm: 20.6,
+			},
+			{
+				start: "2025-08-04T12:10:00.000Z",
+				end: "2025-08-04T12:24:00.000Z",
+				distanceKm: 6.5,
+			},
+			{
+				start: "2025-08-04T17:40:00.000Z",
+				end: "2025-08-04T18:18:00.000Z",
+				distanceKm: 33,
+			},
+		]);
+		expect(summary.totalDistanceKm).toBe(60.1);
+	});
+
+	test("splits a trip when no data arrives for longer than maxGapMinutes", () => {
+		const trips = detectTrips(
+			series([
+				{ minute: 0, ignition: 1, speed: 30 },
+				{ minute: 1, ignition: 1, speed: 30 },
+				{ minute: 2, ignition: 1, speed: 30 },
+				{ minute: 3, ignition: 1, speed: 30 },
+				// 20 minutes without data, although the ignition never reported off
+				{ minute: 23, ignition: 1, speed: 40 },
+				{ minute: 24, ignition: 1, speed: 40 },
+				{ minute: 25, ignition: 1, speed: 40 },
+				{ minute: 26, ignition: 0, speed: 0 },
+			]),
+			OPTIONS,
+		);
+
+		expect(trips.map(({ start, end }) => ({ start, end }))).toEqual([
+			{ start: "2025-08-04T08:00:00.000Z", end: "2025-08-04T08:03:00.000Z" },
+			{ start: "2025-08-04T08:23:00.000Z", end: "2025-08-04T08:26:00.000Z" },
+		]);
+	});
+
+	test("drops trips shorter than minDurationMinutes", () => {
+		const trips = detectTrips(
+			series([
+				{ minute: 0, ignition: 1, speed: 5 },
+				{ minute: 1, ignition: 0, speed: 0 },
+			]),
+			OPTIONS,
+		);
+
+		expect(trips).toEqual([]);
+	});
+
+	test("uses speed as ignition and integrates distance when only speed is reported", () => {
+		const trips = detectTrips(
+			series([
+				{ minute: 0, speed: 0 },
+				{ minute: 1, speed: 60 },
+				{ minute: 2, speed: 60 },
+				{ minute: 3, speed: 60 },
+				{ minute: 4, speed: 0 },
+				{ minute: 5, speed: 0 },
+			]),
+			OPTIONS,
+		);
+
+		expect(trips).toEqual([
+			{
+				start: "2025-08-04T08:01:00.000Z",
+				end: "2025-08-04T08:04:00.000Z",
+				durationSeconds: 180,
+				// 60 km/h for three minutes
+				distanceKm: 3,
+				maxSpeedKmh: 60,
+				idleSeconds: 0,
+			},
+		]);
+	});
+
+	test("prefers the odometer delta over integrated speed", () => {
+		const trips = detectTrips(
+			series([
+				{ minute: 0, ignition: 1, speed: 0, odometer: 1000 },
+				{ minute: 1, ignition: 1, speed: 60, odometer: 1000.4 },
+				{ minute: 2, ignition: 1, speed: 60, odometer: 1001.9 },
+				{ minute: 3, ignition: 1, speed: 60, odometer: 1003.25 },
+				{ minute: 4, ignition: 0, speed: 0, odometer: 1003.25 },
+			]),
+			OPTIONS,
+		);
+
+		expect(trips).toHaveLength(1);
+		expect(trips[0].distanceKm).toBe(3.25);
+		expect(trips[0].idleSeconds).toBe(60);
+	});
+});
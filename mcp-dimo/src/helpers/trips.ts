@@ -0,0 +1,220 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import {
+	INTERVAL_PATTERN,
+	type TelemetryHistoryArgs,
+	type TelemetrySeries,
+	isTimestamp,
+	toTelemetrySeries,
+} from "./telemetry";
+
+export const TRIP_SIGNALS = [
+	"isIgnitionOn",
+	"speed",
+	"powertrainTransmissionTravelledDistance",
+];
+
+export const TripSegmentsSchema = z.object({
+	tokenId: z.number(),
+	from: z.string().refine(isTimestamp, "from must be an ISO 8601 timestamp"),
+	to: z.string().refine(isTimestamp, "to must be an ISO 8601 timestamp"),
+	interval: z
+		.string()
+		.regex(INTERVAL_PATTERN, "interval must look like 30s, 15m, 1h or 24h")
+		.default("1m"),
+	idleSpeedKmh: z.number().default(2),
+	maxGapMinutes: z.number().default(10),
+	minDurationMinutes: z.number().default(2),
+});
+
+export type TripSegmentsArgs = z.infer<typeof TripSegmentsSchema>;
+
+export interface TripDetectionOptions {
+	idleSpeedKmh: number;
+	maxGapMinutes: number;
+	minDurationMinutes: number;
+}
+
+export interface Trip {
+	start: string;
+	end: string;
+	durationSeconds: number;
+	distanceKm: number;
+	maxSpeedKmh: number;
+	idleSeconds: number;
+}
+
+export interface TripSummary {
+	tokenId: number;
+	from: string;
+	to: string;
+	tripCount: number;
+	totalDistanceKm: number;
+	totalDurationSeconds: number;
+	totalIdleSeconds: number;
+	trips: Trip[];
+}
+
+interface Sample {
+	time: number;
+	ignition: boolean;
+	speed: number | null;
+	odometer: number | null;
+}
+
+/**
+ * The telemetry_history arguments trip detection needs: MAX of ignition, speed and odometer per interval
+ * @param args - Validated trip_segments arguments
+ * @returns Arguments for buildTelemetryHistoryQuery / toTelemetrySeries
+ */
+export function tripHistoryArgs(args: TripSegmentsArgs): TelemetryHistoryArgs {
+	return {
+		tokenId: args.tokenId,
+		signals: TRIP_SIGNALS,
+		from: args.from,
+		to: args.to,
+		interval: args.interval,
+		aggregation: "MAX",
+	};
+}
+
+function toSamples(series: TelemetrySeries): Sample[] {
+	const ignition = series.series.isIgnitionOn ?? [];
+	const speed = series.series.speed ?? [];
+	const odometer = series.series.powertrainTransmissionTravelledDistance ?? [];
+
+	return series.timestamps.map((timestamp, i) => {
+		const speedValue = speed[i] ?? null;
+		// Fall back to movement when the vehicle does not report ignition state
+		const ignitionValue = ignition[i];
+		return {
+			time: Date.parse(timestamp),
+			ignition:
+				ignitionValue === null || ignitionValue === undefined
+					? (speedValue ?? 0) > 0
+					: ignitionValue >= 0.5,
+			speed: speedValue,
+			odometer: odometer[i] ?? null,
+		};
+	});
+}
+
+function round(value: number, digits = 2) {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
+
+function summarizeTrip(samples: Sample[], options: TripDetectionOptions): Trip {
+	const first = samples[0];
+	const last = samples[samples.length - 1];
+
+	let idleSeconds = 0;
+	let integratedKm = 0;
+	for (let i = 0; i < samples.length - 1; i++) {
+		const seconds = (samples[i + 1].time - samples[i].time) / 1000;
+		const speed = samples[i].speed ?? 0;
+		if (speed <= options.idleSpeedKmh) {
+			idleSeconds += seconds;
+		}
+		integratedKm += (speed * seconds) / 3600;
+	}
+
+	// Prefer the odometer; integrate speed only when the vehicle does not report one
+	const odometers = samples
+		.map((s) => s.odometer)
+		.filter((v): v is number => v !== null);
+	const distanceKm =
+		odometers.length >= 2
+			? odometers[odometers.length - 1] - odometers[0]
+			: integratedKm;
+
+	return {
+		start: new Date(first.time).toISOString(),
+		end: new Date(last.time).toISOString(),
+		durationSeconds: (last.time - first.time) / 1000,
+		distanceKm: round(Math.max(distanceKm, 0)),
+		maxSpeedKmh: round(Math.max(0, ...samples.map((s) => s.speed ?? 0))),
+		idleSeconds,
+	};
+}
+
+/**
+ * Split a telemetry series into trips. A trip runs while the ignition is on and ends when it goes
+ * off or when no data arrives for longer than maxGapMinutes.
+ * @param series - Series with isIgnitionOn, speed and powertrainTransmissionTravelledDistance
+ * @param options - Detection thresholds
+ * @returns The detected trips, oldest first
+ */
+export function detectTrips(
+	series: TelemetrySeries,
+	options: TripDetectionOptions,
+): Trip[] {
+	const samples = toSamples(series).sort((a, b) => a.time - b.time);
+	const maxGapMs = options.maxGapMinutes * 60 * 1000;
+	const trips: Trip[] = [];
+	let current: Sample[] = [];
+
+	const close = () => {
+		if (current.length >= 2) {
+			const trip = summarizeTrip(current, options);
+			if (trip.durationSeconds >= options.minDurationMinutes * 60) {
+				trips.push(trip);
+			}
+		}
+		current = [];
+	};
+
+	for (const sample of samples) {
+		const previous = current[current.length - 1];
+		if (previous && sample.time - previous.time > maxGapMs) {
+			close();
+		}
+		if (sample.ignition) {
+			current.push(sample);
+		} else if (current.length > 0) {
+			// The first ignition-off sample marks where the trip ended
+			current.push(sample);
+			close();
+		}
+	}
+	close();
+
+	return trips;
+}
+
+/**
+ * Detect trips and add totals for the whole range
+ * @param args - Validated trip_segments arguments
+ * @param series - Series returned for tripHistoryArgs(args)
+ * @returns Trips plus totals
+ */
+export function summarizeTrips(
+	args: TripSegmentsArgs,
+	series: TelemetrySeries,
+): TripSummary {
+	const trips = detectTrips(series, args);
+	return {
+		tokenId: args.tokenId,
+		from: series.from,
+		to: series.to,
+		tripCount: trips.length,
+		totalDistanceKm: round(trips.reduce((sum, t) => sum + t.distanceKm, 0)),
+		totalDurationSeconds: trips.reduce((sum, t) => sum + t.durationSeconds, 0),
+		totalIdleSeconds: trips.reduce((sum, t) => sum + t.idleSeconds, 0),
+		trips,
+	};
+}
+
+/**
+ * Load a recorded telemetry `signals` response from disk so trips can be detected offline
+ * @param path - Path to a JSON file holding a GraphQL response (`{ "data": { "signals": [...] } }`)
+ * @param args - The trip_segments arguments the recording corresponds to
+ * @returns The recording as a time series
+ */
+export async function loadTelemetryFixture(
+	path: string,
+	args: TripSegmentsArgs,
+): Promise<TelemetrySeries> {
+	const recording = JSON.parse(await readFile(path, "utf8"));
+	return toTelemetrySeries(tripHistoryArgs(args), recording.data ?? recording);
+}
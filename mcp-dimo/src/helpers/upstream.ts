@@ -0,0 +1,323 @@
+import { parse } from "graphql/language";
+import type { FetchLike } from "./cassette";
+import { upstreamForUrl } from "./endpoints";
+import { log } from "./logging";
+import { gauge } from "./metrics";
+
+/**
+ * Timeouts, retries and a circuit breaker for every upstream call, so a slow or failing DIMO API makes
+ * tool calls fail fast instead of hanging the chat. Idempotent requests (GET, GraphQL queries, token
+ * exchange) are retried with jittered exponential backoff on timeouts, network errors, 408, 429 and 5xx.
+ * After UPSTREAM_BREAKER_THRESHOLD consecutive failures an upstream's circuit opens and calls fail
+ * immediately; after the cooldown one probe call is let through and closes it again on success. Errors
+ * thrown before a request reaches the network, such as an invalid key, are neither retried nor counted.
+ *
+ *   UPSTREAM_TIMEOUT_MS                  default 10000
+ *   UPSTREAM_RETRIES                     default 2, retries after the first attempt
+ *   UPSTREAM_RETRY_BASE_MS               default 250
+ *   UPSTREAM_BREAKER_THRESHOLD           default 5 consecutive failures
+ *   UPSTREAM_BREAKER_COOLDOWN_SECONDS    default 30
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface UpstreamCallOptions {
+	/** Whether the call may be repeated without side effects */
+	idempotent?: boolean;
+	timeoutMs?: number;
+}
+
+type Outcome = "ok" | "failure" | "throttled" | "local";
+
+interface Circuit {
+	circuit: CircuitState;
+	consecutiveFailures: number;
+	openedAt?: number;
+	/** Set while the half-open probe call is in flight */
+	probing: boolean;
+	lastError?: string;
+}
+
+export const UPSTREAM_TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS ?? 10000);
+const RETRIES = Number(process.env.UPSTREAM_RETRIES ?? 2);
+const RETRY_BASE_MS = Number(process.env.UPSTREAM_RETRY_BASE_MS ?? 250);
+const BREAKER_THRESHOLD = Number(process.env.UPSTREAM_BREAKER_THRESHOLD ?? 5);
+const BREAKER_COOLDOWN_MS = Number(process.env.UPSTREAM_BREAKER_COOLDOWN_SECONDS ?? 30) * 1000;
+
+// Longest Retry-After of a 429 that is waited out rather than returned to the caller
+const MAX_RETRY_AFTER_MS = 5000;
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { closed: 0, "half-open": 1, open: 2 };
+
+const circuits = new Map<string, Circuit>();
+
+gauge(
+	"dimo_mcp_upstream_circuit_state",
+	"Circuit breaker state per upstream (0 closed, 1 half-open, 2 open).",
+	() =>
+		[...circuits].map(([upstream, circuit]) => ({
+			labels: { upstream },
+			value: CIRCUIT_STATE_VALUES[circuit.circuit],
+		})),
+);
+
+function circuitFor(upstream: string) {
+	let circuit = circuits.get(upstream);
+	if (!circuit) {
+		circuit = { circuit: "closed", consecutiveFailures: 0, probing: false };
+		circuits.set(upstream, circuit);
+	}
+	return circuit;
+}
+
+/**
+ * Let a call through, or fail fast while the circuit is open or its probe call is in flight
+ */
+function admit(upstream: string) {
+	const circuit = circuitFor(upstream);
+	if (circuit.circuit === "open" && Date.now() - circuit.openedAt! >= BREAKER_COOLDOWN_MS) {
+		circuit.circuit = "half-open";
+	}
+	if (circuit.circuit === "closed" || (circuit.circuit === "half-open" && !circuit.probing)) {
+		circuit.probing = circuit.circuit === "half-open";
+		return;
+	}
+	const retryInSeconds = Math.max(1, Math.ceil((circuit.openedAt! + BREAKER_COOLDOWN_MS - Date.now()) / 1000));
+	throw new Error(
+		`The ${upstream} API is unavailable after ${circuit.consecutiveFailures} consecutive failures (${circuit.lastError}). Retry in ${retryInSeconds}s.`,
+	);
+}
+
+function recordOutcome(upstream: string, outcome: Outcome, error?: string) {
+	const circuit = circuitFor(upstream);
+	circuit.probing = false;
+	if (outcome === "local") {
+		return;
+	}
+	if (outcome !== "failure") {
+		if (circuit.circuit !== "closed") {
+			log("info", "circuit_closed", { upstream });
+		}
+		circuit.circuit = "closed";
+		circuit.consecutiveFailures = 0;
+		circuit.openedAt = undefined;
+		return;
+	}
+	circuit.consecutiveFailures += 1;
+	circuit.lastError = error;
+	if (circuit.circuit === "half-open" || circuit.consecutiveFailures >= BREAKER_THRESHOLD) {
+		if (circuit.circuit !== "open") {
+			log("warn", "circuit_opened", {
+				upstream,
+				consecutiveFailures: circuit.consecutiveFailures,
+				error,
+				cooldownSeconds: BREAKER_COOLDOWN_MS / 1000,
+			});
+		}
+		circuit.circuit = "open";
+		circuit.openedAt = Date.now();
+	}
+}
+
+/**
+ * HTTP status of a request, from a Response, an axios error or the DimoError the SDK throws. A DimoError
+ * only carries the status when the error body has a code; one with a body still means the API answered.
+ */
+function statusOf(value: unknown): number | undefined {
+	if (value instanceof Response) {
+		return value.status;
+	}
+	const error = value as { response?: { status?: number }; statusCode?: number; body?: unknown } | undefined;
+	return error?.response?.status ?? error?.statusCode ?? (error?.body !== undefined ? 400 : undefined);
+}
+
+// Connection failures of fetch (Node and Bun) and of axios, which the SDK uses
+const NETWORK_ERROR_CODES = new Set([
+	"ConnectionRefused",
+	"ConnectionClosed",
+	"ECONNABORTED",
+	"ECONNREFUSED",
+	"ECONNRESET",
+	"EAI_AGAIN",
+	"ENOTFOUND",
+	"EPIPE",
+	"ETIMEDOUT",
+	"ERR_NETWORK",
+	"UND_ERR_CONNECT_TIMEOUT",
+	"UND_ERR_SOCKET",
+]);
+
+/**
+ * Whether an error without a status means the request failed on its way to or from the upstream, as
+ * opposed to a local error that would fail the same way again
+ */
+function isNetworkError(error: unknown) {
+	const candidate = error as { name?: string; code?: string; cause?: { code?: string } } | undefined;
+	if (candidate?.name === "TimeoutError" || candidate?.name === "AbortError") {
+		return true;
+	}
+	if (error instanceof TypeError && error.message === "fetch failed") {
+		return true;
+	}
+	const code = candidate?.code ?? candidate?.cause?.code;
+	return code !== undefined && NETWORK_ERROR_CODES.has(code);
+}
+
+function outcomeOf(status: number | undefined, error?: unknown): Outcome {
+	if (status === undefined) return error === undefined || isNetworkError(error) ? "failure" : "local";
+	if (status >= 500 || status === 408) return "failure";
+	if (status === 429) return "throttled";
+	return "ok";
+}
+
+function retryAfterMs(value: unknown) {
+	const header =
+		value instanceof Response
+			? value.headers.get("retry-after")
+			: (value as { response?: { headers?: Record<string, string> } } | undefined)?.response?.headers?.[
+					"retry-after"
+				];
+	const seconds = Number(header);
+	return header && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+function backoffMs(attempt: number) {
+	// Full jitter: concurrent callers retrying the same outage spread out instead of arriving together
+	return Math.random() * RETRY_BASE_MS * 2 ** attempt;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A Response is read within the timeout too, so a body that stalls after the headers still times out
+function withTimeout<T>(upstream: string, timeoutMs: number, call: (signal: AbortSignal) => Promise<T>) {
+	const controller = new AbortController();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			const error = new Error(`The ${upstream} API did not respond within ${timeoutMs}ms`);
+			error.name = "TimeoutError";
+			controller.abort(error);
+			reject(error);
+		}, timeoutMs);
+	});
+	const read = async () => {
+		const value = await call(controller.signal);
+		if (!(value instanceof Response)) {
+			return value;
+		}
+		const body = await value.arrayBuffer();
+		return new Response(value.status === 204 || value.status === 304 ? null : body, {
+			status: value.status,
+			statusText: value.statusText,
+			headers: value.headers,
+		}) as T;
+	};
+	return Promise.race([read(), timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Call an upstream with a timeout, retries for idempotent calls and the upstream's circuit breaker.
+ * Failed calls reject, like fetch: with the circuit-open or timeout error, or the call's own error.
+ * Responses and errors with a status below 500 (other than 408 and 429) are client errors and count as
+ * success.
+ * @param upstream - Circuit name, an endpoint name such as telemetry (see upstreamForUrl)
+ * @param call - Performs the request; the signal aborts it on timeout
+ */
+export async function callUpstream<T>(
+	upstream: string,
+	call: (signal: AbortSignal) => Promise<T>,
+	options: UpstreamCallOptions = {},
+): Promise<T> {
+	const attempts = options.idempotent ? RETRIES + 1 : 1;
+	const timeoutMs = options.timeoutMs ?? UPSTREAM_TIMEOUT_MS;
+
+	for (let attempt = 0; ; attempt += 1) {
+		admit(upstream);
+		let value: T | undefined;
+		let error: unknown;
+		try {
+			value = await withTimeout(upstream, timeoutMs, call);
+		} catch (caught) {
+			error = caught;
+		}
+
+		const failed = error !== undefined;
+		const outcome = failed ? outcomeOf(statusOf(error), error) : outcomeOf(statusOf(value) ?? 200);
+		const reason = failed ? (error instanceof Error ? error.message : String(error)) : `HTTP ${statusOf(value)}`;
+		recordOutcome(upstream, outcome, reason);
+
+		const retryAfter = retryAfterMs(failed ? error : value);
+		const retryable =
+			(outcome === "failure" || outcome === "throttled") &&
+			attempt + 1 < attempts &&
+			circuitFor(upstream).circuit !== "open" &&
+			(outcome === "failure" || retryAfter === undefined || retryAfter <= MAX_RETRY_AFTER_MS);
+		if (!retryable) {
+			if (failed) {
+				throw error;
+			}
+			return value as T;
+		}
+
+		const delayMs = outcome === "throttled" && retryAfter !== undefined ? retryAfter : backoffMs(attempt);
+		log("warn", "upstream_retry", { upstream, attempt: attempt + 1, reason, delayMs: Math.round(delayMs) });
+		await sleep(delayMs);
+	}
+}
+
+/**
+ * Whether a request may be retried: GET and HEAD, and GraphQL POSTs without a mutation
+ */
+export function isIdempotentRequest(init?: RequestInit) {
+	const method = (init?.method ?? "GET").toUpperCase();
+	if (method === "GET" || method === "HEAD") {
+		return true;
+	}
+	if (method !== "POST" || typeof init?.body !== "string") {
+		return false;
+	}
+	try {
+		const { query } = JSON.parse(init.body);
+		return (
+			typeof query === "string" &&
+			parse(query).definitions.every(
+				(definition) => definition.kind !== "OperationDefinition" || definition.operation === "query",
+			)
+		);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Wrap a fetch function with callUpstream, using the circuit of the endpoint a URL belongs to
+ */
+export function createResilientFetch(baseFetch: FetchLike): FetchLike {
+	return (input, init) =>
+		callUpstream(
+			upstreamForUrl(input.toString()),
+			(signal) =>
+				baseFetch(input, { ...init, signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal }),
+			{ idempotent: isIdempotentRequest(init) },
+		);
+}
+
+/**
+ * Circuit state per upstream that has been called, for the health endpoint
+ */
+export function getCircuitStates() {
+	const now = Date.now();
+	return Object.fromEntries(
+		[...circuits].map(([upstream, circuit]) => [
+			upstream,
+			{
+				circuit: circuit.circuit,
+				consecutiveFailures: circuit.consecutiveFailures,
+				...(circuit.lastError && circuit.consecutiveFailures > 0 && { lastError: circuit.lastError }),
+				...(circuit.circuit === "open" && {
+					retryInSeconds: Math.max(0, Math.ceil((circuit.openedAt! + BREAKER_COOLDOWN_MS - now) / 1000)),
+				}),
+			},
+		]),
+	);
+}
@@ -0,0 +1,306 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { type Socket, connect } from "node:net";
+import { log } from "./logging";
+import { vehicleJwtCache } from "./metrics";
+
+/**
+ * Vehicle JWTs from the token exchange, cached per tokenId and exact privilege set until the `exp`
+ * claim of the token. A token is refreshed in the background once less than VEHICLE_JWT_REFRESH_SECONDS
+ * of it is left, so callers never wait on the exchange for a vehicle in regular use, and concurrent
+ * requests for the same token share one exchange. The store can outlive the process, so a restart
+ * does not send every vehicle back to the token exchange at once.
+ *
+ *   VEHICLE_JWT_STORE             memory (default), file or redis
+ *   VEHICLE_JWT_FILE              default vehicle-jwts.json, for the file store
+ *   VEHICLE_JWT_REDIS_URL         default redis://localhost:6379, any server speaking the Redis protocol
+ *   VEHICLE_JWT_REFRESH_SECONDS   default 60
+ */
+
+export interface VehicleJwt {
+	tokenId: number;
+	privileges: number[];
+	jwt: string;
+	/** Unix timestamp in ms, from the exp claim */
+	expiresAt: number;
+}
+
+/** Persistent storage behind the in-memory cache */
+interface VehicleJwtBackend {
+	name: string;
+	load(key: string): Promise<VehicleJwt | undefined>;
+	save(entry: VehicleJwt): Promise<void>;
+}
+
+const REFRESH_MS = Number(process.env.VEHICLE_JWT_REFRESH_SECONDS ?? 60) * 1000;
+
+// Used when a token has no readable exp claim
+const FALLBACK_LIFETIME_MS = 5 * 60 * 1000;
+
+const memory = new Map<string, VehicleJwt>();
+const exchanges = new Map<string, Promise<VehicleJwt>>();
+
+function normalizePrivileges(privileges: number[]) {
+	return [...new Set(privileges)].sort((a, b) => a - b);
+}
+
+function storeKey(tokenId: number, privileges: number[]) {
+	return `${tokenId}:${normalizePrivileges(privileges).join(",")}`;
+}
+
+/**
+ * Expiry of a JWT from its exp claim, without verifying the token
+ * @returns Unix timestamp in ms, or undefined when the token has no exp claim
+ */
+export function decodeJwtExpiry(jwt: string): number | undefined {
+	try {
+		const { exp } = JSON.parse(Buffer.from(jwt.split(".")[1], "base64url").toString());
+		return typeof exp === "number" ? exp * 1000 : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function createFileBackend(path: string): VehicleJwtBackend {
+	let entries: Promise<Record<string, VehicleJwt>> | undefined;
+	let saving = Promise.resolve();
+
+	const getEntries = () => {
+		entries ??= readFile(path, "utf8")
+			.then((text) => JSON.parse(text) as Record<string, VehicleJwt>)
+			.catch(() => ({}));
+		return entries;
+	};
+
+	const save = async (entry: VehicleJwt) => {
+		const stored = await getEntries();
+		stored[storeKey(entry.tokenId, entry.privileges)] = entry;
+		const now = Date.now();
+		for (const [key, { expiresAt }] of Object.entries(stored)) {
+			if (expiresAt <= now) delete stored[key];
+		}
+		// Serialize writes so concurrent refreshes do not interleave; the tokens are secrets
+		saving = saving.then(() => writeFile(path, JSON.stringify(stored, null, 2), { mode: 0o600 }));
+		await saving;
+	};
+
+	return {
+		name: `file (${path})`,
+		load: async (key) => (await getEntries())[key],
+		save,
+	};
+}
+
+/**
+ * Minimal client for the Redis protocol (GET and SET with PX), enough for the store and without a
+ * dependency. Works with Redis, Valkey, KeyDB, Dragonfly and the like.
+ */
+function createRedisBackend(url: string): VehicleJwtBackend {
+	const parsed = new URL(url);
+	const prefix = "dimo-mcp:vehicle-jwt:";
+	let socket: Socket | undefined;
+	let buffer = Buffer.alloc(0);
+	const pending: { resolve: (value: string | number | null) => void; reject: (error: Error) => void }[] = [];
+
+	const encode = (args: string[]) =>
+		`*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")}`;
+
+	// Replies to the commands above are simple strings, errors, integers and bulk strings
+	const parseReplies = () => {
+		while (pending.length > 0) {
+			const lineEnd = buffer.indexOf("\r\n");
+			if (lineEnd === -1) return;
+			const type = String.fromCharCode(buffer[0]);
+			const line = buffer.subarray(1, lineEnd).toString();
+			let value: string | number | null;
+			let consumed = lineEnd + 2;
+			if (type === "$") {
+				const length = Number(line);
+				if (length >= 0 && buffer.length < consumed + length + 2) return;
+				value = length < 0 ? null : buffer.subarray(consumed, consumed + length).toString();
+				consumed += length < 0 ? 0 : length + 2;
+			} else {
+				value = type === ":" ? Number(line) : line;
+			}
+			buffer = buffer.subarray(consumed);
+			const reply = pending.shift()!;
+			if (type === "-") reply.reject(new Error(`Redis: ${line}`));
+			else reply.resolve(value);
+		}
+	};
+
+	const command = (...args: string[]) =>
+		new Promise<string | number | null>((resolve, reject) => {
+			if (!socket) {
+				socket = connect(Number(parsed.port || 6379), parsed.hostname);
+				socket.on("data", (data) => {
+					buffer = Buffer.concat([buffer, data]);
+					parseReplies();
+				});
+				socket.on("error", (error) => log("warn", "vehicle_jwt_store_error", { error: error.message }));
+				socket.on("close", () => {
+					socket = undefined;
+					buffer = Buffer.alloc(0);
+					for (const reply of pending.splice(0)) reply.reject(new Error("Redis connection closed"));
+				});
+				socket.unref();
+				const setup: string[][] = [];
+				if (parsed.password) {
+					const username = parsed.username ? [decodeURIComponent(parsed.username)] : [];
+					setup.push(["AUTH", ...username, decodeURIComponent(parsed.password)]);
+				}
+				if (parsed.pathname.length > 1) {
+					setup.push(["SELECT", parsed.pathname.slice(1)]);
+				}
+				// Failures surface as errors on the command itself, e.g. NOAUTH
+				for (const setupArgs of setup) {
+					pending.push({ resolve: () => undefined, reject: () => undefined });
+					socket.write(encode(setupArgs));
+				}
+			}
+			// The reply keeps its place in the queue after a timeout, so later replies still line up
+			const timer = setTimeout(() => reject(new Error(`Redis did not answer ${args[0]} in time`)), 2000);
+			pending.push({
+				resolve: (value) => {
+					clearTimeout(timer);
+					resolve(value);
+				},
+				reject: (error) => {
+					clearTimeout(timer);
+					reject(error);
+				},
+			});
+			socket.write(encode(args));
+		});
+
+	return {
+		name: `redis (${parsed.host})`,
+		load: async (key) => {
+			const value = await command("GET", `${prefix}${key}`);
+			return typeof value === "string" ? (JSON.parse(value) as VehicleJwt) : undefined;
+		},
+		save: async (entry) => {
+			const ttlMs = entry.expiresAt - Date.now();
+			if (ttlMs > 0) {
+				await command(
+					"SET",
+					`${prefix}${storeKey(entry.tokenId, entry.privileges)}`,
+					JSON.stringify(entry),
+					"PX",
+					String(ttlMs),
+				);
+			}
+		},
+	};
+}
+
+function createBackend(): VehicleJwtBackend | undefined {
+	switch (process.env.VEHICLE_JWT_STORE ?? "memory") {
+		case "file":
+			return createFileBackend(process.env.VEHICLE_JWT_FILE || "vehicle-jwts.json");
+		case "redis":
+			return createRedisBackend(process.env.VEHICLE_JWT_REDIS_URL || "redis://localhost:6379");
+		case "memory":
+			return undefined;
+		default:
+			throw new Error(`Invalid VEHICLE_JWT_STORE "${process.env.VEHICLE_JWT_STORE}", expected memory, file or redis`);
+	}
+}
+
+const backend = createBackend();
+
+/**
+ * A valid cached token for exactly these privileges, from memory or the persistent store. Tokens with
+ * more privileges are not reused: get_authentication_token hands the token itself to the client.
+ */
+async function findCached(tokenId: number, privileges: number[], now: number) {
+	const key = storeKey(tokenId, privileges);
+	let entry = memory.get(key);
+	if (!entry && backend) {
+		entry = await backend.load(key).catch((error) => {
+			log("warn", "vehicle_jwt_store_error", { error: error instanceof Error ? error.message : String(error) });
+			return undefined;
+		});
+		if (entry) memory.set(key, entry);
+	}
+	if (entry && entry.expiresAt <= now) {
+		memory.delete(key);
+		return undefined;
+	}
+	return entry;
+}
+
+// Vehicles that are not asked for again would otherwise keep their expired tokens in memory
+function evictExpired(now: number) {
+	for (const [key, { expiresAt }] of memory) {
+		if (expiresAt <= now) memory.delete(key);
+	}
+}
+
+/**
+ * Exchange a token for exactly the requested privileges, once per key at a time
+ */
+function refresh(tokenId: number, privileges: number[], exchange: (privileges: number[]) => Promise<string>) {
+	const key = storeKey(tokenId, privileges);
+	let pendingExchange = exchanges.get(key);
+	if (!pendingExchange) {
+		pendingExchange = (async () => {
+			const jwt = await exchange(normalizePrivileges(privileges));
+			const entry: VehicleJwt = {
+				tokenId,
+				privileges: normalizePrivileges(privileges),
+				jwt,
+				expiresAt: decodeJwtExpiry(jwt) ?? Date.now() + FALLBACK_LIFETIME_MS,
+			};
+			evictExpired(Date.now());
+			memory.set(key, entry);
+			await backend?.save(entry).catch((error) => {
+				log("warn", "vehicle_jwt_store_error", { error: error instanceof Error ? error.message : String(error) });
+			});
+			return entry;
+		})().finally(() => exchanges.delete(key));
+		exchanges.set(key, pendingExchange);
+	}
+	return pendingExchange;
+}
+
+/**
+ * Get a vehicle JWT with the given privileges from the store, or from the token exchange
+ * @param exchange - Requests a token for exactly these privileges and returns the raw JWT
+ * @param options.force - Skip the cache and replace the stored token, e.g. after privileges changed
+ */
+export async function getVehicleJwt(
+	tokenId: number,
+	privileges: number[],
+	exchange: (privileges: number[]) => Promise<string>,
+	options: { force?: boolean } = {},
+): Promise<VehicleJwt> {
+	const now = Date.now();
+	const cached = options.force ? undefined : await findCached(tokenId, privileges, now);
+	if (!cached) {
+		vehicleJwtCache.inc({ result: "miss" });
+		return refresh(tokenId, privileges, exchange);
+	}
+
+	vehicleJwtCache.inc({ result: "hit" });
+	if (cached.expiresAt - now < REFRESH_MS && !exchanges.has(storeKey(tokenId, cached.privileges))) {
+		vehicleJwtCache.inc({ result: "refresh" });
+		refresh(tokenId, cached.privileges, exchange).catch((error) => {
+			log("warn", "vehicle_jwt_refresh_failed", {
+				tokenId,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		});
+	}
+	return cached;
+}
+
+/**
+ * Store backend and live tokens, for the health endpoint
+ */
+export function getVehicleJwtStoreStats() {
+	evictExpired(Date.now());
+	return {
+		backend: backend?.name ?? "memory",
+		tokens: memory.size,
+	};
+}
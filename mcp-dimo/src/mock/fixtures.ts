@@ -0,0 +1,79 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+
+/**
+ * Fixture vehicles served by the mock DIMO platform (see mock-server.ts). A fixture describes the
+ * vehicle's identity and a daily driving schedule; telemetry is simulated from the schedule.
+ */
+
+const TripScheduleSchema = z.object({
+	/** UTC start time of the daily trip, HH:MM */
+	start: z.string().regex(/^\d{2}:\d{2}$/),
+	durationMinutes: z.number().positive(),
+	avgSpeedKmh: z.number().positive(),
+});
+
+export const MockVehicleSchema = z.object({
+	tokenId: z.number().int(),
+	name: z.string().optional(),
+	owner: z.string(),
+	mintedAt: z.string().default("2024-01-01T00:00:00Z"),
+	vin: z.string().optional(),
+	definition: z.object({
+		id: z.string(),
+		make: z.string(),
+		model: z.string(),
+		year: z.number().int(),
+	}),
+	powertrainType: z.enum(["COMBUSTION", "BEV"]).default("COMBUSTION"),
+	/** Odometer on 2025-01-01, the simulation epoch */
+	odometerKm: z.number().default(10000),
+	/** Range on a full tank or charge */
+	rangeKm: z.number().positive().default(600),
+	batteryCapacityKwh: z.number().positive().default(60),
+	tirePressureKpa: z.number().default(240),
+	/** Active diagnostic trouble codes */
+	dtcs: z.array(z.string()).default([]),
+	/** Fixed values that override the simulation at every point in time, by signal name */
+	latest: z.record(z.string(), z.union([z.number(), z.string()])).default({}),
+	trips: z.array(TripScheduleSchema).default([]),
+	/** Developer licenses the vehicle is shared with. `$CLIENT_ID` is replaced by the mock client ID. */
+	sacds: z
+		.array(
+			z.object({
+				grantee: z.string(),
+				privileges: z.array(z.number().int()),
+			}),
+		)
+		.default([]),
+});
+
+export type MockVehicle = z.infer<typeof MockVehicleSchema>;
+
+export const MockFixturesSchema = z.object({
+	vehicles: z.array(MockVehicleSchema),
+});
+
+/**
+ * Parse fixture vehicles, replacing the `$CLIENT_ID` grantee placeholder
+ * @param input - Fixture JSON (`{ "vehicles": [...] }`)
+ * @param clientId - Developer license address the placeholder stands for
+ */
+export function parseMockVehicles(input: unknown, clientId: string) {
+	return MockFixturesSchema.parse(input).vehicles.map((vehicle) => ({
+		...vehicle,
+		sacds: vehicle.sacds.map((sacd) => ({
+			...sacd,
+			grantee: sacd.grantee === "$CLIENT_ID" ? clientId : sacd.grantee,
+		})),
+	}));
+}
+
+/**
+ * Load fixture vehicles from a JSON file
+ * @param path - Path to the fixture file
+ * @param clientId - Developer license address the `$CLIENT_ID` placeholder stands for
+ */
+export async function loadMockVehicles(path: string, clientId: string) {
+	return parseMockVehicles(JSON.parse(await readFile(path, "utf8")), clientId);
+}
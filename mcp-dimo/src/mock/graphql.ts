@@ -0,0 +1,372 @@
+import { buildSchema, graphql } from "graphql";
+import type { MockVehicle } from "./fixtures";
+import {
+	FLOAT_SIGNALS,
+	type FloatAggregation,
+	STRING_SIGNALS,
+	type SignalName,
+	type StringAggregation,
+	simulateBucket,
+	simulateSignals,
+} from "./simulation";
+import type { VehicleClaims } from "./tokens";
+
+/**
+ * Identity and telemetry GraphQL APIs of the mock DIMO platform. The schemas are a subset of the
+ * real ones with the same type, field and argument names, so the app's queries run unchanged.
+ */
+
+export const MOCK_VEHICLE_CONTRACT = "0xbA5738a18d83D41847dfFbDC6101d37C69c9B0cF";
+
+// Largest signals history response, to keep a mistyped interval from hanging the mock
+const MAX_BUCKETS = 5000;
+
+export interface MockGraphQLContext {
+	vehicles: MockVehicle[];
+	seed: number;
+	/** Claims of the vehicle JWT, telemetry only */
+	claims?: VehicleClaims;
+}
+
+const identitySchema = buildSchema(`
+scalar Address
+scalar Time
+
+type Query {
+  vehicle(tokenId: Int!): Vehicle
+  vehicles(first: Int, after: String, last: Int, before: String, filterBy: VehiclesFilter): VehicleConnection!
+}
+
+input VehiclesFilter {
+  owner: Address
+  privileged: Address
+  make: String
+  model: String
+  year: Int
+}
+
+type Vehicle {
+  id: ID!
+  tokenId: Int!
+  tokenDID: String!
+  owner: Address!
+  mintedAt: Time!
+  name: String!
+  definition: Definition
+  sacds(first: Int, after: String): SacdConnection!
+  privileges(first: Int, after: String): PrivilegesConnection!
+}
+
+type Definition {
+  id: String
+  make: String
+  model: String
+  year: Int
+}
+
+type Sacd {
+  grantee: Address!
+  permissions: String!
+  source: String!
+  createdAt: Time!
+  expiresAt: Time!
+}
+
+type Privilege {
+  id: Int!
+  user: Address!
+  setAt: Time!
+  expiresAt: Time!
+}
+
+type PageInfo {
+  startCursor: String
+  endCursor: String
+  hasPreviousPage: Boolean!
+  hasNextPage: Boolean!
+}
+
+type VehicleConnection {
+  totalCount: Int!
+  nodes: [Vehicle!]!
+  pageInfo: PageInfo!
+}
+
+type SacdConnection {
+  totalCount: Int!
+  nodes: [Sacd!]!
+  pageInfo: PageInfo!
+}
+
+type PrivilegesConnection {
+  totalCount: Int!
+  nodes: [Privilege!]!
+  pageInfo: PageInfo!
+}
+`);
+
+const telemetrySchema = buildSchema(`
+scalar Time
+
+enum FloatAggregation { AVG MED MAX MIN RAND FIRST LAST }
+enum StringAggregation { RAND UNIQUE TOP FIRST LAST }
+
+input SignalFilter {
+  source: String
+}
+
+type Query {
+  signalsLatest(tokenId: Int!, filter: SignalFilter): SignalCollection
+  signals(tokenId: Int!, interval: String!, from: Time!, to: Time!, filter: SignalFilter): [SignalAggregations!]
+  availableSignals(tokenId: Int!, filter: SignalFilter): [String!]
+}
+
+type SignalFloat {
+  timestamp: Time!
+  value: Float!
+}
+
+type SignalString {
+  timestamp: Time!
+  value: String!
+}
+
+type SignalCollection {
+  lastSeen: Time
+${FLOAT_SIGNALS.map((signal) => `  ${signal}: SignalFloat`).join("\n")}
+${STRING_SIGNALS.map((signal) => `  ${signal}: SignalString`).join("\n")}
+}
+
+type SignalAggregations {
+  timestamp: Time!
+${FLOAT_SIGNALS.map((signal) => `  ${signal}(agg: FloatAggregation!): Float`).join("\n")}
+${STRING_SIGNALS.map((signal) => `  ${signal}(agg: StringAggregation!): String`).join("\n")}
+}
+`);
+
+function connection<T>(items: T[], first?: number) {
+	const nodes = first ? items.slice(0, first) : items;
+	return {
+		totalCount: items.length,
+		nodes,
+		pageInfo: {
+			startCursor: null,
+			endCursor: null,
+			hasPreviousPage: false,
+			hasNextPage: nodes.length < items.length,
+		},
+	};
+}
+
+/**
+ * Encode privileges the way SACD permissions are stored: two bits per privilege, both set
+ * when granted (the inverse of the SDK's decodePermissions)
+ */
+export function encodePermissions(privileges: number[]) {
+	const bits = privileges.reduce(
+		(acc, privilege) => acc | (0b11n << BigInt(privilege * 2)),
+		0n,
+	);
+	return `0x${bits.toString(16)}`;
+}
+
+function sameAddress(a: string, b: string) {
+	return a.toLowerCase() === b.toLowerCase();
+}
+
+function toIdentityVehicle(vehicle: MockVehicle) {
+	const expiresAt = new Date(Date.parse(vehicle.mintedAt) + 365 * 24 * 3600 * 1000 * 5).toISOString();
+	return {
+		id: `V_${vehicle.tokenId}`,
+		tokenId: vehicle.tokenId,
+		tokenDID: `did:erc721:137:${MOCK_VEHICLE_CONTRACT}:${vehicle.tokenId}`,
+		owner: vehicle.owner,
+		mintedAt: vehicle.mintedAt,
+		name: vehicle.name ?? `${vehicle.definition.make} ${vehicle.definition.model}`,
+		definition: vehicle.definition,
+		sacds: ({ first }: { first?: number }) =>
+			connection(
+				vehicle.sacds.map((sacd) => ({
+					grantee: sacd.grantee,
+					permissions: encodePermissions(sacd.privileges),
+					source: "mock",
+					createdAt: vehicle.mintedAt,
+					expiresAt,
+				})),
+				first,
+			),
+		privileges: ({ first }: { first?: number }) =>
+			connection(
+				vehicle.sacds.flatMap((sacd) =>
+					sacd.privileges.map((id) => ({
+						id,
+						user: sacd.grantee,
+						setAt: vehicle.mintedAt,
+						expiresAt,
+					})),
+				),
+				first,
+			),
+	};
+}
+
+const identityRoot = {
+	vehicle: ({ tokenId }: { tokenId: number }, context: MockGraphQLContext) => {
+		const vehicle = context.vehicles.find((v) => v.tokenId === tokenId);
+		return vehicle ? toIdentityVehicle(vehicle) : null;
+	},
+	vehicles: (
+		args: {
+			first?: number;
+			filterBy?: {
+				owner?: string;
+				privileged?: string;
+				make?: string;
+				model?: string;
+				year?: number;
+			};
+		},
+		context: MockGraphQLContext,
+	) => {
+		const filter = args.filterBy ?? {};
+		const vehicles = context.vehicles.filter(
+			(vehicle) =>
+				(!filter.owner || sameAddress(vehicle.owner, filter.owner)) &&
+				(!filter.privileged ||
+					vehicle.sacds.some((sacd) =>
+						sameAddress(sacd.grantee, filter.privileged as string),
+					)) &&
+				(!filter.make || vehicle.definition.make === filter.make) &&
+				(!filter.model || vehicle.definition.model === filter.model) &&
+				(!filter.year || vehicle.definition.year === filter.year),
+		);
+		return connection(vehicles.map(toIdentityVehicle), args.first);
+	},
+};
+
+/**
+ * Parse a telemetry interval such as 30s, 15m, 1h or 24h
+ * @returns The interval in ms
+ */
+export function parseInterval(interval: string) {
+	const match = interval.match(/^(\d+)(ms|s|m|h)$/);
+	if (!match) {
+		throw new Error(`Invalid interval "${interval}", use e.g. 15m, 1h or 24h`);
+	}
+	const units = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+	return Number(match[1]) * units[match[2] as keyof typeof units];
+}
+
+function authorizedVehicle(tokenId: number, context: MockGraphQLContext) {
+	const { claims } = context;
+	if (!claims || claims.token_id !== String(tokenId)) {
+		throw new Error(`unauthorized: the vehicle JWT is not for token ${tokenId}`);
+	}
+	if (!claims.privilege_ids.includes(1)) {
+		throw new Error("unauthorized: missing privilege 1 (all-time, non-location data)");
+	}
+	const vehicle = context.vehicles.find((v) => v.tokenId === tokenId);
+	if (!vehicle) {
+		throw new Error(`vehicle ${tokenId} not found`);
+	}
+	return vehicle;
+}
+
+function latestSignals(vehicle: MockVehicle, seed: number) {
+	const time = Math.floor(Date.now() / 60000) * 60000;
+	const timestamp = new Date(time).toISOString();
+	const values = simulateSignals(vehicle, seed, time);
+	return {
+		lastSeen: timestamp,
+		...Object.fromEntries(
+			Object.entries(values).map(([signal, value]) => [
+				signal,
+				{ timestamp, value },
+			]),
+		),
+	};
+}
+
+function aggregationRow(
+	vehicle: MockVehicle,
+	seed: number,
+	start: number,
+	end: number,
+) {
+	const bucket = simulateBucket(vehicle, seed, start, end);
+	return {
+		timestamp: new Date(start).toISOString(),
+		...Object.fromEntries(
+			FLOAT_SIGNALS.map((signal) => [
+				signal,
+				({ agg }: { agg: FloatAggregation }) => bucket.float(signal, agg),
+			]),
+		),
+		...Object.fromEntries(
+			STRING_SIGNALS.map((signal) => [
+				signal,
+				({ agg }: { agg: StringAggregation }) => bucket.string(signal, agg),
+			]),
+		),
+	};
+}
+
+const telemetryRoot = {
+	signalsLatest: ({ tokenId }: { tokenId: number }, context: MockGraphQLContext) =>
+		latestSignals(authorizedVehicle(tokenId, context), context.seed),
+	signals: (
+		args: { tokenId: number; interval: string; from: string; to: string },
+		context: MockGraphQLContext,
+	) => {
+		const vehicle = authorizedVehicle(args.tokenId, context);
+		const step = parseInterval(args.interval);
+		const from = Date.parse(args.from);
+		const to = Math.min(Date.parse(args.to), Date.now());
+		if (Number.isNaN(from) || Number.isNaN(to)) {
+			throw new Error("from and to must be RFC 3339 timestamps");
+		}
+		if ((to - from) / step > MAX_BUCKETS) {
+			throw new Error(`Too many intervals, the mock returns at most ${MAX_BUCKETS}`);
+		}
+
+		const rows = [];
+		for (let start = from; start < to; start += step) {
+			rows.push(aggregationRow(vehicle, context.seed, start, Math.min(start + step, to)));
+		}
+		return rows;
+	},
+	availableSignals: ({ tokenId }: { tokenId: number }, context: MockGraphQLContext) => {
+		authorizedVehicle(tokenId, context);
+		return [...FLOAT_SIGNALS, ...STRING_SIGNALS] as SignalName[];
+	},
+};
+
+export interface GraphQLRequest {
+	query: string;
+	variables?: Record<string, unknown>;
+	operationName?: string;
+}
+
+function execute(
+	schema: typeof identitySchema,
+	rootValue: object,
+	request: GraphQLRequest,
+	context: MockGraphQLContext,
+) {
+	return graphql({
+		schema,
+		source: request.query,
+		rootValue,
+		contextValue: context,
+		variableValues: request.variables,
+		operationName: request.operationName,
+	});
+}
+
+export function executeIdentity(request: GraphQLRequest, context: MockGraphQLContext) {
+	return execute(identitySchema, identityRoot, request, context);
+}
+
+export function executeTelemetry(request: GraphQLRequest, context: MockGraphQLContext) {
+	return execute(telemetrySchema, telemetryRoot, request, context);
+}
@@ -0,0 +1,255 @@
+import type { MockVehicle } from "./fixtures";
+
+/**
+ * Deterministic telemetry simulation for mock vehicles. Every value is a pure function of the
+ * vehicle, the seed and the time, so signalsLatest and signals history always agree and the same
+ * seed reproduces the same data.
+ */
+
+export const FLOAT_SIGNALS = [
+	"speed",
+	"isIgnitionOn",
+	"powertrainTransmissionTravelledDistance",
+	"powertrainFuelSystemRelativeLevel",
+	"powertrainFuelSystemAbsoluteLevel",
+	"powertrainRange",
+	"powertrainTractionBatteryStateOfChargeCurrent",
+	"powertrainTractionBatteryStateOfChargeCurrentEnergy",
+	"powertrainTractionBatteryGrossCapacity",
+	"powertrainTractionBatteryChargingIsCharging",
+	"powertrainCombustionEngineECT",
+	"powertrainCombustionEngineSpeed",
+	"powertrainCombustionEngineTPS",
+	"powertrainCombustionEngineMAF",
+	"lowVoltageBatteryCurrentVoltage",
+	"obdEngineLoad",
+	"obdIntakeTemp",
+	"obdBarometricPressure",
+	"obdRunTime",
+	"exteriorAirTemperature",
+	"chassisAxleRow1WheelLeftTirePressure",
+	"chassisAxleRow1WheelRightTirePressure",
+	"chassisAxleRow2WheelLeftTirePressure",
+	"chassisAxleRow2WheelRightTirePressure",
+] as const;
+
+export const STRING_SIGNALS = [
+	"obdDTCList",
+	"powertrainType",
+	"powertrainFuelSystemSupportedFuelTypes",
+] as const;
+
+export type SignalName =
+	| (typeof FLOAT_SIGNALS)[number]
+	| (typeof STRING_SIGNALS)[number];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const EPOCH = Date.parse("2025-01-01T00:00:00Z");
+const FUEL_TANK_LITERS = 55;
+
+interface TripWindow {
+	startMs: number;
+	durationMs: number;
+	avgSpeedKmh: number;
+}
+
+function tripWindows(vehicle: MockVehicle): TripWindow[] {
+	return vehicle.trips.map((trip) => {
+		const [hours, minutes] = trip.start.split(":").map(Number);
+		return {
+			startMs: (hours * 60 + minutes) * MINUTE_MS,
+			durationMs: trip.durationMinutes * MINUTE_MS,
+			avgSpeedKmh: trip.avgSpeedKmh,
+		};
+	});
+}
+
+function dailyDistanceKm(trips: TripWindow[]) {
+	return trips.reduce(
+		(sum, trip) => sum + (trip.avgSpeedKmh * trip.durationMs) / 3600000,
+		0,
+	);
+}
+
+/** Stable pseudo-random number in [0, 1) for a seed and a list of integers */
+function noise(seed: number, ...values: number[]) {
+	let h = seed ^ 0x9e3779b9;
+	for (const value of values) {
+		h = Math.imul(h ^ value, 0x85ebca6b);
+		h ^= h >>> 13;
+		h = Math.imul(h, 0xc2b2ae35);
+		h ^= h >>> 16;
+	}
+	return (h >>> 0) / 4294967296;
+}
+
+function round(value: number, digits = 2) {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
+
+/**
+ * Simulate every signal of a vehicle at a point in time
+ * @param vehicle - The fixture vehicle
+ * @param seed - Noise seed
+ * @param time - Unix time in ms
+ * @returns Signal values by name
+ */
+export function simulateSignals(
+	vehicle: MockVehicle,
+	seed: number,
+	time: number,
+): Record<SignalName, number | string> {
+	const trips = tripWindows(vehicle);
+	const dayStart = Math.floor(time / DAY_MS) * DAY_MS;
+	const timeOfDay = time - dayStart;
+	const minute = Math.floor(time / MINUTE_MS);
+	const jitter = (channel: number) => noise(seed, vehicle.tokenId, channel, minute);
+
+	// Distance driven today before `time`, and the trip in progress if any
+	let todayKm = 0;
+	let activeTrip: TripWindow | undefined;
+	for (const trip of trips) {
+		const elapsed = Math.min(Math.max(timeOfDay - trip.startMs, 0), trip.durationMs);
+		todayKm += (trip.avgSpeedKmh * elapsed) / 3600000;
+		if (timeOfDay >= trip.startMs && timeOfDay < trip.startMs + trip.durationMs) {
+			activeTrip = trip;
+		}
+	}
+	const fullDays = Math.max(0, Math.floor((dayStart - EPOCH) / DAY_MS));
+	const odometer =
+		vehicle.odometerKm + fullDays * dailyDistanceKm(trips) + todayKm;
+
+	// Refuel or recharge every 80% of the range, so levels saw-tooth between 100% and 20%
+	const level = 100 - ((odometer % (vehicle.rangeKm * 0.8)) / vehicle.rangeKm) * 100;
+	const running = !!activeTrip;
+	const speed = activeTrip
+		? activeTrip.avgSpeedKmh * (0.6 + 0.8 * jitter(1))
+		: 0;
+	const ambient =
+		12 + 8 * Math.sin(((timeOfDay / DAY_MS) * 2 - 0.5) * Math.PI) + jitter(2);
+	const isBev = vehicle.powertrainType === "BEV";
+	const tire = (channel: number) =>
+		round(vehicle.tirePressureKpa - 4 + 8 * jitter(channel), 1);
+
+	const signals: Record<SignalName, number | string> = {
+		speed: round(speed, 1),
+		isIgnitionOn: running ? 1 : 0,
+		powertrainTransmissionTravelledDistance: round(odometer, 1),
+		powertrainFuelSystemRelativeLevel: isBev ? 0 : round(level, 1),
+		powertrainFuelSystemAbsoluteLevel: isBev
+			? 0
+			: round((level / 100) * FUEL_TANK_LITERS, 1),
+		powertrainRange: round((level / 100) * vehicle.rangeKm),
+		powertrainTractionBatteryStateOfChargeCurrent: isBev ? round(level, 1) : 0,
+		powertrainTractionBatteryStateOfChargeCurrentEnergy: isBev
+			? round((level / 100) * vehicle.batteryCapacityKwh, 1)
+			: 0,
+		powertrainTractionBatteryGrossCapacity: isBev ? vehicle.batteryCapacityKwh : 0,
+		powertrainTractionBatteryChargingIsCharging: 0,
+		powertrainCombustionEngineECT:
+			running && !isBev ? round(88 + 6 * jitter(3), 1) : round(ambient, 1),
+		powertrainCombustionEngineSpeed:
+			running && !isBev ? Math.round(800 + speed * 22 + 300 * jitter(4)) : 0,
+		powertrainCombustionEngineTPS: running && !isBev ? round(speed / 3 + 5 * jitter(5), 1) : 0,
+		powertrainCombustionEngineMAF: running && !isBev ? round(3 + speed / 8, 1) : 0,
+		lowVoltageBatteryCurrentVoltage: round(
+			(running ? 14.1 : 12.6) - 0.2 + 0.4 * jitter(6),
+			2,
+		),
+		obdEngineLoad: running && !isBev ? round(20 + speed / 2 + 10 * jitter(7), 1) : 0,
+		obdIntakeTemp: round(ambient + (running ? 15 : 0), 1),
+		obdBarometricPressure: round(100 + 2 * jitter(8), 1),
+		obdRunTime: activeTrip
+			? Math.round((timeOfDay - activeTrip.startMs) / 1000)
+			: 0,
+		exteriorAirTemperature: round(ambient, 1),
+		chassisAxleRow1WheelLeftTirePressure: tire(9),
+		chassisAxleRow1WheelRightTirePressure: tire(10),
+		chassisAxleRow2WheelLeftTirePressure: tire(11),
+		chassisAxleRow2WheelRightTirePressure: tire(12),
+		obdDTCList: JSON.stringify(vehicle.dtcs),
+		powertrainType: vehicle.powertrainType,
+		powertrainFuelSystemSupportedFuelTypes: isBev ? "ELECTRIC" : "GASOLINE",
+	};
+
+	return { ...signals, ...vehicle.latest } as Record<SignalName, number | string>;
+}
+
+export type FloatAggregation = "AVG" | "MED" | "MIN" | "MAX" | "FIRST" | "LAST" | "RAND";
+export type StringAggregation = "RAND" | "UNIQUE" | "TOP" | "FIRST" | "LAST";
+
+function aggregateFloat(values: number[], agg: FloatAggregation, seed: number) {
+	switch (agg) {
+		case "MIN":
+			return Math.min(...values);
+		case "MAX":
+			return Math.max(...values);
+		case "FIRST":
+			return values[0];
+		case "LAST":
+			return values[values.length - 1];
+		case "RAND":
+			return values[Math.floor(noise(seed, values.length) * values.length)];
+		case "MED": {
+			const sorted = [...values].sort((a, b) => a - b);
+			return sorted[Math.floor(sorted.length / 2)];
+		}
+		default:
+			return round(values.reduce((sum, v) => sum + v, 0) / values.length, 3);
+	}
+}
+
+function aggregateString(values: string[], agg: StringAggregation) {
+	switch (agg) {
+		case "LAST":
+			return values[values.length - 1];
+		case "UNIQUE":
+			return [...new Set(values)].join(",");
+		case "TOP": {
+			const counts = new Map<string, number>();
+			for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+			return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+		}
+		default:
+			return values[0];
+	}
+}
+
+/**
+ * One bucket of the signals history: the samples taken within [start, end) and how to aggregate them
+ * @param vehicle - The fixture vehicle
+ * @param seed - Noise seed
+ * @param start - Bucket start, Unix time in ms
+ * @param end - Bucket end, Unix time in ms
+ */
+export function simulateBucket(
+	vehicle: MockVehicle,
+	seed: number,
+	start: number,
+	end: number,
+) {
+	// Sample once a minute, at most 60 times per bucket
+	const step = Math.max(MINUTE_MS, Math.floor((end - start) / 60));
+	const samples: Record<SignalName, number | string>[] = [];
+	for (let time = start; time < end; time += step) {
+		samples.push(simulateSignals(vehicle, seed, time));
+	}
+
+	return {
+		float(signal: SignalName, agg: FloatAggregation) {
+			return aggregateFloat(
+				samples.map((sample) => Number(sample[signal])),
+				agg,
+				seed,
+			);
+		},
+		string(signal: SignalName, agg: StringAggregation) {
+			return aggregateString(
+				samples.map((sample) => String(sample[signal])),
+				agg,
+			);
+		},
+	};
+}
@@ -0,0 +1,175 @@
+import { createHmac, generateKeyPairSync, sign as signWithKey } from "node:crypto";
+
+/**
+ * JWTs issued by the mock platform. They have the claims of the real DIMO tokens that clients read
+ * (`ethereum_address` on developer JWTs, `token_id` and `privilege_ids` on vehicle JWTs) and are
+ * signed with a fixed HMAC key, so only the mock itself can verify them. User JWTs (Login with DIMO)
+ * are signed with RS256 like the real ones, with a key generated at startup and published at
+ * /auth/keys, so servers verify them the same way as in production.
+ */
+
+const SECRET = "dimo-mock-platform";
+const ISSUER = "http://dimo-mock";
+const DEVELOPER_JWT_TTL_SECONDS = 60 * 60 * 24;
+const VEHICLE_JWT_TTL_SECONDS = 60 * 10;
+const USER_JWT_TTL_SECONDS = 60 * 60 * 24;
+const USER_KEY_ID = "dimo-mock-user";
+
+const userKeys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+export interface DeveloperClaims {
+	ethereum_address: string;
+	aud: string;
+	iss: string;
+	iat: number;
+	exp: number;
+}
+
+export interface UserClaims {
+	ethereum_address: string;
+	sub: string;
+	aud: string;
+	iss: string;
+	iat: number;
+	exp: number;
+}
+
+export interface VehicleClaims {
+	token_id: string;
+	privilege_ids: number[];
+	contract_address: string;
+	sub: string;
+	aud: string;
+	iss: string;
+	iat: number;
+	exp: number;
+}
+
+function base64url(value: string) {
+	return Buffer.from(value).toString("base64url");
+}
+
+function sign(claims: object) {
+	const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+	const payload = base64url(JSON.stringify(claims));
+	const signature = createHmac("sha256", SECRET)
+		.update(`${header}.${payload}`)
+		.digest("base64url");
+	return `${header}.${payload}.${signature}`;
+}
+
+function now() {
+	return Math.floor(Date.now() / 1000);
+}
+
+export function issueDeveloperJwt(clientId: string) {
+	const iat = now();
+	return sign({
+		ethereum_address: clientId,
+		aud: clientId,
+		iss: ISSUER,
+		iat,
+		exp: iat + DEVELOPER_JWT_TTL_SECONDS,
+	} satisfies DeveloperClaims);
+}
+
+export function issueVehicleJwt(
+	clientId: string,
+	contractAddress: string,
+	tokenId: number,
+	privileges: number[],
+) {
+	const iat = now();
+	return sign({
+		token_id: String(tokenId),
+		privilege_ids: privileges,
+		contract_address: contractAddress,
+		sub: `${contractAddress}/${tokenId}`,
+		aud: clientId,
+		iss: ISSUER,
+		iat,
+		exp: iat + VEHICLE_JWT_TTL_SECONDS,
+	} satisfies VehicleClaims);
+}
+
+export function issueUserJwt(address: string, clientId: string) {
+	const iat = now();
+	const header = base64url(
+		JSON.stringify({ alg: "RS256", typ: "JWT", kid: USER_KEY_ID }),
+	);
+	const payload = base64url(
+		JSON.stringify({
+			ethereum_address: address,
+			sub: address,
+			aud: clientId,
+			iss: ISSUER,
+			iat,
+			exp: iat + USER_JWT_TTL_SECONDS,
+		} satisfies UserClaims),
+	);
+	const signature = signWithKey(
+		"RSA-SHA256",
+		Buffer.from(`${header}.${payload}`),
+		userKeys.privateKey,
+	).toString("base64url");
+	return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * The key set that verifies user JWTs, as served by the auth server's /keys endpoint
+ */
+export function userJwks() {
+	return {
+		keys: [
+			{
+				...userKeys.publicKey.export({ format: "jwk" }),
+				kid: USER_KEY_ID,
+				alg: "RS256",
+				use: "sig",
+			},
+		],
+	};
+}
+
+/**
+ * Verify a JWT issued by the mock from an Authorization header
+ * @param authorization - The header value, `Bearer <jwt>`
+ * @returns The claims
+ * @throws If the header is missing, the signature does not match or the token expired
+ */
+export function verifyMockJwt<T extends { exp: number }>(
+	authorization: string | undefined,
+): T {
+	const token = authorization?.replace(/^Bearer\s+/i, "");
+	if (!token) {
+		throw new Error("Missing bearer token");
+	}
+
+	const [header, payload, signature] = token.split(".");
+	const expected = createHmac("sha256", SECRET)
+		.update(`${header}.${payload}`)
+		.digest("base64url");
+	if (!payload || signature !== expected) {
+		throw new Error("Invalid token signature");
+	}
+
+	const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as T;
+	if (claims.exp < now()) {
+		throw new Error("Token expired");
+	}
+	return claims;
+}
+
+/**
+ * Read the claims of any JWT without verifying it. The mock accepts developer JWTs from the real
+ * auth server too, so a `VITE_DIMO_DEVELOPER_JWT` that is already configured keeps working.
+ * @param authorization - The header value, `Bearer <jwt>`
+ * @throws If the header is missing or the token is malformed
+ */
+export function decodeJwtClaims<T>(authorization: string | undefined): T {
+	const payload = authorization?.replace(/^Bearer\s+/i, "").split(".")[1];
+	if (!payload) {
+		throw new Error("Missing bearer token");
+	}
+	return JSON.parse(Buffer.from(payload, "base64url").toString()) as T;
+}
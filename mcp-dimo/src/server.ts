@@ -0,0 +1,1116 @@
+import { DIMO } from '@dimo-network/data-sdk';
+import { z, type ZodRawShape } from 'zod';
+import { parse } from "graphql/language";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  SchemaSearchSchema,
+  type SchemaSource,
+  formatValidationErrors,
+  getSchemaSdl,
+  searchSchema,
+  validateQuery,
+} from "./helpers/schema";
+import {
+  TelemetryHistorySchema,
+  buildTelemetryHistoryQuery,
+  type SignalsData,
+  toTelemetrySeries,
+} from "./helpers/telemetry";
+import {
+  TripSegmentsSchema,
+  summarizeTrips,
+  tripHistoryArgs,
+} from "./helpers/trips";
+import {
+  getActiveAlertsByTokenId,
+  getDocumentsByTokenId,
+  isSupabaseConfigured,
+} from "./helpers/supabase";
+import {
+  explainDtcPrompt,
+  maintenancePlanPrompt,
+  tripReadinessCheckPrompt,
+  vehicleHealthReportPrompt,
+} from "./helpers/prompts";
+import {
+  CommandHistorySchema,
+  VEHICLE_COMMANDS,
+  VehicleCommandSchema,
+  consumeCommandConfirmation,
+  describeCommand,
+  executeVehicleCommand,
+  getCommandHistory,
+  requestCommandConfirmation,
+} from "./helpers/commands";
+import { DIMO_ENDPOINTS, createDimoClient } from "./helpers/endpoints";
+import { CASSETTE_MODE, REPLAY_AUTHORIZATION, upstreamFetch } from "./helpers/cassette";
+import {
+  type ApiClient,
+  type ClientAuthFailure,
+  type ClientScope,
+  authorizeClient,
+  clientLabel,
+  isKnownPrivilege,
+  isTokenIdAllowed,
+  privilegeScopes,
+} from "./helpers/clients";
+import { type RateLimitFailure, type Upstream, consumeRateLimit } from "./helpers/ratelimit";
+import { type ResponseCacheInfo, withResponseCache } from "./helpers/responsecache";
+import { currentRequestId, log, runWithRequestId } from "./helpers/logging";
+import { toolDuration } from "./helpers/metrics";
+import { callUpstream } from "./helpers/upstream";
+import { getVehicleJwt } from "./helpers/vehiclejwt";
+import { type BatchApi, VehicleBatchQuerySchema, runVehicleBatch } from "./helpers/batch";
+import { type LatestSignal, latestSignalPrivileges } from "./helpers/subscriptions";
+import { appendAudit, audited, recordVehicleAccess } from "./helpers/audit";
+
+/**
+ * The DIMO MCP server definition shared by every transport: stdio (src/index.ts) and Streamable HTTP
+ * plus the legacy REST routes (http-server.ts). Tools live in one registry, DIMO_TOOLS, so every
+ * transport exposes exactly the same tools, resources and prompts.
+ */
+
+// Endpoints come from DIMO_ENV / DIMO_API_BASE_URL / DIMO_*_URL, see helpers/endpoints
+const IDENTITY_URL = DIMO_ENDPOINTS.identity;
+const TELEMETRY_URL = DIMO_ENDPOINTS.telemetry;
+const DEVICES_API_URL = DIMO_ENDPOINTS.devices;
+
+// Schemas used to validate queries; point the *_SCHEMA_PATH variables at SDL files to work offline
+const IDENTITY_SCHEMA: SchemaSource = {
+  name: "Identity",
+  endpoint: IDENTITY_URL,
+  localPath: process.env.IDENTITY_SCHEMA_PATH,
+};
+const TELEMETRY_SCHEMA: SchemaSource = {
+  name: "Telemetry",
+  endpoint: TELEMETRY_URL,
+  localPath: process.env.TELEMETRY_SCHEMA_PATH,
+};
+
+/** Auth headers as the SDK returns them for developer and vehicle JWTs */
+interface JwtHeaders {
+  headers: { Authorization: string };
+}
+
+interface AuthState {
+  dimo?: DIMO;
+  developerJwt?: JwtHeaders;
+}
+
+const IdentityQuerySchema = z.object({
+  query: z.string(),
+  variables: z.record(z.string(), z.string()).optional(),
+  bypassCache: z.boolean().optional()
+});
+
+const TelemetryQuerySchema = z.object({
+  query: z.string(),
+  variables: z.record(z.string(), z.string()).optional(),
+  tokenId: z.number(),
+  bypassCache: z.boolean().optional()
+});
+
+const VinDecodeSchema = z.object({
+  vin: z.string().optional(),
+  tokenId: z.number().optional(),
+  countryCode: z.string().default("USA")
+});
+
+const AttestationCreateSchema = z.object({
+  tokenId: z.number(),
+  type: z.enum(["pom", "vin"]),
+  force: z.boolean().default(false)
+});
+
+const SearchVehiclesSchema = z.object({
+  query: z.string().optional(),
+  make: z.string().optional(),
+  year: z.number().optional(),
+  model: z.string().optional()
+});
+
+export const GetAuthenticationTokenSchema = z.object({
+  tokenId: z.number().int().nonnegative(),
+  privileges: z.array(z.number().int().refine(isKnownPrivilege, "unknown vehicle privilege")).optional()
+});
+
+export const authState: AuthState = {};
+
+/**
+ * Create the DIMO client and, when DIMO_CLIENT_ID, DIMO_DOMAIN and DIMO_PRIVATE_KEY are set,
+ * request a developer JWT
+ * @returns Whether the developer JWT was obtained
+ */
+export async function authenticateDeveloper() {
+  const env = process.env;
+
+  // Initialize DIMO with the configured environment and endpoints
+  authState.dimo = createDimoClient();
+
+  if (!env.DIMO_CLIENT_ID || !env.DIMO_DOMAIN || !env.DIMO_PRIVATE_KEY || env.DIMO_DOMAIN === "your_domain.com") {
+    return false;
+  }
+  try {
+    const dimo = authState.dimo;
+    authState.developerJwt = await callUpstream("auth", () => dimo.auth.getDeveloperJwt({
+      client_id: env.DIMO_CLIENT_ID!,
+      domain: env.DIMO_DOMAIN!,
+      private_key: env.DIMO_PRIVATE_KEY!
+    }), { idempotent: true });
+    log("info", "dimo_auth_success", { message: "DIMO developer authentication successful" });
+    return true;
+  } catch (error) {
+    log("error", "dimo_auth_failed", {
+      message: "Failed to auto-authenticate",
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
+
+/**
+ * Get a vehicle JWT with the given privileges, as SDK auth headers. Tokens come from the vehicle JWT
+ * store (helpers/vehiclejwt), which asks the token exchange for exactly these privileges when needed.
+ * @param options.force - Exchange a new token even when a cached one is valid
+ */
+export async function ensureVehicleJwt(
+  tokenId: number,
+  privileges: number[] = [1],
+  options: { force?: boolean } = {}
+): Promise<JwtHeaders & { expiresAt?: number }> {
+  if (CASSETTE_MODE === "replay") {
+    return { headers: { Authorization: REPLAY_AUTHORIZATION } };
+  }
+  if (!authState.dimo) {
+    throw new Error("DIMO not initialized.");
+  }
+  if (!authState.developerJwt) {
+    throw new Error("Not authenticated. Set DIMO_CLIENT_ID, DIMO_DOMAIN and DIMO_PRIVATE_KEY.");
+  }
+
+  const dimo = authState.dimo;
+  recordVehicleAccess(tokenId, privileges);
+  const { jwt, expiresAt } = await getVehicleJwt(
+    tokenId,
+    privileges,
+    async (exactPrivileges) => {
+      const exchanged = await callUpstream<{ headers: { Authorization: string } }>("tokenExchange", () => dimo.tokenexchange.exchange({
+        ...authState.developerJwt,
+        tokenId,
+        privileges: exactPrivileges
+      }), { idempotent: true });
+      return exchanged.headers.Authorization.replace(/^Bearer /, "");
+    },
+    options
+  );
+  return { headers: { Authorization: `Bearer ${jwt}` }, expiresAt };
+}
+
+// Callers that read fields of the response pass the shape of the data their query selects
+interface GraphQLResponse<Data = Record<string, unknown>> {
+  data?: Data;
+}
+
+type GraphQLResult<Data = Record<string, unknown>> =
+  | { ok: true; response: GraphQLResponse<Data>; cache?: ResponseCacheInfo }
+  | { ok: false; error: string };
+
+interface QueryOptions {
+  /** Skip the response cache and refresh the cached entry */
+  bypassCache?: boolean;
+}
+
+// Shared by the query tools and the vehicle resources. Repeated identity and latest-signal queries are
+// served from the response cache, see helpers/responsecache.
+async function queryIdentity<Data = Record<string, unknown>>(
+  query: string,
+  variables?: Record<string, unknown>,
+  options: QueryOptions = {}
+): Promise<GraphQLResult<Data>> {
+  const { value, cache } = await withResponseCache(
+    { api: "identity", query, variables, bypass: options.bypassCache },
+    async () => {
+      const result = await fetchIdentity<Data>(query, variables);
+      return { value: result, cacheable: result.ok };
+    }
+  );
+  return value.ok ? { ...value, cache } : value;
+}
+
+async function queryTelemetry<Data = Record<string, unknown>>(
+  tokenId: number,
+  query: string,
+  variables?: Record<string, unknown>,
+  privileges: number[] = [1, 2, 3, 4],
+  options: QueryOptions = {}
+): Promise<GraphQLResult<Data>> {
+  // Audited with the privileges the query needs, also when it is served from the cache
+  recordVehicleAccess(tokenId, privileges);
+  const { value, cache } = await withResponseCache(
+    { api: "telemetry", query, variables, tokenId, bypass: options.bypassCache },
+    async () => {
+      const result = await fetchTelemetry<Data>(tokenId, query, variables, privileges);
+      return { value: result, cacheable: result.ok };
+    }
+  );
+  return value.ok ? { ...value, cache } : value;
+}
+
+function latestSignalsQuery(signals: string[]) {
+  return `query SubscriptionSignals($tokenId: Int!) {
+  signalsLatest(tokenId: $tokenId) {
+${signals.map((signal) => `    ${signal} { value timestamp }`).join("\n")}
+  }
+}`;
+}
+
+/**
+ * Check signal names of webhook subscriptions against the telemetry schema
+ * @returns The validation errors, or undefined when every signal exists
+ */
+export async function validateLatestSignals(signals: string[]) {
+  const validationErrors = await validateQuery(TELEMETRY_SCHEMA, latestSignalsQuery(signals));
+  return validationErrors.length > 0 ? formatValidationErrors(TELEMETRY_SCHEMA, validationErrors) : undefined;
+}
+
+/**
+ * Latest value of the signals of a vehicle, for the subscription poller (helpers/subscriptions)
+ */
+export async function queryLatestSignals(
+  tokenId: number,
+  signals: string[]
+): Promise<{ data: Record<string, LatestSignal | null> } | { error: string }> {
+  const result = await queryTelemetry<{ signalsLatest?: Record<string, LatestSignal | null> }>(
+    tokenId,
+    latestSignalsQuery(signals),
+    { tokenId },
+    latestSignalPrivileges(signals)
+  );
+  if (!result.ok) {
+    return { error: result.error };
+  }
+  const latest = result.response.data?.signalsLatest ?? {};
+  return { data: Object.fromEntries(signals.map((signal) => [signal, latest[signal] ?? null])) };
+}
+
+async function fetchIdentity<Data>(query: string, variables?: Record<string, unknown>): Promise<GraphQLResult<Data>> {
+  const env = process.env;
+  const response = await upstreamFetch(IDENTITY_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(env.HEADERS ? JSON.parse(env.HEADERS) : {}),
+    },
+    body: JSON.stringify({
+      query,
+      variables,
+    }),
+  });
+  if (!response.ok) {
+    const responseText = await response.text();
+    return { ok: false, error: `GraphQL request failed: ${response.statusText}\n${responseText}` };
+  }
+  const data = await response.json();
+  if (data.errors && data.errors.length > 0) {
+    return { ok: false, error: `The GraphQL response has errors, please fix the query: ${JSON.stringify(data, null, 2)}` };
+  }
+  return { ok: true, response: data };
+}
+
+async function fetchTelemetry<Data>(
+  tokenId: number,
+  query: string,
+  variables: Record<string, unknown> | undefined,
+  privileges: number[]
+): Promise<GraphQLResult<Data>> {
+  const telemetryJwt = await ensureVehicleJwt(tokenId, privileges);
+  if (!telemetryJwt.headers || !telemetryJwt.headers.Authorization) {
+    return { ok: false, error: `GraphQL request failed due to a missing Authorization header. Ensure the vehicle is shared with the developer license and has the required privileges.` };
+  }
+  const headers = {
+    "Content-Type": "application/json",
+    "Authorization" : `${telemetryJwt.headers.Authorization}`,
+  };
+  const response = await upstreamFetch(TELEMETRY_URL, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      query,
+      variables,
+    }),
+  });
+  if (!response.ok) {
+    const responseText = await response.text();
+    return { ok: false, error: `GraphQL request failed: ${response.statusText}\n${responseText}` };
+  }
+  const data = await response.json();
+  if (data.errors && data.errors.length > 0) {
+    return { ok: false, error: `The GraphQL response has errors, please fix the query: ${JSON.stringify(data, null, 2)}` };
+  }
+  return { ok: true, response: data };
+}
+
+function toolError(text: string) {
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+    ],
+  };
+}
+
+function toolJson(value: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+export interface ToolContext {
+  /** Who called the tool: the MCP client name, or the source of a legacy REST call */
+  issuedBy: string;
+  /** Set by REST callers with Cache-Control: no-cache */
+  bypassCache?: boolean;
+  /** Authenticated HTTP client; undefined for stdio and when MCP_AUTH=off */
+  client?: ApiClient;
+  /** Rate limit bucket for calls without an API client, as passed to admitToolCall */
+  caller: string;
+}
+
+export interface DimoTool<Shape extends ZodRawShape = ZodRawShape> {
+  name: string;
+  description: string;
+  schema: z.ZodObject<Shape>;
+  /** Scopes a client needs to call the tool; a tokenId argument must also be on the client's allowlist */
+  scope: ClientScope | ClientScope[] | ((args: z.infer<z.ZodObject<Shape>>) => ClientScope | ClientScope[]);
+  /** DIMO APIs the tool calls, each rate limited separately */
+  upstreams?: Upstream[] | ((args: z.infer<z.ZodObject<Shape>>) => Upstream[]);
+  handler: (args: z.infer<z.ZodObject<Shape>>, context: ToolContext) => Promise<CallToolResult>;
+  /** `data` of the legacy REST response when it is not the tool's JSON output as is */
+  legacyData?: (output: unknown) => unknown;
+}
+
+function defineTool<Shape extends ZodRawShape>(tool: DimoTool<Shape>): DimoTool {
+  return tool as unknown as DimoTool;
+}
+
+/**
+ * Check a client may call a tool with these arguments, then take the call from its rate limits.
+ * Denied calls are audited here, admitted ones by runTool.
+ * @param caller - Rate limit bucket for calls without an API client, e.g. the transport
+ * @param transport - stdio, http, sse or rest, for the audit log
+ */
+export function admitToolCall(
+  tool: DimoTool,
+  args: Record<string, unknown>,
+  client: ApiClient | undefined,
+  caller: string,
+  transport: string
+): ClientAuthFailure | RateLimitFailure | undefined {
+  const scope = typeof tool.scope === "function" ? tool.scope(args) : tool.scope;
+  const tokenId = typeof args.tokenId === "number" ? args.tokenId : undefined;
+  const failure = authorizeClient(client, scope, tokenId) ?? consumeRateLimit({
+    caller: client?.id ?? caller,
+    tokenId,
+    upstreams: typeof tool.upstreams === "function" ? tool.upstreams(args) : tool.upstreams,
+  });
+  if (failure) {
+    log("warn", "tool_denied", { tool: tool.name, client: client?.id, tokenId, code: failure.code, message: failure.message });
+    void appendAudit({
+      actor: { transport, client, caller },
+      action: "tool",
+      name: tool.name,
+      tokenIds: auditTokenIds(args),
+      outcome: "denied",
+      code: failure.code,
+    });
+  }
+  return failure;
+}
+
+// Vehicles a call targets by its arguments; the vehicles it reads are added as they are accessed
+function auditTokenIds(args: Record<string, unknown>) {
+  return typeof args.tokenId === "number" ? [args.tokenId] : [];
+}
+
+/**
+ * Run a tool, recording its latency, logging the call and auditing it. The result carries the request ID
+ * in `_meta` so it can be matched with the logs.
+ * @param transport - stdio, http, sse or rest, for the metrics
+ */
+export function runTool(
+  tool: DimoTool,
+  args: Record<string, unknown>,
+  context: ToolContext,
+  transport: string
+): Promise<CallToolResult> {
+  // Keeps the ID of the HTTP request when there is one, stdio calls get a new one
+  return runWithRequestId(currentRequestId(), async () => {
+    const start = performance.now();
+    let outcome = "exception";
+    try {
+      const result = await audited(
+        {
+          actor: { transport, client: context.client, caller: context.caller, issuedBy: context.issuedBy },
+          action: "tool",
+          name: tool.name,
+          tokenIds: auditTokenIds(args),
+        },
+        () => tool.handler(args, context),
+        (toolResult) => (toolResult.isError ? "error" : "ok")
+      );
+      outcome = result.isError ? "error" : "ok";
+      return { ...result, _meta: { ...result._meta, requestId: currentRequestId() } };
+    } finally {
+      const seconds = (performance.now() - start) / 1000;
+      toolDuration.observe({ tool: tool.name, transport, outcome }, seconds);
+      log(outcome === "ok" ? "info" : "warn", "tool_call", {
+        tool: tool.name,
+        transport,
+        outcome,
+        durationMs: Math.round(seconds * 1000),
+        issuedBy: context.issuedBy,
+        // Argument values can carry queries, documents or addresses, so only their names are logged
+        tokenId: auditTokenIds(args)[0],
+        argKeys: Object.keys(args),
+      });
+    }
+  });
+}
+
+const VIN_LATEST_QUERY = `query VinLatest($tokenId: Int!) {
+  vinVCLatest(tokenId: $tokenId) {
+    vin
+  }
+}`;
+
+export const DIMO_TOOLS: DimoTool[] = [
+  defineTool({
+    name: "identity_query",
+    description: "Query the DIMO Identity GraphQL API. Introspect the schema with identity_schema before. Use this tool to fetch public identity data (such as user, developer license, aftermarketdevice, manufacturer, sacds, or vehicle info). Provide a GraphQL query string and variables as an object. No authentication required. Responses are cached for a few minutes; set bypassCache to force a fresh result.",
+    schema: IdentityQuerySchema,
+    scope: "identity:read",
+    upstreams: ["identity"],
+    handler: async (args, context) => {
+      try {
+        parse(args.query);
+      } catch (error) {
+        return toolError(`Invalid GraphQL query: ${error}`);
+      }
+      const validationErrors = await validateQuery(IDENTITY_SCHEMA, args.query);
+      if (validationErrors.length > 0) {
+        return toolError(formatValidationErrors(IDENTITY_SCHEMA, validationErrors));
+      }
+      try {
+        const result = await queryIdentity(args.query, args.variables, {
+          bypassCache: args.bypassCache || context.bypassCache,
+        });
+        if (!result.ok) {
+          return toolError(result.error);
+        }
+        return { ...toolJson(result.response), _meta: { cache: result.cache } };
+      } catch (error) {
+        throw new Error(`Failed to execute GraphQL query: ${error}`);
+      }
+    },
+    legacyData: (output) => (output as GraphQLResponse).data,
+  }),
+  defineTool({
+    name: "telemetry_query",
+    description: "Query the DIMO Telemetry GraphQL API for real-time or historical vehicle data. Check the schema before using telemetry_introspect. Use this tool to fetch telemetry (status, location, movement, VIN, attestations) for a specific vehicle. Requires vehicle to be shared with the developer license. Provide a GraphQL query string, as as well required variables as an object. Always provide tokenId in variables to query. signalsLatest responses are cached for a few seconds; set bypassCache to force a fresh result.",
+    schema: TelemetryQuerySchema,
+    scope: "telemetry:read",
+    upstreams: ["telemetry"],
+    handler: async (args, context) => {
+      try {
+        parse(args.query);
+      } catch (error) {
+        return toolError(`Invalid GraphQL query: ${error}`);
+      }
+      const validationErrors = await validateQuery(TELEMETRY_SCHEMA, args.query);
+      if (validationErrors.length > 0) {
+        return toolError(formatValidationErrors(TELEMETRY_SCHEMA, validationErrors));
+      }
+      try {
+        const result = await queryTelemetry(args.tokenId, args.query, args.variables, undefined, {
+          bypassCache: args.bypassCache || context.bypassCache,
+        });
+        if (!result.ok) {
+          return toolError(result.error);
+        }
+        return { ...toolJson(result.response), _meta: { cache: result.cache } };
+      } catch (error) {
+        throw new Error(`Failed to execute GraphQL query: ${error}`);
+      }
+    },
+    legacyData: (output) => (output as GraphQLResponse).data,
+  }),
+  defineTool({
+    name: "vehicle_batch_query",
+    description: "Run the same identity and/or telemetry GraphQL query for many vehicles in one call. Use this tool instead of repeated identity_query/telemetry_query calls when comparing a fleet. Provide tokenIds, and an identityQuery and/or telemetryQuery template that declares $tokenId: Int! (it is bound to each vehicle's tokenId; other variables go in variables). Set privileges to the vehicle JWT privileges the telemetry query needs (default 1-4). Vehicles are queried concurrently and each result carries its own data and errors.",
+    schema: VehicleBatchQuerySchema,
+    scope: (args) => (args.telemetryQuery ? privilegeScopes(args.privileges ?? [1, 2, 3, 4]) : "identity:read"),
+    handler: async (args, context) => {
+      const schemas: Record<BatchApi, SchemaSource> = { identity: IDENTITY_SCHEMA, telemetry: TELEMETRY_SCHEMA };
+      const templates = ([["identity", args.identityQuery], ["telemetry", args.telemetryQuery]] as const)
+        .filter(([, template]) => template !== undefined);
+      if (templates.length === 0) {
+        return toolError("Provide an identityQuery, a telemetryQuery or both.");
+      }
+      // Check the templates once rather than failing every vehicle on the same mistake
+      for (const [api, template] of templates) {
+        try {
+          parse(template!);
+        } catch (error) {
+          return toolError(`Invalid GraphQL ${api} query: ${error}`);
+        }
+        const validationErrors = await validateQuery(schemas[api], template!);
+        if (validationErrors.length > 0) {
+          return toolError(formatValidationErrors(schemas[api], validationErrors));
+        }
+      }
+
+      const bypassCache = args.bypassCache || context.bypassCache;
+      const summary = await runVehicleBatch(args, async (api, template, tokenId) => {
+        // Every vehicle is authorized and rate limited like a call of its own
+        const failure = authorizeClient(context.client, api === "identity" ? "identity:read" : privilegeScopes(args.privileges ?? [1, 2, 3, 4]), tokenId) ??
+          consumeRateLimit({ caller: context.client?.id ?? context.caller, tokenId, upstreams: [api] });
+        if (failure) {
+          return { error: `${failure.message} (${failure.code})` };
+        }
+        const variables = { ...args.variables, tokenId };
+        recordVehicleAccess(tokenId);
+        const result = api === "identity"
+          ? await queryIdentity(template, variables, { bypassCache })
+          : await queryTelemetry(tokenId, template, variables, args.privileges, { bypassCache });
+        return result.ok ? { data: result.response.data } : { error: result.error };
+      });
+      return toolJson(summary);
+    },
+  }),
+  defineTool({
+    name: "telemetry_history",
+    description: "Fetch an aggregated time series of telemetry signals for a vehicle. Use this tool instead of hand-writing signals(from,to,interval) queries. Provide the tokenId, a list of signal names (check telemetry_introspect for the available ones, e.g. speed, powertrainTransmissionTravelledDistance), an ISO 8601 from/to range, an interval such as 15m, 1h or 24h, and an aggregation (AVG, MIN, MAX or LAST) applied to each interval. Returns one timestamp column and one value column per signal.",
+    schema: TelemetryHistorySchema,
+    scope: "telemetry:read",
+    upstreams: ["telemetry"],
+    handler: async (args) => {
+      try {
+        const result = await queryTelemetry<SignalsData>(args.tokenId, buildTelemetryHistoryQuery(args));
+        if (!result.ok) {
+          return toolError(`${result.error}\nCheck the signal names with telemetry_introspect.`);
+        }
+        return toolJson(toTelemetrySeries(args, result.response.data));
+      } catch (error) {
+        throw new Error(`Failed to fetch telemetry history: ${error}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "trip_segments",
+    description: "Detect the trips a vehicle took in a time range. Use this tool to answer questions such as how many trips were taken last week or how far the vehicle drove. Trips are derived from isIgnitionOn, speed and odometer history. Provide the tokenId and an ISO 8601 from/to range; optionally tune interval (default 1m), idleSpeedKmh, maxGapMinutes and minDurationMinutes. Returns start/end time, distance, duration, max speed and idle time per trip plus totals.",
+    schema: TripSegmentsSchema,
+    scope: "telemetry:read",
+    upstreams: ["telemetry"],
+    handler: async (args) => {
+      try {
+        const historyArgs = tripHistoryArgs(args);
+        const result = await queryTelemetry<SignalsData>(args.tokenId, buildTelemetryHistoryQuery(historyArgs));
+        if (!result.ok) {
+          return toolError(result.error);
+        }
+        return toolJson(summarizeTrips(args, toTelemetrySeries(historyArgs, result.response.data)));
+      } catch (error) {
+        throw new Error(`Failed to detect trips: ${error}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "vin_decode",
+    description: "Decode a VIN using DIMO. Use this tool to decode a VIN string (get make/model/year/etc). For decoding, provide the VIN and (optionally) countryCode. For fetching, provide the tokenId instead: the VIN is read from the vehicle's latest VIN credential (privilege 5) and decoded.",
+    schema: VinDecodeSchema,
+    scope: (args) => (args.vin ? "identity:read" : "telemetry:read"),
+    upstreams: (args) => (args.vin ? ["deviceDefinitions"] : ["telemetry", "deviceDefinitions"]),
+    handler: async (args) => {
+      if (!authState.developerJwt) {
+        throw new Error("Not authenticated");
+      }
+      let vin = args.vin;
+      if (!vin) {
+        if (!args.tokenId) {
+          return toolError("Provide a vin to decode, or the tokenId of a vehicle to fetch its VIN.");
+        }
+        const result = await queryTelemetry<{ vinVCLatest?: { vin?: string } | null }>(
+          args.tokenId,
+          VIN_LATEST_QUERY,
+          { tokenId: args.tokenId },
+          [1, 5]
+        );
+        if (!result.ok) {
+          return toolError(result.error);
+        }
+        vin = result.response.data?.vinVCLatest?.vin;
+        if (!vin) {
+          return toolError(`Vehicle ${args.tokenId} has no VIN credential. Create one with attestation_create (type "vin").`);
+        }
+      }
+      const decoded = await callUpstream<Record<string, unknown>>("deviceDefinitions", () => authState.dimo!.devicedefinitions.decodeVin({
+        ...authState.developerJwt,
+        vin,
+        countryCode: args.countryCode
+      }), { idempotent: true });
+      return toolJson(args.vin ? decoded : { vin, ...decoded });
+    },
+  }),
+  defineTool({
+    name: "attestation_create",
+    description: "Create a verifiable credential (VC) for a vehicle. Use this tool to generate a Proof of Movement (PoM) or VIN credential for a vehicle, which can be used to prove vehicle activity or identity. Provide the tokenId and type ('pom' or 'vin'). Optionally force creation even if one exists.",
+    schema: AttestationCreateSchema,
+    scope: "attestations:write",
+    upstreams: ["attest"],
+    handler: async (args) => {
+      const requiredPrivilege = args.type === "pom" ? 4 : 5;
+      const attestJwt = await ensureVehicleJwt(args.tokenId, [requiredPrivilege]);
+      let attestResult;
+      if (args.type === "pom") {
+        attestResult = await callUpstream("attest", () => authState.dimo!.attestation.createPomVC({
+          ...attestJwt,
+          tokenId: args.tokenId
+        }));
+      } else {
+        attestResult = await callUpstream("attest", () => authState.dimo!.attestation.createVinVC({
+          ...attestJwt,
+          tokenId: args.tokenId,
+          force: args.force
+        }));
+      }
+      return toolJson(attestResult);
+    },
+  }),
+  defineTool({
+    name: "search_vehicles",
+    description: "Search for vehicle definitions and information in DIMO. Use this tool to look up supported makes, models, and years, or to find vehicles matching a query. You can filter by make, model, year, or a free-text query.",
+    schema: SearchVehiclesSchema,
+    scope: "identity:read",
+    upstreams: ["deviceDefinitions"],
+    handler: async (args) => {
+      if (!authState.dimo) {
+        throw new Error("DIMO not initialized");
+      }
+      const searchParams: Record<string, string | number> = {};
+      if (args.query) searchParams.query = args.query;
+      if (args.make) searchParams.makeSlug = args.make;
+      if (args.year) searchParams.year = args.year;
+      if (args.model) searchParams.model = args.model;
+      const dimo = authState.dimo;
+      return toolJson(
+        await callUpstream("deviceDefinitions", () => dimo.devicedefinitions.search(searchParams), { idempotent: true })
+      );
+    },
+  }),
+  defineTool({
+    name: "identity_introspect",
+    description: "Introspect the DIMO Identity GraphQL endpoint and return the full schema SDL. Use this tool to discover the structure of the public identity API. The SDL is large; prefer schema_search to look up specific types or fields.",
+    schema: z.object({}),
+    scope: "identity:read",
+    handler: async () => ({
+      content: [
+        {
+          type: "text",
+          text: await getSchemaSdl(IDENTITY_SCHEMA),
+        },
+      ],
+    }),
+  }),
+  defineTool({
+    name: "telemetry_introspect",
+    description: "Introspect the DIMO Telemetry GraphQL endpoint and return the full schema SDL. Use this tool to discover the structure of the telemetry API. The SDL is large; prefer schema_search to look up specific signals or fields.",
+    schema: z.object({}),
+    scope: "identity:read",
+    handler: async () => ({
+      content: [
+        {
+          type: "text",
+          text: await getSchemaSdl(TELEMETRY_SCHEMA),
+        },
+      ],
+    }),
+  }),
+  defineTool({
+    name: "schema_search",
+    description: "Search the Identity or Telemetry GraphQL schema for types, fields and enum values whose name or description contains a keyword (e.g. \"battery\", \"tire\", \"odometer\"). Returns each match with its field signature and description. Use this instead of the introspect tools to find signal and field names.",
+    schema: SchemaSearchSchema,
+    scope: "identity:read",
+    handler: async (args) => {
+      try {
+        const source = args.api === "identity" ? IDENTITY_SCHEMA : TELEMETRY_SCHEMA;
+        return toolJson(await searchSchema(source, args.keyword, args.limit));
+      } catch (error) {
+        return toolError(`Failed to search the schema: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "get_authentication_token",
+    description: "Get an authentication token for a specific vehicle. This token can be used to authenticate with the Telemetry API. Over HTTP, API clients only get the token's expiry; the server keeps the token for their telemetry calls.",
+    schema: GetAuthenticationTokenSchema,
+    scope: (args) => privilegeScopes(args.privileges ?? [1]),
+    handler: async (args, { client }) => {
+      try {
+        const vehicleJwt = await ensureVehicleJwt(args.tokenId, args.privileges);
+        // A raw vehicle JWT would let the client query DIMO beyond its scopes and vehicle allowlist
+        if (client) {
+          return toolJson({ tokenId: args.tokenId, privileges: args.privileges ?? [1], expiresAt: vehicleJwt.expiresAt });
+        }
+        return toolJson(vehicleJwt);
+      } catch (error) {
+        return toolError(`Failed to get authentication token: ${error}`);
+      }
+    },
+  }),
+  // Remote commands are generated from the shared registry and require a confirmation round trip
+  ...VEHICLE_COMMANDS.map((command) =>
+    defineTool({
+      name: command.name,
+      description: describeCommand(command),
+      schema: VehicleCommandSchema,
+      scope: "commands:write",
+      upstreams: ["devices"],
+      handler: async (args, { issuedBy }) => {
+        try {
+          if (!args.confirmationToken) {
+            return toolJson(requestCommandConfirmation(command, args.tokenId, issuedBy));
+          }
+          consumeCommandConfirmation(command, args.tokenId, issuedBy, args.confirmationToken);
+
+          const commandJwt = await ensureVehicleJwt(args.tokenId, command.privileges);
+          if (!commandJwt.headers || !commandJwt.headers.Authorization) {
+            return toolError(`Request failed due to a missing Authorization header.`);
+          }
+
+          const record = await executeVehicleCommand(
+            DEVICES_API_URL,
+            command,
+            args.tokenId,
+            `${commandJwt.headers.Authorization}`,
+            issuedBy
+          );
+          if (!record.success) {
+            return toolError(`${record.error}\n${JSON.stringify(record.upstreamResponse, null, 2)}`);
+          }
+          return toolJson(record);
+        } catch (error) {
+          return toolError(`Failed to execute command: ${error instanceof Error ? error.message : error}`);
+        }
+      },
+    })
+  ),
+  defineTool({
+    name: "command_history",
+    description: "List the remote commands executed through this server, most recent first, with who issued them and the upstream response. Optionally filter by tokenId.",
+    schema: CommandHistorySchema,
+    scope: "commands:write",
+    handler: async (args, { client }) =>
+      toolJson(getCommandHistory(args.tokenId, args.limit, (tokenId) => isTokenIdAllowed(client, tokenId))),
+  }),
+];
+
+const VEHICLE_IDENTITY_QUERY = `query VehicleIdentity($tokenId: Int!) {
+  vehicle(tokenId: $tokenId) {
+    tokenId
+    owner
+    mintedAt
+    definition {
+      id
+      make
+      model
+      year
+    }
+  }
+}`;
+
+const LATEST_SIGNALS_QUERY = `query LatestSignals($tokenId: Int!) {
+  signalsLatest(tokenId: $tokenId) {
+    lastSeen
+    speed { value timestamp }
+    isIgnitionOn { value timestamp }
+    powertrainTransmissionTravelledDistance { value timestamp }
+    powertrainFuelSystemRelativeLevel { value timestamp }
+    powertrainTractionBatteryStateOfChargeCurrent { value timestamp }
+    lowVoltageBatteryCurrentVoltage { value timestamp }
+    exteriorAirTemperature { value timestamp }
+  }
+}`;
+
+const SHARED_VEHICLES_QUERY = `query SharedVehicles($privileged: Address!) {
+  vehicles(first: 100, filterBy: { privileged: $privileged }) {
+    nodes {
+      tokenId
+      definition {
+        make
+        model
+        year
+      }
+    }
+  }
+}`;
+
+interface SharedVehicle {
+  tokenId: number;
+  definition?: { make?: string; model?: string; year?: number } | null;
+}
+
+// Lists every vehicle shared with the developer license so clients can browse the resource templates
+async function listSharedVehicleResources(resource: string, label: string, client?: ApiClient) {
+  const clientId = process.env.DIMO_CLIENT_ID;
+  if (!clientId) {
+    return { resources: [] };
+  }
+  const result = await queryIdentity<{ vehicles?: { nodes: SharedVehicle[] } }>(SHARED_VEHICLES_QUERY, { privileged: clientId });
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  const nodes = (result.response.data?.vehicles?.nodes ?? []).filter((vehicle) =>
+    isTokenIdAllowed(client, vehicle.tokenId)
+  );
+  return {
+    resources: nodes.map((vehicle) => {
+      const def = vehicle.definition ?? {};
+      const name = `${def.year ?? ""} ${def.make ?? ""} ${def.model ?? ""}`.trim() || `Vehicle ${vehicle.tokenId}`;
+      return {
+        uri: `dimo://vehicle/${vehicle.tokenId}/${resource}`,
+        name: `${name} ${label}`,
+        mimeType: "application/json",
+      };
+    }),
+  };
+}
+
+interface ResourceCaller {
+  client?: ApiClient;
+  /** Rate limit bucket when there is no API client */
+  transport: string;
+}
+
+// Reads a vehicle resource: parses the tokenId of the URI, checks the client may read it, takes the read
+// from the rate limits and audits it
+async function readVehicleResource<T>(
+  name: string,
+  variables: Record<string, string | string[]>,
+  caller: ResourceCaller,
+  scope: ClientScope,
+  upstreams: Upstream[],
+  read: (tokenId: number) => Promise<T>
+) {
+  const tokenId = Number(Array.isArray(variables.tokenId) ? variables.tokenId[0] : variables.tokenId);
+  if (!Number.isInteger(tokenId) || tokenId <= 0) {
+    throw new Error(`Invalid vehicle tokenId: ${variables.tokenId}`);
+  }
+  const actor = { transport: caller.transport, client: caller.client, caller: caller.transport };
+  const failure = authorizeClient(caller.client, scope, tokenId) ??
+    consumeRateLimit({ caller: caller.client?.id ?? caller.transport, tokenId, upstreams });
+  if (failure) {
+    await appendAudit({ actor, action: "resource", name, tokenIds: [tokenId], outcome: "denied", code: failure.code });
+    throw new Error(JSON.stringify(failure));
+  }
+  return audited({ actor, action: "resource", name, tokenIds: [tokenId] }, () => read(tokenId));
+}
+
+function jsonResource(uri: URL, value: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+function registerResources(server: McpServer, caller: ResourceCaller) {
+  server.resource(
+    "vehicle_identity",
+    new ResourceTemplate("dimo://vehicle/{tokenId}/identity", {
+      list: () => listSharedVehicleResources("identity", "identity", caller.client),
+    }),
+    {
+      description: "Public identity of a vehicle: owner, mint date and make/model/year.",
+      mimeType: "application/json",
+    },
+    (uri, variables) =>
+      readVehicleResource("vehicle_identity", variables, caller, "identity:read", ["identity"], async (tokenId) => {
+        const result = await queryIdentity(VEHICLE_IDENTITY_QUERY, { tokenId });
+        if (!result.ok) {
+          throw new Error(result.error);
+        }
+        return jsonResource(uri, result.response.data?.vehicle ?? null);
+      })
+  );
+
+  server.resource(
+    "vehicle_latest_signals",
+    new ResourceTemplate("dimo://vehicle/{tokenId}/latest-signals", {
+      list: () => listSharedVehicleResources("latest-signals", "latest signals", caller.client),
+    }),
+    {
+      description: "Most recent telemetry values reported by a vehicle. Requires the vehicle to be shared with the developer license.",
+      mimeType: "application/json",
+    },
+    (uri, variables) =>
+      readVehicleResource("vehicle_latest_signals", variables, caller, "telemetry:read", ["telemetry"], async (tokenId) => {
+        const result = await queryTelemetry(tokenId, LATEST_SIGNALS_QUERY, { tokenId });
+        if (!result.ok) {
+          throw new Error(result.error);
+        }
+        return jsonResource(uri, result.response.data?.signalsLatest ?? null);
+      })
+  );
+
+  server.resource(
+    "vehicle_documents",
+    new ResourceTemplate("dimo://vehicle/{tokenId}/documents", {
+      list: isSupabaseConfigured()
+        ? () => listSharedVehicleResources("documents", "documents", caller.client)
+        : undefined,
+    }),
+    {
+      description: "Documents (registration, insurance, service receipts) uploaded for a vehicle, with their extracted data. Requires SUPABASE_URL and SUPABASE_KEY.",
+      mimeType: "application/json",
+    },
+    (uri, variables) =>
+      readVehicleResource("vehicle_documents", variables, caller, "telemetry:read", [], async (tokenId) =>
+        jsonResource(uri, await getDocumentsByTokenId(tokenId))
+      )
+  );
+
+  server.resource(
+    "vehicle_alerts",
+    new ResourceTemplate("dimo://vehicle/{tokenId}/alerts", {
+      list: isSupabaseConfigured()
+        ? () => listSharedVehicleResources("alerts", "alerts", caller.client)
+        : undefined,
+    }),
+    {
+      description: "Active upcoming alerts for a vehicle, such as registration or insurance expiry and service due dates. Requires SUPABASE_URL and SUPABASE_KEY.",
+      mimeType: "application/json",
+    },
+    (uri, variables) =>
+      readVehicleResource("vehicle_alerts", variables, caller, "telemetry:read", [], async (tokenId) =>
+        jsonResource(uri, await getActiveAlertsByTokenId(tokenId))
+      )
+  );
+}
+
+function registerPrompts(server: McpServer) {
+  server.prompt(
+    "vehicle_health_report",
+    "Health report for a vehicle: gathers identity, latest signals, 7-day trends and alerts, then scores each system and prioritizes recommendations.",
+    {
+      tokenId: z.string().describe("Vehicle token ID"),
+      focus: z.string().optional().describe("System to focus on, e.g. battery, engine or tires"),
+    },
+    ({ tokenId, focus }) => ({
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text: vehicleHealthReportPrompt(tokenId, focus) },
+        },
+      ],
+    })
+  );
+
+  server.prompt(
+    "trip_readiness_check",
+    "Checks whether a vehicle is ready for a trip using latest signals and recent trips, and lists blockers, warnings and preparation steps.",
+    {
+      tokenId: z.string().describe("Vehicle token ID"),
+      destination: z.string().optional().describe("Where the trip goes"),
+      distanceKm: z.string().optional().describe("Approximate trip distance in kilometers"),
+    },
+    ({ tokenId, destination, distanceKm }) => ({
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text: tripReadinessCheckPrompt(tokenId, destination, distanceKm) },
+        },
+      ],
+    })
+  );
+
+  server.prompt(
+    "maintenance_plan",
+    "Maintenance schedule for a vehicle based on its make/model, mileage trend, service documents and upcoming alerts.",
+    {
+      tokenId: z.string().describe("Vehicle token ID"),
+      months: z.string().optional().describe("Planning horizon in months (default 6)"),
+    },
+    ({ tokenId, months }) => ({
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text: maintenancePlanPrompt(tokenId, months) },
+        },
+      ],
+    })
+  );
+
+  server.prompt(
+    "explain_dtc",
+    "Explains a vehicle's diagnostic trouble codes: meaning, likely causes, urgency and repair cost.",
+    {
+      tokenId: z.string().describe("Vehicle token ID"),
+      code: z.string().optional().describe("A specific code such as P0420; defaults to the vehicle's active codes"),
+    },
+    ({ tokenId, code }) => ({
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text: explainDtcPrompt(tokenId, code) },
+        },
+      ],
+    })
+  );
+}
+
+/**
+ * Build an MCP server with every DIMO tool, resource and prompt. Each connection (the stdio process,
+ * or one Streamable HTTP or SSE session) gets its own instance; they share the auth state, caches and
+ * command history of this module.
+ * @param transport - Reported as the issuer of remote commands when the client does not send its name
+ * @param client - Authenticated HTTP client whose scopes and tokenId allowlist gate every call
+ */
+export function createMcpServer(transport = "stdio", client?: ApiClient) {
+  const server = new McpServer(
+    {
+      name: "dimo-mcp-server",
+      version: "1.0.0",
+    }
+  );
+
+  for (const tool of DIMO_TOOLS) {
+    server.tool(tool.name, tool.description, tool.schema.shape, (args) => {
+      const failure = admitToolCall(tool, args, client, transport, transport);
+      if (failure) {
+        return toolError(JSON.stringify(failure, null, 2));
+      }
+      return runTool(tool, args, {
+        issuedBy: client ? clientLabel(client) : server.server.getClientVersion()?.name ?? transport,
+        client,
+        caller: transport,
+      }, transport);
+    });
+  }
+  registerResources(server, { client, transport });
+  registerPrompts(server);
+
+  return server;
+}
@@ -19,6 +19,8 @@ import {
   Database,
   RefreshCw
 } from "lucide-react";
+import { DIMO_ENDPOINTS } from "@/config/dimoEndpoints";
+import { MCP_PROXY_URL, mcpAuthHeaders } from "@/services/dimoMcpClient";
 
 interface Message {
   id: string;
@@ -45,14 +47,14 @@ interface Conversation {
 // Direct MCP server communication
 const callMcpServer = async (endpoint: string, data: any) => {
   try {
-    const mcpServerUrl = import.meta.env.VITE_MCP_SERVER_URL || 'http://localhost:3001';
-    console.log(`MCP Call: ${endpoint} to ${mcpServerUrl}/mcp/tools/${endpoint}`);
+    console.log(`MCP Call: ${endpoint} to ${MCP_PROXY_URL}/mcp/tools/${endpoint}`);
     console.log('MCP Request data:', data);
     
-    const response = await fetch(`${mcpServerUrl}/mcp/tools/${endpoint}`, {
+    const response = await fetch(`${MCP_PROXY_URL}/mcp/tools/${endpoint}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...mcpAuthHeaders(),
       },
       body: JSON.stringify({ params: data }),
     });
@@ -277,6 +279,26 @@ const performRealAIAnalysis = async (query: string, vehicleTokenId: number) => {
       console.error('Telemetry query failed:', error);
     }
 
+    // Get trips for the past week, derived from ignition/speed/odometer history
+    try {
+      const oneWeekAgo = new Date();
+      oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
+      const tripsResult = await callMcpServer('trip_segments', {
+        tokenId: vehicleTokenId,
+        from: oneWeekAgo.toISOString(),
+        to: new Date().toISOString()
+      });
+
+      if (tripsResult.success && tripsResult.data) {
+        vehicleData.trips = tripsResult.data;
+        console.log('Vehicle trips retrieved:', vehicleData.trips.tripCount);
+      } else {
+        console.warn('Trip detection failed or no data returned:', tripsResult);
+      }
+    } catch (error) {
+      console.error('Trip detection failed:', error);
+    }
+
     // Check if we have any meaningful vehicle data
     console.log('Vehicle data collected:', vehicleData);
     if (!vehicleData.identity && !vehicleData.telemetry) {
@@ -413,6 +435,7 @@ You have access to comprehensive telemetry data including:
 - Door and window status
 - Environmental conditions (temperature)
 - Historical data with aggregations (MAX, AVG) for trend analysis
+- Trips taken in the past week (start/end time, distance in km, duration, max speed and idle time per trip, plus totals)
 
 Use this rich data to provide detailed analysis including:
 - Current vehicle status and health assessment
@@ -517,50 +540,42 @@ const performFleetAIAnalysis = async (query: string, vehicleTokenIds: number[])
   console.log('Vehicle Token IDs:', vehicleTokenIds);
   
   try {
-    const vehicles: any[] = [];
-
-    for (const tokenId of vehicleTokenIds) {
-      console.log(`Processing vehicle ${tokenId}...`);
-      const vehicleData: any = { tokenId };
-      try {
-        const identityResult = await callMcpServer('identity_query', {
-          query: `{
-            vehicle(tokenId: ${tokenId}) {
-              tokenId
-              definition { make model year }
-            }
-          }`,
-          variables: {}
-        });
-        if (identityResult.success && identityResult.data?.vehicle) {
-          vehicleData.identity = identityResult.data.vehicle;
-          console.log(`Vehicle ${tokenId} identity retrieved:`, vehicleData.identity);
-        } else {
-          console.warn(`Vehicle ${tokenId} identity failed:`, identityResult);
+    // One batch call for the whole fleet; the MCP server queries the vehicles concurrently
+    const vehicles: any[] = vehicleTokenIds.map((tokenId) => ({ tokenId }));
+    try {
+      const batchResult = await callMcpServer('vehicle_batch_query', {
+        tokenIds: vehicleTokenIds,
+        identityQuery: `query FleetIdentity($tokenId: Int!) {
+          vehicle(tokenId: $tokenId) {
+            tokenId
+            definition { make model year }
+          }
+        }`,
+        telemetryQuery: `query FleetTelemetry($tokenId: Int!) {
+          signalsLatest(tokenId: $tokenId) {
+            speed { value timestamp }
+            powertrainFuelSystemRelativeLevel { value timestamp }
+            powertrainTransmissionTravelledDistance { value timestamp }
+            exteriorAirTemperature { value timestamp }
+          }
+        }`
+      });
+      for (const result of batchResult.data?.results ?? []) {
+        const vehicleData = vehicles.find((vehicle) => vehicle.tokenId === result.tokenId);
+        if (!vehicleData) continue;
+        if (result.identity?.vehicle) {
+          vehicleData.identity = result.identity.vehicle;
         }
-      } catch (error) {
-        console.error(`Vehicle ${tokenId} identity error:`, error);
-      }
-
-      try {
-        const currentTelemetryResult = await callMcpServer('telemetry_query', {
-          query: `{
-            signalsLatest(tokenId: ${tokenId}) {
-              speed { value timestamp }
-              powertrainFuelSystemRelativeLevel { value timestamp }
-              powertrainTransmissionTravelledDistance { value timestamp }
-              exteriorAirTemperature { value timestamp }
-            }
-          }`,
-          variables: {},
-          tokenId
-        });
-        if (currentTelemetryResult.success) {
-          vehicleData.telemetry = { current: currentTelemetryResult.data?.signalsLatest };
+        if (result.telemetry) {
+          vehicleData.telemetry = { current: result.telemetry.signalsLatest };
         }
-      } catch {}
-
-      vehicles.push(vehicleData);
+        if (result.errors) {
+          console.warn(`Vehicle ${result.tokenId} fleet data incomplete:`, result.errors);
+        }
+      }
+      console.log(`Fleet data retrieved: ${batchResult.data?.succeeded ?? 0}/${vehicleTokenIds.length} vehicles complete`);
+    } catch (error) {
+      console.error('Fleet batch query error:', error);
     }
 
     const systemMessage = {
@@ -667,7 +682,7 @@ export const AIChatEnhanced: React.FC = () => {
           // 4) If we still have fewer than 2 vehicles, fetch from Identity API using jwt + wallet
           if (list.length < 2 && parsed?.jwt && parsed?.walletAddress) {
             try {
-              const response = await fetch('https://identity-api.dimo.zone/query', {
+              const response = await fetch(DIMO_ENDPOINTS.identity, {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
@@ -746,10 +761,9 @@ export const AIChatEnhanced: React.FC = () => {
     const loadInitialData = async () => {
       try {
         // Check MCP server health
-        const mcpServerUrl = import.meta.env.VITE_MCP_SERVER_URL || 'http://localhost:3001';
-        console.log('Checking MCP server health at:', mcpServerUrl);
+        console.log('Checking MCP server health at:', MCP_PROXY_URL);
         try {
-          const healthResponse = await fetch(`${mcpServerUrl}/health`);
+          const healthResponse = await fetch(`${MCP_PROXY_URL}/health`);
           console.log('MCP health response status:', healthResponse.status);
           if (healthResponse.ok) {
             const healthData = await healthResponse.json();
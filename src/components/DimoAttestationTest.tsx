@@ -2,9 +2,12 @@ import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { DimoAttestationService } from '@/services/dimoAttestationService';
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { DimoAttestationService, isAttestationFailure } from '@/services/dimoAttestationService';
 import { DEFAULT_PRIVACY_SETTINGS } from '@/types/privacy';
-import { CheckCircle, XCircle, Loader2 } from "lucide-react";
+import { verifyAttestation, type AttestationVerification } from '@/lib/attestationVerification';
+import { AlertTriangle, CheckCircle, XCircle, Loader2 } from "lucide-react";
 
 export const DimoAttestationTest: React.FC = () => {
   const [isTesting, setIsTesting] = useState(false);
@@ -17,19 +20,25 @@ export const DimoAttestationTest: React.FC = () => {
     attestation: null
   });
 
-  const attestationService = new DimoAttestationService(
-    import.meta.env.VITE_DIMO_CLIENT_ID || '',
-    import.meta.env.VITE_DIMO_API_KEY || '',
-    import.meta.env.VITE_DIMO_DOMAIN || ''
-  );
+  const [attestationService] = useState(() => new DimoAttestationService());
+  const [signer, setSigner] = useState<string | null>(null);
+  const [lastEvent, setLastEvent] = useState('');
+  const [eventToVerify, setEventToVerify] = useState('');
+  const [expectedSigner, setExpectedSigner] = useState(import.meta.env.VITE_DIMO_ATTESTOR_ADDRESS ?? '');
+  const [verification, setVerification] = useState<AttestationVerification | null>(null);
 
   const testConnection = async () => {
     setIsTesting(true);
     setTestResults({ connection: null, attestation: null });
     
     try {
-      const success = await attestationService.testConnection();
-      setTestResults(prev => ({ ...prev, connection: success }));
+      const result = await attestationService.testConnection();
+      if (isAttestationFailure(result)) {
+        setTestResults(prev => ({ ...prev, connection: false, error: result.error }));
+      } else {
+        setSigner(result.signer);
+        setTestResults(prev => ({ ...prev, connection: true }));
+      }
     } catch (error) {
       setTestResults(prev => ({ 
         ...prev, 
@@ -65,13 +74,20 @@ export const DimoAttestationTest: React.FC = () => {
         }
       };
 
-      const success = await attestationService.createDocumentAttestation(
+      const result = await attestationService.createDocumentAttestation(
         mockDocument,
         8, // Test vehicle token ID
         DEFAULT_PRIVACY_SETTINGS
       );
       
-      setTestResults(prev => ({ ...prev, attestation: success }));
+      setTestResults(prev => ({
+        ...prev,
+        attestation: result.success,
+        error: isAttestationFailure(result) ? result.error : undefined
+      }));
+      if (result.success) {
+        setLastEvent(JSON.stringify(result.event, null, 2));
+      }
     } catch (error) {
       setTestResults(prev => ({ 
         ...prev, 
@@ -83,6 +99,19 @@ export const DimoAttestationTest: React.FC = () => {
     }
   };
 
+  // Fully offline: nothing leaves the browser
+  const verifyEvent = () => {
+    setVerification(verifyAttestation(eventToVerify, {
+      expectedSigner: expectedSigner.trim() || undefined
+    }));
+  };
+
+  const loadEventFile = async (file: File | undefined) => {
+    if (!file) return;
+    setEventToVerify(await file.text());
+    setVerification(null);
+  };
+
   return (
     <Card className="w-full max-w-2xl">
       <CardHeader>
@@ -90,11 +119,10 @@ export const DimoAttestationTest: React.FC = () => {
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="space-y-2">
-          <h3 className="font-semibold">Environment Variables</h3>
+          <h3 className="font-semibold">Server Signer</h3>
           <div className="text-sm space-y-1">
-            <div>Client ID: {import.meta.env.VITE_DIMO_CLIENT_ID ? '✅ Set' : '❌ Missing'}</div>
-            <div>Domain: {import.meta.env.VITE_DIMO_DOMAIN ? '✅ Set' : '❌ Missing'}</div>
-            <div>API Key: {import.meta.env.VITE_DIMO_API_KEY ? '✅ Set' : '❌ Missing'}</div>
+            <div>Signing key: held by the server (DIMO_PRIVATE_KEY or DIMO_SIGNER_KEY_FILE)</div>
+            <div>Signer address: {signer ?? 'Run the connection test'}</div>
           </div>
         </div>
 
@@ -163,6 +191,75 @@ export const DimoAttestationTest: React.FC = () => {
           </Button>
         </div>
 
+        <div className="space-y-2">
+          <h3 className="font-semibold">Verify Attestation</h3>
+          <p className="text-xs text-gray-500">
+            Paste or load a signed attestation CloudEvent. The signature, signer, subject DID and chain are checked offline.
+          </p>
+          <Textarea
+            value={eventToVerify}
+            onChange={(e) => {
+              setEventToVerify(e.target.value);
+              setVerification(null);
+            }}
+            placeholder='{"id": "dimo-ai-doc-...", "type": "dimo.attestation", "data": {...}, "signature": "0x..."}'
+            className="font-mono text-xs h-32"
+          />
+          <Input
+            value={expectedSigner}
+            onChange={(e) => setExpectedSigner(e.target.value)}
+            placeholder="Trusted attestor address (VITE_DIMO_ATTESTOR_ADDRESS)"
+            className="font-mono text-xs"
+          />
+          <div className="flex space-x-2">
+            <Input type="file" accept=".json,application/json" onChange={(e) => loadEventFile(e.target.files?.[0])} />
+            {lastEvent && (
+              <Button variant="outline" onClick={() => setEventToVerify(lastEvent)}>
+                Use Last Attestation
+              </Button>
+            )}
+            <Button onClick={verifyEvent} disabled={!eventToVerify.trim()}>
+              Verify
+            </Button>
+          </div>
+
+          {verification && (
+            <div className={`p-3 border rounded-md text-sm space-y-1 ${
+              verification.status === 'verified' ? 'bg-green-50 border-green-200' :
+              verification.status === 'unanchored' ? 'bg-amber-50 border-amber-200' : 'bg-red-50 border-red-200'
+            }`}>
+              <div className="flex items-center space-x-1 font-semibold">
+                {verification.status === 'verified' && <CheckCircle className="h-4 w-4 text-green-500" />}
+                {verification.status === 'unanchored' && <AlertTriangle className="h-4 w-4 text-amber-500" />}
+                {verification.status === 'invalid' && <XCircle className="h-4 w-4 text-red-500" />}
+                <span>
+                  {verification.status === 'verified' ? 'Valid attestation' :
+                    verification.status === 'unanchored' ? 'Signature consistent, signer not verified' : 'Invalid attestation'}
+                </span>
+              </div>
+              {verification.status === 'unanchored' && (
+                <div className="text-amber-700">
+                  Enter the trusted attestor address to check who signed it; anyone can sign an event naming their own address.
+                </div>
+              )}
+              {verification.signatureType && <div className="font-mono text-xs">Format: {verification.signatureType}</div>}
+              {verification.signer && <div className="font-mono text-xs">Signer: {verification.signer}</div>}
+              {verification.subject && (
+                <div className="font-mono text-xs">
+                  Vehicle: {verification.subject.tokenId} on chain {verification.subject.chainId}
+                </div>
+              )}
+              {verification.payloadHash && <div className="font-mono text-xs break-all">Payload hash: {verification.payloadHash}</div>}
+              {verification.mismatches.map((mismatch, index) => (
+                <div key={index} className="text-red-700">
+                  {mismatch.message}
+                  {mismatch.expected !== undefined && ` (expected ${mismatch.expected}, got ${mismatch.actual})`}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         <div className="text-xs text-gray-500">
           <p>This will test the DIMO attestation service with a mock document.</p>
           <p>Check the browser console for detailed logs.</p>
@@ -1,9 +1,20 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { 
   Upload, 
   FileText, 
@@ -21,14 +32,53 @@ import {
   Car,
   Calendar,
   MapPin,
-  DollarSign
+  DollarSign,
+  RefreshCw
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { db } from "@/lib/supabase";
+import { db, type Database } from "@/lib/supabase";
 import { getBestAvailableProcessor, DOCUMENT_PROCESSING_CONFIG } from "@/config/documentProcessing";
 import { VehicleMatcher, DocumentMatch } from "@/services/vehicleMatcher";
-import { DimoAttestationService } from "@/services/dimoAttestationService";
-import { DEFAULT_PRIVACY_SETTINGS } from "@/types/privacy";
+import {
+  DimoAttestationService,
+  DocumentAnalysis,
+  PreparedAttestation,
+  isAttestationFailure,
+} from "@/services/dimoAttestationService";
+import { verifyAttestation } from "@/lib/attestationVerification";
+import { createRedactionSalt } from "@/lib/redaction";
+import { DEFAULT_PRIVACY_SETTINGS, PrivacySettings } from "@/types/privacy";
+
+// One attempt to attest a document, as stored in the attestations table
+interface AttestationAttempt {
+  id: string;
+  status: 'attested' | 'failed';
+  cloudEventId?: string;
+  subject?: string; // Vehicle DID
+  payloadHash?: string;
+  upstreamStatus?: number;
+  error?: string;
+  signer?: string;
+  event?: string; // Signed CloudEvent JSON
+  redactionSalt?: string; // Proves the hashed fields of the event
+  createdAt: Date;
+}
+
+type AttestationRow = Database['public']['Tables']['attestations']['Row'];
+
+const toAttestationAttempt = (row: AttestationRow): AttestationAttempt => ({
+  id: row.id,
+  status: row.status,
+  cloudEventId: row.cloud_event_id ?? undefined,
+  subject: row.subject ?? undefined,
+  payloadHash: row.payload_hash ?? undefined,
+  upstreamStatus: row.upstream_status ?? undefined,
+  error: row.error ?? undefined,
+  signer: row.signer ?? undefined,
+  event: row.event ?? undefined,
+  redactionSalt: row.redaction_salt ?? undefined,
+  createdAt: new Date(row.created_at),
+});
 
 interface Document {
   id: string;
@@ -95,9 +145,33 @@ interface Document {
     };
   };
   status: 'uploading' | 'processing' | 'completed' | 'error';
-  dimoAttested?: boolean; // Track if document has been attested to DIMO
+  tokenId?: number; // Vehicle the document is attested for
+  attestations?: AttestationAttempt[]; // Attestation history, oldest first
+}
+
+// A document waiting for the user to approve what its attestation publishes
+interface AttestationReview {
+  documentId: string;
+  filename: string;
+  tokenId?: number; // Picked by the user when the document's vehicle is not known
+  processedData: DocumentAnalysis;
+  privacySettings: PrivacySettings;
+  salt: string; // Kept while the settings change, so the previewed hashes are the ones submitted
 }
 
+const PRIVACY_TOGGLES: { key: Exclude<keyof PrivacySettings, 'redactionMode'>; label: string }[] = [
+  { key: 'includeOwnerInfo', label: 'Owner name and address' },
+  { key: 'includePersonalDetails', label: 'Policy number and address' },
+  { key: 'includeFinancialInfo', label: 'Costs and premiums' },
+  { key: 'includeServiceDetails', label: 'Service provider and items' },
+  { key: 'includeDocumentMetadata', label: 'Extracted text' },
+];
+
+const formatRedactionValue = (value: unknown) => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
 interface DocumentUploadProps {
   vehicleId?: string; // Optional - will be determined by VIN matching
   tokenId?: number; // Add tokenId for document matching
@@ -113,21 +187,42 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
   const [vehicleMatcher] = useState(() => new VehicleMatcher());
   const [isProcessing, setIsProcessing] = useState(false);
   
-  // Initialize DIMO attestation service
-  const [dimoAttestationService] = useState(() => new DimoAttestationService(
-    import.meta.env.VITE_DIMO_CLIENT_ID || '',
-    import.meta.env.VITE_DIMO_API_KEY || '',
-    import.meta.env.VITE_DIMO_DOMAIN || ''
-  ));
+  // Attestations are signed by the server; the browser only sends the redacted document
+  const [dimoAttestationService] = useState(() => new DimoAttestationService());
+  const [retryingAttestations, setRetryingAttestations] = useState<Set<string>>(new Set());
+  const [attestationReview, setAttestationReview] = useState<AttestationReview | null>(null);
+  const attestationPreview = useMemo(
+    () => attestationReview && dimoAttestationService.prepareDocumentAttestation(
+      attestationReview.processedData,
+      attestationReview.privacySettings,
+      attestationReview.salt
+    ),
+    [attestationReview, dimoAttestationService]
+  );
   const [processingProgress, setProcessingProgress] = useState(0);
   const [processingStatus, setProcessingStatus] = useState('');
   const [processingStartTime, setProcessingStartTime] = useState<number | null>(null);
   const [estimatedTimeRemaining, setEstimatedTimeRemaining] = useState<number | null>(null);
 
   const DEMO_VEHICLE_UUID = '550e8400-e29b-41d4-a716-446655440000';
+  // Placeholder token ID of the dashboard's demo vehicle and of documents saved without a vehicle
+  const DEMO_TOKEN_ID = 999999;
+  const attestableTokenId = (value?: number | null) => (value && value !== DEMO_TOKEN_ID ? value : undefined);
   const isValidUuid = (value: any): value is string =>
     typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value);
 
+  // Helper: token IDs of the user's own and shared vehicles from stored auth
+  const getVehicleTokenIdsFromAuth = (): number[] => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem('dimoAuth') || '{}');
+      const candidates = [...(parsed.sharedVehicles || []), ...(parsed.vehicles || [])];
+      const ids = candidates.map((v: { tokenId?: unknown; id?: unknown }) => Number(v?.tokenId || v?.id)).filter((t) => Number.isInteger(t) && attestableTokenId(t));
+      return [...new Set(ids)];
+    } catch {
+      return [];
+    }
+  };
+
   // Helper: resolve user's primary tokenId from stored auth
   const getPrimaryTokenIdFromAuth = (): number | null => {
     try {
@@ -229,6 +324,14 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
           rows.push(...directRows);
         }
         
+        // Attestation history of the loaded documents
+        let attestationRows: AttestationRow[] = [];
+        try {
+          attestationRows = await db.getAttestationsForDocuments((rows || []).map((row) => row.id));
+        } catch (attestationError) {
+          console.warn('Failed to load attestation history:', attestationError);
+        }
+        
         const allDocuments: Document[] = (rows || []).map((row: any) => ({
           id: row.id,
           filename: row.filename,
@@ -239,6 +342,10 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
           processedData: row.processed_data ? JSON.parse(row.processed_data) : undefined,
           vin: undefined,
           status: 'completed',
+          tokenId: row.token_id,
+          attestations: attestationRows
+            .filter((attestation) => attestation.document_id === row.id)
+            .map(toAttestationAttempt),
         }));
         
         // Documents processed and loaded
@@ -256,6 +363,134 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
     loadExistingDocuments();
   }, []); // Remove vehicleId dependency since we're loading all user documents
 
+  // Attest approved data; the server records the attempt in the document's attestation history
+  const attestDocument = async (documentId: string, vehicleTokenId: number, prepared: PreparedAttestation) => {
+    const result = await dimoAttestationService.submitAttestation(vehicleTokenId, prepared, documentId);
+    
+    // Without a signing key on the server nothing was attempted
+    if (isAttestationFailure(result) && !result.configured) {
+      return result;
+    }
+    
+    let entry: AttestationAttempt;
+    if (result.attestation) {
+      entry = toAttestationAttempt(result.attestation);
+    } else {
+      // Keep the attempt visible for this session even if the server could not record it
+      console.warn('Attestation attempt was not recorded by the server');
+      entry = {
+        id: crypto.randomUUID(),
+        status: result.success ? 'attested' : 'failed',
+        cloudEventId: result.id,
+        subject: result.subject,
+        payloadHash: result.payloadHash,
+        upstreamStatus: result.upstreamStatus,
+        error: isAttestationFailure(result) ? result.error : undefined,
+        signer: result.success ? result.signer : undefined,
+        event: result.success ? JSON.stringify(result.event) : undefined,
+        redactionSalt: prepared.fields.some((field) => field.action === 'hashed') ? prepared.salt : undefined,
+        createdAt: new Date(),
+      };
+    }
+    
+    setDocuments(prev => prev.map(d =>
+      d.id === documentId ? { ...d, attestations: [...(d.attestations || []), entry] } : d
+    ));
+    return result;
+  };
+
+  // Show what the attestation would publish; nothing is sent until the user approves it
+  const reviewAttestation = (documentId: string, filename: string, vehicleTokenId: number | undefined, processedData: DocumentAnalysis) => {
+    setAttestationReview({
+      documentId,
+      filename,
+      tokenId: vehicleTokenId,
+      processedData,
+      privacySettings: DEFAULT_PRIVACY_SETTINGS,
+      salt: createRedactionSalt(),
+    });
+  };
+
+  const reviewDocumentAttestation = (doc: Document) => {
+    if (!doc.processedData) return;
+    reviewAttestation(doc.id, doc.originalName, attestableTokenId(doc.tokenId) || attestableTokenId(getPrimaryTokenIdFromAuth()), doc.processedData);
+  };
+
+  const updateReviewSettings = (settings: Partial<PrivacySettings>) => {
+    setAttestationReview(prev => prev && { ...prev, privacySettings: { ...prev.privacySettings, ...settings } });
+  };
+
+  const approveAttestation = async () => {
+    if (!attestationReview || !attestationPreview) return;
+    const { documentId, tokenId: vehicleTokenId } = attestationReview;
+    // Nothing is attested until the user picks the vehicle the document belongs to
+    if (!vehicleTokenId) {
+      toast({
+        title: "Pick a Vehicle",
+        description: "Choose the vehicle this document belongs to before attesting it.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setAttestationReview(null);
+    
+    setRetryingAttestations(prev => new Set(prev).add(documentId));
+    try {
+      const result = await attestDocument(documentId, vehicleTokenId, attestationPreview);
+      if (!isAttestationFailure(result)) {
+        toast({
+          title: "DIMO Attestation Created",
+          description: "Document data has been attested to DIMO blockchain",
+        });
+      } else if (result.configured) {
+        toast({
+          title: "Attestation Failed",
+          description: `${result.error}. You can retry it from the document list.`,
+          variant: "destructive",
+        });
+      }
+    } catch (attestationError) {
+      console.error('Error creating DIMO attestation:', attestationError);
+      toast({
+        title: "Attestation Error",
+        description: "Failed to create DIMO attestation",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingAttestations(prev => {
+        const next = new Set(prev);
+        next.delete(documentId);
+        return next;
+      });
+    }
+  };
+
+  // Check the stored signed event offline against the trusted attestor address and the payload hash
+  // recorded with it; without a trusted address the signer is not verified
+  const verifyStoredAttestation = (attempt: AttestationAttempt) => {
+    const verification = verifyAttestation(attempt.event!, {
+      expectedSigner: import.meta.env.VITE_DIMO_ATTESTOR_ADDRESS || undefined,
+      expectedPayloadHash: attempt.payloadHash,
+    });
+    if (verification.status === 'verified') {
+      toast({
+        title: "Attestation Verified",
+        description: `Signed by ${verification.signer} for vehicle ${verification.subject?.tokenId}`,
+      });
+    } else if (verification.status === 'unanchored') {
+      toast({
+        title: "Signer Not Verified",
+        description: `The signature is consistent, but no trusted attestor address (VITE_DIMO_ATTESTOR_ADDRESS) is configured to check its signer ${verification.signer} against.`,
+      });
+    } else {
+      toast({
+        title: "Attestation Invalid",
+        description: verification.mismatches.map((mismatch) => mismatch.message).join('; '),
+        variant: "destructive",
+      });
+    }
+  };
+
   const processDocument = async (file: File) => {
     try {
       setIsProcessing(true);
@@ -355,6 +590,12 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
         vehicleMatch
       };
 
+      const vehicleTokenId =
+        attestableTokenId(tokenId) || attestableTokenId(vehicleMatch?.tokenId) || attestableTokenId(getPrimaryTokenIdFromAuth());
+      if (!vehicleTokenId) {
+        throw new Error('No vehicle found for this document. Connect a vehicle with DIMO and upload it again.');
+      }
+
       // Determine a safe vehicle ID (must be a UUID to satisfy DB uuid type)
       const targetVehicleId = isValidUuid(vehicleMatch?.vehicleId)
         ? vehicleMatch!.vehicleId
@@ -374,7 +615,7 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
       try {
         createdDbDoc = await db.createDocument({
           vehicleId: targetVehicleId,
-          tokenId: tokenId || vehicleMatch?.tokenId || getPrimaryTokenIdFromAuth() || 999999,
+          tokenId: vehicleTokenId,
           type: document.type,
           filename: document.filename,
           originalName: document.originalName,
@@ -400,6 +641,8 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
         ...document,
         id: createdDbDoc?.id || document.id,
         uploadedAt: createdDbDoc?.uploaded_at ? new Date(createdDbDoc.uploaded_at) : document.uploadedAt,
+        tokenId: vehicleTokenId,
+        attestations: [],
       };
       setDocuments(prev => [...prev, documentForState]);
 
@@ -423,52 +666,9 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
         }
       }
 
-      // Create DIMO attestation for the processed document
-      try {
-        // Check if DIMO environment variables are configured
-        const hasDimoConfig = import.meta.env.VITE_DIMO_CLIENT_ID && 
-                             import.meta.env.VITE_DIMO_API_KEY && 
-                             import.meta.env.VITE_DIMO_DOMAIN;
-        
-        if (!hasDimoConfig) {
-          // DIMO environment variables not configured, skipping attestation
-          document.dimoAttested = false;
-        } else {
-          updateProgress(95, 'Creating DIMO attestation...');
-          
-          const vehicleTokenId = tokenId || vehicleMatch?.tokenId || getPrimaryTokenIdFromAuth() || 999999;
-          const attestationSuccess = await dimoAttestationService.createDocumentAttestation(
-            processedData,
-            vehicleTokenId,
-            DEFAULT_PRIVACY_SETTINGS
-          );
-        
-        if (attestationSuccess) {
-          // Document attested successfully to DIMO
-          // Update the document with attestation status
-          document.dimoAttested = true;
-          toast({
-            title: "DIMO Attestation Created",
-            description: "Document data has been attested to DIMO blockchain",
-          });
-        } else {
-          console.warn('Failed to create DIMO attestation');
-          document.dimoAttested = false;
-          toast({
-            title: "Attestation Warning",
-            description: "Document processed but DIMO attestation failed",
-            variant: "destructive",
-          });
-        }
-        }
-      } catch (attestationError) {
-        console.error('Error creating DIMO attestation:', attestationError);
-        toast({
-          title: "Attestation Error",
-          description: "Document processed but failed to create DIMO attestation",
-          variant: "destructive",
-        });
-      }
+      // The DIMO attestation is created once the user approves the redacted data
+      updateProgress(95, 'Preparing DIMO attestation...');
+      reviewAttestation(documentForState.id, file.name, vehicleTokenId, processedData);
       
       toast({
         title: "Document Processed",
@@ -619,6 +819,8 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
     }
   };
 
+  const latestAttestation = (doc: Document) => doc.attestations?.[doc.attestations.length - 1];
+
   const getStatusIcon = (status: Document['status']) => {
     switch (status) {
       case 'uploading': return <Upload className="h-4 w-4 animate-pulse" />;
@@ -752,42 +954,87 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {documents.map((doc) => (
-                <div key={doc.id} className="flex items-center justify-between p-4 border rounded-lg">
-                  <div className="flex items-center gap-3">
-                    {getStatusIcon(doc.status)}
-                    {getTypeIcon(doc.type)}
-                    <div>
-                      <p className="font-medium">{doc.originalName}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {(doc.size / 1024 / 1024).toFixed(2)} MB • {doc.uploadedAt.toLocaleDateString()}
-                      </p>
+              {documents.map((doc) => {
+                const latest = latestAttestation(doc);
+                return (
+                  <div key={doc.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex items-center gap-3">
+                      {getStatusIcon(doc.status)}
+                      {getTypeIcon(doc.type)}
+                      <div>
+                        <p className="font-medium">{doc.originalName}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {(doc.size / 1024 / 1024).toFixed(2)} MB • {doc.uploadedAt.toLocaleDateString()}
+                        </p>
+                        {latest && (
+                          <p className="text-xs text-muted-foreground" title={latest.payloadHash}>
+                            {latest.status === 'attested'
+                              ? `Attested ${latest.createdAt.toLocaleString()} • ${latest.cloudEventId}`
+                              : `Attestation failed ${latest.createdAt.toLocaleString()}${latest.error ? `: ${latest.error}` : ''}`}
+                            {doc.attestations!.length > 1 && ` • ${doc.attestations!.length} attempts`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center gap-2">
+                      {doc.status === 'completed' && doc.processedData && (
+                        <Badge variant="secondary" className="text-xs">
+                          {doc.processedData.documentType === 'car_registration' ? 'Registration' : 
+                           doc.processedData.documentType === 'oil_change_receipt' ? 'Oil Change' : 'Document'}
+                        </Badge>
+                      )}
+                      {latest?.status === 'attested' && (
+                        <Badge variant="default" className="text-xs bg-green-500 hover:bg-green-600">
+                          <Shield className="h-3 w-3 mr-1" />
+                          DIMO Attested
+                        </Badge>
+                      )}
+                      {latest?.status === 'attested' && latest.event && (
+                        <Button variant="outline" size="sm" onClick={() => verifyStoredAttestation(latest)}>
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Verify
+                        </Button>
+                      )}
+                      {!latest && doc.status === 'completed' && doc.processedData && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => reviewDocumentAttestation(doc)}
+                          disabled={retryingAttestations.has(doc.id)}
+                        >
+                          <Shield className="h-4 w-4 mr-1" />
+                          Attest
+                        </Button>
+                      )}
+                      {latest?.status === 'failed' && (
+                        <>
+                          <Badge variant="destructive" className="text-xs">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Attestation Failed
+                          </Badge>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => reviewDocumentAttestation(doc)}
+                            disabled={retryingAttestations.has(doc.id) || !doc.processedData}
+                          >
+                            <RefreshCw className={`h-4 w-4 mr-1 ${retryingAttestations.has(doc.id) ? 'animate-spin' : ''}`} />
+                            Retry
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeDocument(doc.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
-                  
-                  <div className="flex items-center gap-2">
-                    {doc.status === 'completed' && doc.processedData && (
-                      <Badge variant="secondary" className="text-xs">
-                        {doc.processedData.documentType === 'car_registration' ? 'Registration' : 
-                         doc.processedData.documentType === 'oil_change_receipt' ? 'Oil Change' : 'Document'}
-                      </Badge>
-                    )}
-                    {doc.dimoAttested && (
-                      <Badge variant="default" className="text-xs bg-green-500 hover:bg-green-600">
-                        <Shield className="h-3 w-3 mr-1" />
-                        DIMO Attested
-                      </Badge>
-                    )}
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeDocument(doc.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </CardContent>
         </Card>
@@ -995,6 +1242,102 @@ export function DocumentUpload({ vehicleId, tokenId, onDocumentProcessed }: Docu
           </CardContent>
         </Card>
       )}
+
+      {/* Attestation Review */}
+      <Dialog open={!!attestationReview} onOpenChange={(open) => !open && setAttestationReview(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Shield className="h-5 w-5" />
+              Review DIMO Attestation
+            </DialogTitle>
+            <DialogDescription>
+              {attestationReview?.tokenId
+                ? `${attestationReview.filename}: this data will be signed and published for vehicle ${attestationReview.tokenId}.`
+                : `${attestationReview?.filename}: pick the vehicle this document belongs to before attesting it.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {attestationReview && (
+            <div className="space-y-2">
+              <Label htmlFor="attestation-vehicle">Vehicle</Label>
+              <Select
+                value={attestationReview.tokenId ? String(attestationReview.tokenId) : undefined}
+                onValueChange={(value) => setAttestationReview(prev => prev && { ...prev, tokenId: Number(value) })}
+              >
+                <SelectTrigger id="attestation-vehicle">
+                  <SelectValue placeholder="Pick a vehicle" />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([attestationReview.tokenId, ...getVehicleTokenIdsFromAuth()].filter(Boolean))].map((id) => (
+                    <SelectItem key={id} value={String(id)}>
+                      Vehicle {id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {attestationReview && attestationPreview && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                {PRIVACY_TOGGLES.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Switch
+                      id={`privacy-${key}`}
+                      checked={attestationReview.privacySettings[key]}
+                      onCheckedChange={(checked) => updateReviewSettings({ [key]: checked })}
+                    />
+                    <Label htmlFor={`privacy-${key}`}>{label}</Label>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="privacy-redaction-mode"
+                    checked={attestationReview.privacySettings.redactionMode === 'hash'}
+                    onCheckedChange={(checked) => updateReviewSettings({ redactionMode: checked ? 'hash' : 'drop' })}
+                  />
+                  <Label htmlFor="privacy-redaction-mode">Hash excluded fields instead of removing them</Label>
+                </div>
+              </div>
+
+              <div className="max-h-72 overflow-y-auto rounded-lg border p-3 font-mono text-xs space-y-1">
+                {attestationPreview.fields.map((field) => (
+                  <div
+                    key={field.path}
+                    className={
+                      field.action === 'kept' ? 'text-green-700' :
+                      field.action === 'hashed' ? 'text-amber-700' : 'text-red-600'
+                    }
+                  >
+                    {field.action === 'kept' ? '+' : field.action === 'hashed' ? '#' : '-'}{' '}
+                    <span className={field.action === 'removed' ? 'line-through' : undefined}>
+                      {field.path}: {formatRedactionValue(field.value)}
+                    </span>
+                    {field.hash && <span className="block pl-4 text-muted-foreground" title={field.hash}>{field.hash.slice(0, 23)}...</span>}
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {attestationPreview.fields.filter((field) => field.action === 'kept').length} kept •{' '}
+                {attestationPreview.fields.filter((field) => field.action === 'removed').length} removed •{' '}
+                {attestationPreview.fields.filter((field) => field.action === 'hashed').length} hashed
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAttestationReview(null)}>
+              Skip
+            </Button>
+            <Button onClick={approveAttestation} disabled={!attestationReview?.tokenId}>
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Approve and Attest
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 } 
\ No newline at end of file
@@ -6,6 +6,7 @@ import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
+import { MCP_PROXY_URL, mcpAuthHeaders } from '../services/dimoMcpClient';
 
 interface McpTestResult {
   success: boolean;
@@ -45,11 +46,11 @@ export function McpTest() {
   const testMcpEndpoint = async (endpoint: string, params: any) => {
     setLoading(true);
     try {
-      const mcpServerUrl = import.meta.env.VITE_MCP_SERVER_URL || 'http://localhost:3001';
-      const response = await fetch(`${mcpServerUrl}/mcp/tools/${endpoint}`, {
+      const response = await fetch(`${MCP_PROXY_URL}/mcp/tools/${endpoint}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...mcpAuthHeaders(),
         },
         body: JSON.stringify({ params }),
       });
@@ -74,8 +75,7 @@ export function McpTest() {
   const testHealth = async () => {
     setLoading(true);
     try {
-      const mcpServerUrl = import.meta.env.VITE_MCP_SERVER_URL || 'http://localhost:3001';
-      const response = await fetch(`${mcpServerUrl}/health`);
+      const response = await fetch(`${MCP_PROXY_URL}/health`);
       const result = await response.json();
       setResults(prev => [...prev, {
         success: true,
@@ -142,7 +142,7 @@ export function McpTest() {
             </Button>
             
             <Button 
-              onClick={() => testMcpEndpoint('vin_operations', { operation: 'decode', vin: vin })}
+              onClick={() => testMcpEndpoint('vin_decode', { vin: vin })}
               disabled={loading}
               variant="outline"
             >
@@ -281,10 +281,9 @@ export function McpTest() {
               onClick={async () => {
                 setLoading(true);
                 try {
-                  const mcpServerUrl = import.meta.env.VITE_MCP_SERVER_URL || 'http://localhost:3001';
-                  const response = await fetch(`${mcpServerUrl}/refresh-jwt/${tokenId}`, {
+                  const response = await fetch(`${MCP_PROXY_URL}/refresh-jwt/${tokenId}`, {
                     method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
+                    headers: { 'Content-Type': 'application/json', ...mcpAuthHeaders() },
                     body: JSON.stringify({ privileges: [1, 2, 3, 4, 5] })
                   });
                   const result = await response.json();
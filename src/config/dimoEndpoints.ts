@@ -0,0 +1,113 @@
+// DIMO API endpoint configuration
+//
+// Every DIMO URL the web app, the tRPC routers, the Vercel attestation function and the Vite dev
+// proxy talk to comes from here. The MCP server reads the same variables (without the VITE_ prefix)
+// in mcp-dimo/src/helpers/endpoints.ts.
+//
+//   VITE_DIMO_ENV           'Production' (default) or 'Dev', the same environments as the DIMO SDK
+//   VITE_DIMO_API_BASE_URL  Serve every API from one base URL, e.g. a local stand-in:
+//                           <base>/identity/query, <base>/telemetry/query, <base>/token-exchange, ...
+//   VITE_DIMO_*_URL         Override a single endpoint (see ENDPOINT_VARIABLES)
+
+export type DimoEnvironmentName = 'Production' | 'Dev';
+
+export interface DimoEndpoints {
+  environment: DimoEnvironmentName;
+  identity: string;
+  telemetry: string;
+  tokenExchange: string;
+  devices: string;
+  auth: string;
+  attest: string;
+  /** Vehicle NFT contract used for token exchange */
+  vehicleContractAddress: string;
+}
+
+type EndpointKey = Exclude<keyof DimoEndpoints, 'environment'>;
+
+/** Vehicle NFT contracts: Polygon for Production, Polygon Amoy for Dev */
+export const DIMO_VEHICLE_CONTRACTS: Record<DimoEnvironmentName, string> = {
+  Production: '0xbA5738a18d83D41847dfFbDC6101d37C69c9B0cF',
+  Dev: '0x45fbCD3ef7361d156e8b16F5538AE36DEdf61Da8',
+};
+
+const ENVIRONMENT_DEFAULTS: Record<DimoEnvironmentName, Record<EndpointKey, string>> = {
+  Production: {
+    identity: 'https://identity-api.dimo.zone/query',
+    telemetry: 'https://telemetry-api.dimo.zone/query',
+    tokenExchange: 'https://token-exchange-api.dimo.zone',
+    devices: 'https://devices-api.dimo.zone',
+    auth: 'https://auth.dimo.zone',
+    attest: 'https://attest.dimo.zone',
+    vehicleContractAddress: DIMO_VEHICLE_CONTRACTS.Production,
+  },
+  Dev: {
+    identity: 'https://identity-api.dev.dimo.zone/query',
+    telemetry: 'https://telemetry-api.dev.dimo.zone/query',
+    tokenExchange: 'https://token-exchange-api.dev.dimo.zone',
+    devices: 'https://devices-api.dev.dimo.zone',
+    auth: 'https://auth.dev.dimo.zone',
+    attest: 'https://attest.dev.dimo.zone',
+    vehicleContractAddress: DIMO_VEHICLE_CONTRACTS.Dev,
+  },
+};
+
+// Paths below DIMO_API_BASE_URL, matching the local mock platform
+const BASE_URL_PATHS: Partial<Record<EndpointKey, string>> = {
+  identity: '/identity/query',
+  telemetry: '/telemetry/query',
+  tokenExchange: '/token-exchange',
+  devices: '/devices',
+  auth: '/auth',
+  attest: '/attest',
+};
+
+const ENDPOINT_VARIABLES: Record<EndpointKey, string> = {
+  identity: 'DIMO_IDENTITY_URL',
+  telemetry: 'DIMO_TELEMETRY_URL',
+  tokenExchange: 'DIMO_TOKEN_EXCHANGE_URL',
+  devices: 'DIMO_DEVICES_API_URL',
+  auth: 'DIMO_AUTH_URL',
+  attest: 'DIMO_ATTEST_URL',
+  vehicleContractAddress: 'DIMO_VEHICLE_CONTRACT_ADDRESS',
+};
+
+function parseEnvironment(value?: string): DimoEnvironmentName {
+  return value?.toLowerCase() === 'dev' || value?.toLowerCase() === 'development' ? 'Dev' : 'Production';
+}
+
+/**
+ * Resolve the endpoints from environment variables
+ * @param read - Returns the value of a variable by its unprefixed name (e.g. DIMO_ENV)
+ */
+export function resolveDimoEndpoints(read: (name: string) => string | undefined): DimoEndpoints {
+  const environment = parseEnvironment(read('DIMO_ENV'));
+  const baseUrl = read('DIMO_API_BASE_URL')?.replace(/\/+$/, '');
+
+  const endpoints = { environment } as DimoEndpoints;
+  for (const key of Object.keys(ENDPOINT_VARIABLES) as EndpointKey[]) {
+    const path = BASE_URL_PATHS[key];
+    endpoints[key] =
+      read(ENDPOINT_VARIABLES[key]) ||
+      (baseUrl && path ? `${baseUrl}${path}` : ENVIRONMENT_DEFAULTS[environment][key]);
+  }
+  return endpoints;
+}
+
+/**
+ * Read variables in Node (Vercel functions, vite.config.ts), accepting both the plain and the
+ * VITE_-prefixed name so one .env file configures everything
+ */
+export function nodeEnvReader(env: Record<string, string | undefined> = process.env) {
+  return (name: string) => env[name] || env[`VITE_${name}`];
+}
+
+function readEnv(name: string): string | undefined {
+  // import.meta.env only exists in code bundled by Vite; vite.config.ts and Vercel functions run in Node
+  const viteEnv = (import.meta as { env?: Record<string, string | undefined> }).env;
+  const value = viteEnv?.[`VITE_${name}`];
+  if (value || typeof process === 'undefined') return value;
+  return nodeEnvReader()(name);
+}
+
+export const DIMO_ENDPOINTS = resolveDimoEndpoints(readEnv);
@@ -0,0 +1,104 @@
+import { Wallet } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { attestationDataHash, attestationTypedData, canonicalJson } from './attestationTypedData';
+import { verifyAttestation, type AttestationEvent } from './attestationVerification';
+
+const ATTESTOR = new Wallet(`0x${'11'.repeat(32)}`);
+const OTHER = new Wallet(`0x${'22'.repeat(32)}`);
+const CLIENT_ID = '0x00000000000000000000000000000000000d1e0';
+const SUBJECT = 'did:erc721:80002:0x45fbCD3ef7361d156e8b16F5538AE36DEdf61Da8:101';
+
+const REGISTRATION = {
+  documentType: 'registration',
+  vin: '1HGCM82633A004352',
+  vehicleInfo: { make: 'Honda', model: 'Accord', year: 2003 },
+  registrationInfo: { plateNumber: 'ABC123', expiryDate: '2027-03-31' },
+  alertDates: { registrationExpiry: '2027-03-31' },
+  metadata: { processedAt: '2026-10-19T10:00:00.000Z', source: 'dimo-ai-web' },
+};
+
+// Signed like AttestationService.attest in src/server/attestation.ts with the eip712 format
+async function signedEvent(signer: Wallet, chainId = 80002): Promise<AttestationEvent> {
+  const data = { ...REGISTRATION, subject: SUBJECT, attestorAddress: signer.address };
+  const { domain, types, value } = attestationTypedData(data, chainId);
+  return {
+    id: 'dimo-ai-doc-1',
+    source: CLIENT_ID,
+    producer: `did:ethr:80002:${CLIENT_ID}`,
+    specversion: '1.0',
+    subject: SUBJECT,
+    time: '2026-10-19T10:00:01.000Z',
+    type: 'dimo.attestation',
+    data,
+    signature: await signer.signTypedData(domain, types, value),
+    signaturetype: 'eip712',
+  };
+}
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ z: 1, y: 2 }], c: undefined } })).toBe('{"a":{"d":[{"y":2,"z":1}]},"b":1}');
+  });
+});
+
+describe('attestationTypedData', () => {
+  it('uses the schema of the document type and binds the whole data with dataHash', () => {
+    const data = { ...REGISTRATION, subject: SUBJECT, attestorAddress: ATTESTOR.address };
+    const { domain, primaryType, value } = attestationTypedData(data, 80002);
+
+    expect(domain).toEqual({ name: 'DIMO Document Attestation', version: '1', chainId: 80002 });
+    expect(primaryType).toBe('RegistrationAttestation');
+    expect(value).toMatchObject({
+      subject: SUBJECT,
+      attestor: ATTESTOR.address,
+      vin: '1HGCM82633A004352',
+      make: 'Honda',
+      year: 2003,
+      plateNumber: 'ABC123',
+      dataHash: attestationDataHash(data),
+    });
+  });
+
+  it('round-trips through verifyAttestation', async () => {
+    const event = await signedEvent(ATTESTOR);
+
+    const verification = verifyAttestation(JSON.stringify(event), { expectedSigner: ATTESTOR.address });
+
+    expect(verification).toMatchObject({
+      valid: true,
+      status: 'verified',
+      signatureType: 'eip712',
+      signer: ATTESTOR.address,
+      payloadHash: attestationDataHash(event.data),
+      mismatches: [],
+    });
+  });
+
+  it('rejects a change to data outside the typed fields', async () => {
+    const event = await signedEvent(ATTESTOR);
+    // Not a typed field, only covered by dataHash
+    const tampered = { ...event, data: { ...event.data, alertDates: { registrationExpiry: '2030-03-31' } } };
+
+    const verification = verifyAttestation(tampered, { expectedSigner: ATTESTOR.address });
+
+    expect(verification.status).toBe('invalid');
+    expect(verification.signer).not.toBe(ATTESTOR.address);
+    expect(verification.mismatches.map(({ check }) => check)).toContain('signer');
+  });
+
+  it('rejects a signature by another key', async () => {
+    const verification = verifyAttestation(await signedEvent(OTHER), { expectedSigner: ATTESTOR.address });
+
+    expect(verification.status).toBe('invalid');
+    expect(verification.mismatches).toEqual([
+      { check: 'signer', message: 'Not signed by the trusted attestor', expected: ATTESTOR.address, actual: OTHER.address },
+    ]);
+  });
+
+  it('rejects a signature made for another chain', async () => {
+    const verification = verifyAttestation(await signedEvent(ATTESTOR, 137), { expectedSigner: ATTESTOR.address });
+
+    expect(verification.status).toBe('invalid');
+    expect(verification.signer).not.toBe(ATTESTOR.address);
+  });
+});
@@ -0,0 +1,176 @@
+// Signature formats of DIMO document attestations
+//
+// personal_sign  EIP-191 signature over the canonical JSON of the data: keys sorted at every level and
+//                undefined values dropped, so the signature does not depend on key order
+// eip712         EIP-712 typed data with a schema per document type (registration, insurance, service)
+//                that wallets can show field by field; dataHash binds the rest of the data
+//
+// Shared by the signing server (src/server/attestation.ts) and offline verification
+// (src/lib/attestationVerification.ts), which must build byte-identical messages.
+
+import { sha256, toUtf8Bytes, type TypedDataDomain, type TypedDataField } from 'ethers';
+
+export const ATTESTATION_SIGNATURE_TYPES = ['personal_sign', 'eip712'] as const;
+
+export type AttestationSignatureType = (typeof ATTESTATION_SIGNATURE_TYPES)[number];
+
+/** Polygon Amoy and Polygon mainnet */
+export const ATTESTATION_CHAIN_IDS = [80002, 137] as const;
+
+export type AttestationChainId = (typeof ATTESTATION_CHAIN_IDS)[number];
+
+export const DEFAULT_ATTESTATION_CHAIN_ID: AttestationChainId = 80002;
+
+export interface AttestationTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  value: Record<string, unknown>;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return sortKeys((value as { toJSON: () => unknown }).toJSON());
+  }
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const entry = (value as Record<string, unknown>)[key];
+      if (entry !== undefined) sorted[key] = sortKeys(entry);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Serialize a value with its object keys sorted, so equal data always gives the same text
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(value));
+}
+
+/**
+ * SHA-256 of the canonical JSON of the data, as recorded in the attestation history
+ */
+export function attestationDataHash(data: unknown): string {
+  return sha256(toUtf8Bytes(canonicalJson(data)));
+}
+
+const COMMON_FIELDS: TypedDataField[] = [
+  { name: 'subject', type: 'string' },
+  { name: 'attestor', type: 'address' },
+  { name: 'documentType', type: 'string' },
+  { name: 'vin', type: 'string' },
+  { name: 'processedAt', type: 'string' },
+  { name: 'dataHash', type: 'bytes32' },
+];
+
+const DOCUMENT_TYPES: Record<string, TypedDataField[]> = {
+  RegistrationAttestation: [
+    ...COMMON_FIELDS,
+    { name: 'make', type: 'string' },
+    { name: 'model', type: 'string' },
+    { name: 'year', type: 'uint16' },
+    { name: 'plateNumber', type: 'string' },
+    { name: 'expiryDate', type: 'string' },
+    { name: 'renewalDate', type: 'string' },
+  ],
+  InsuranceAttestation: [
+    ...COMMON_FIELDS,
+    { name: 'provider', type: 'string' },
+    { name: 'policyNumber', type: 'string' },
+    { name: 'coverageType', type: 'string' },
+    { name: 'coverageStartDate', type: 'uint64' },
+    { name: 'expirationDate', type: 'uint64' },
+  ],
+  ServiceAttestation: [
+    ...COMMON_FIELDS,
+    { name: 'serviceProvider', type: 'string' },
+    { name: 'serviceDate', type: 'string' },
+    { name: 'currentMileage', type: 'uint32' },
+    { name: 'nextServiceDate', type: 'string' },
+    { name: 'nextServiceMileage', type: 'uint32' },
+  ],
+};
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+
+// Absent, negative and non-numeric values sign as 0
+const uint = (value: unknown) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? Math.round(number) : 0;
+};
+
+type Section = Record<string, unknown> | undefined;
+
+/**
+ * The EIP-712 domain of attestations on a chain
+ */
+export function attestationDomain(chainId: number): TypedDataDomain {
+  return { name: 'DIMO Document Attestation', version: '1', chainId };
+}
+
+/**
+ * Typed data of an attestation's data, with the schema of its document type. Service covers
+ * maintenance and any other type.
+ */
+export function attestationTypedData(data: Record<string, unknown>, chainId: number): AttestationTypedData {
+  const vehicleInfo = data.vehicleInfo as Section;
+  const common = {
+    subject: text(data.subject),
+    attestor: text(data.attestorAddress),
+    documentType: text(data.documentType),
+    vin: text(data.vin ?? vehicleInfo?.vin),
+    processedAt: text((data.metadata as Section)?.processedAt),
+    dataHash: attestationDataHash(data),
+  };
+
+  let primaryType: string;
+  let value: Record<string, unknown>;
+  if (data.documentType === 'registration') {
+    const registrationInfo = data.registrationInfo as Section;
+    primaryType = 'RegistrationAttestation';
+    value = {
+      ...common,
+      make: text(vehicleInfo?.make),
+      model: text(vehicleInfo?.model),
+      year: uint(vehicleInfo?.year),
+      plateNumber: text(registrationInfo?.plateNumber ?? vehicleInfo?.plateNumber),
+      expiryDate: text(registrationInfo?.expiryDate),
+      renewalDate: text(registrationInfo?.renewalDate),
+    };
+  } else if (data.documentType === 'insurance') {
+    const insuranceInfo = data.insuranceInfo as Section;
+    primaryType = 'InsuranceAttestation';
+    value = {
+      ...common,
+      provider: text(data.provider ?? insuranceInfo?.insuranceProvider),
+      policyNumber: text(data.policyNumber ?? insuranceInfo?.policyNumber),
+      coverageType: text(data.coverageType ?? insuranceInfo?.coverageType),
+      coverageStartDate: uint(data.coverageStartDate),
+      expirationDate: uint(data.expirationDate),
+    };
+  } else {
+    const serviceInfo = data.serviceInfo as Section;
+    primaryType = 'ServiceAttestation';
+    value = {
+      ...common,
+      serviceProvider: text(serviceInfo?.serviceProvider),
+      serviceDate: text(serviceInfo?.serviceDate),
+      currentMileage: uint(serviceInfo?.currentMileage),
+      nextServiceDate: text(serviceInfo?.nextServiceDate),
+      nextServiceMileage: uint(serviceInfo?.nextServiceMileage),
+    };
+  }
+
+  return {
+    domain: attestationDomain(chainId),
+    types: { [primaryType]: DOCUMENT_TYPES[primaryType] },
+    primaryType,
+    value,
+  };
+}
@@ -0,0 +1,97 @@
+import { Wallet } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { attestationDataHash, canonicalJson } from './attestationTypedData';
+import { verifyAttestation, type AttestationEvent } from './attestationVerification';
+
+const ATTESTOR = new Wallet(`0x${'11'.repeat(32)}`);
+const OTHER = new Wallet(`0x${'22'.repeat(32)}`);
+const CLIENT_ID = '0x00000000000000000000000000000000000d1e0';
+const SUBJECT = 'did:erc721:80002:0x45fbCD3ef7361d156e8b16F5538AE36DEdf61Da8:101';
+
+// Signed like AttestationService.attest in src/server/attestation.ts with the personal_sign format
+async function signedEvent(signer: Wallet, data: Record<string, unknown> = {}): Promise<AttestationEvent> {
+  const signedData = {
+    documentType: 'service',
+    vin: '[REDACTED_VIN]',
+    serviceInfo: { serviceProvider: 'Quick Lube', currentMileage: 42000 },
+    metadata: { processedAt: '2026-10-19T10:00:00.000Z', source: 'dimo-ai-web' },
+    ...data,
+    subject: SUBJECT,
+    attestorAddress: signer.address,
+  };
+  return {
+    id: 'dimo-ai-doc-1',
+    source: CLIENT_ID,
+    producer: `did:ethr:80002:${CLIENT_ID}`,
+    specversion: '1.0',
+    subject: SUBJECT,
+    time: '2026-10-19T10:00:01.000Z',
+    type: 'dimo.attestation',
+    data: signedData,
+    signature: await signer.signMessage(canonicalJson(signedData)),
+    signaturetype: 'personal_sign',
+  };
+}
+
+describe('verifyAttestation', () => {
+  it('verifies a canonical JSON signature by the trusted attestor', async () => {
+    const event = await signedEvent(ATTESTOR);
+
+    const verification = verifyAttestation(JSON.stringify(event), {
+      expectedSigner: ATTESTOR.address,
+      expectedPayloadHash: attestationDataHash(event.data),
+    });
+
+    expect(verification).toMatchObject({
+      valid: true,
+      status: 'verified',
+      signatureType: 'personal_sign',
+      signer: ATTESTOR.address,
+      payloadHash: attestationDataHash(event.data),
+      subject: { chainId: 80002, tokenId: 101 },
+      mismatches: [],
+    });
+  });
+
+  it('does not depend on the key order of the stored data', async () => {
+    const event = await signedEvent(ATTESTOR);
+    const reordered = Object.fromEntries(Object.entries(event.data).reverse());
+
+    expect(verifyAttestation({ ...event, data: reordered }, { expectedSigner: ATTESTOR.address }).status).toBe('verified');
+  });
+
+  it('reports a consistent event as unanchored without a trusted attestor', async () => {
+    const verification = verifyAttestation(await signedEvent(ATTESTOR));
+
+    expect(verification.valid).toBe(false);
+    expect(verification.status).toBe('unanchored');
+    expect(verification.signer).toBe(ATTESTOR.address);
+  });
+
+  it('rejects data changed after signing', async () => {
+    const event = await signedEvent(ATTESTOR);
+    const tampered = { ...event, data: { ...event.data, serviceInfo: { serviceProvider: 'Quick Lube', currentMileage: 4200 } } };
+
+    const verification = verifyAttestation(tampered, {
+      expectedSigner: ATTESTOR.address,
+      expectedPayloadHash: attestationDataHash(event.data),
+    });
+
+    expect(verification.status).toBe('invalid');
+    expect(verification.signer).not.toBe(ATTESTOR.address);
+    expect(verification.mismatches.map(({ check }) => check)).toEqual(['payload_hash', 'signer', 'signer']);
+  });
+
+  it('rejects an event signed by another key that names itself as the attestor', async () => {
+    const event = await signedEvent(OTHER);
+
+    const verification = verifyAttestation(event, { expectedSigner: ATTESTOR.address });
+
+    expect(verification.status).toBe('invalid');
+    expect(verification.mismatches).toEqual([
+      { check: 'signer', message: 'Not signed by the trusted attestor', expected: ATTESTOR.address, actual: OTHER.address },
+    ]);
+    // Self-consistent, which is why a trusted attestor is needed to call it verified
+    expect(verifyAttestation(event).status).toBe('unanchored');
+  });
+});
@@ -0,0 +1,222 @@
+// Offline verification of DIMO document attestations
+//
+// Checks a signed CloudEvent as produced by src/server/attestation.ts without any network call: the
+// signer recovered from `signature` over the `data` in either signature format, the subject DID and its
+// chain, and the consistency of the envelope. Runs in the browser and in Node, so stored payloads can be
+// checked anywhere.
+//
+// Anyone can sign an event that names their own address as attestorAddress, so an event is only
+// verified against a trusted attestor address. Without one, a consistent event is reported as
+// unanchored, never as valid.
+
+import { getAddress, isAddress, sha256, toUtf8Bytes, verifyMessage, verifyTypedData } from 'ethers';
+import {
+  ATTESTATION_CHAIN_IDS,
+  ATTESTATION_SIGNATURE_TYPES,
+  attestationDataHash,
+  attestationTypedData,
+  canonicalJson,
+  type AttestationSignatureType,
+} from './attestationTypedData';
+
+/** A signed attestation CloudEvent */
+export interface AttestationEvent {
+  id: string;
+  source: string;
+  producer: string;
+  specversion: string;
+  subject: string;
+  time: string;
+  type: string;
+  data: Record<string, unknown> & { subject?: string; attestorAddress?: string };
+  signature: string;
+  /** CloudEvent extension; absent on events signed before EIP-712 support, which are personal_sign */
+  signaturetype?: AttestationSignatureType;
+}
+
+export type AttestationCheck = 'format' | 'signature' | 'signer' | 'subject' | 'chain' | 'producer' | 'payload_hash';
+
+export interface AttestationMismatch {
+  check: AttestationCheck;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface VehicleDid {
+  chainId: number;
+  contractAddress: string;
+  tokenId: number;
+}
+
+/**
+ * verified: signed by the trusted attestor and consistent; unanchored: consistent and signed by the
+ * attestorAddress it names, but no trusted attestor was given; invalid: any mismatch
+ */
+export type AttestationVerificationStatus = 'verified' | 'unanchored' | 'invalid';
+
+export interface AttestationVerification {
+  /** Whether the status is verified */
+  valid: boolean;
+  status: AttestationVerificationStatus;
+  signatureType?: AttestationSignatureType;
+  /** Address recovered from the signature */
+  signer?: string;
+  /** SHA-256 of the signed data, as recorded in the attestation history */
+  payloadHash?: string;
+  subject?: VehicleDid;
+  mismatches: AttestationMismatch[];
+}
+
+export interface VerifyAttestationOptions {
+  /** Trusted attestor address the signature must recover to; without it the result is at most unanchored */
+  expectedSigner?: string;
+  /** Chain the subject and producer DIDs must be on; by default any supported chain, the same for both */
+  chainId?: number;
+  /** Payload hash recorded when the attestation was made */
+  expectedPayloadHash?: string;
+}
+
+const VEHICLE_DID = /^did:erc721:(\d+):(0x[0-9a-fA-F]{40}):(\d+)$/;
+const PRODUCER_DID = /^did:ethr:(\d+):(0x[0-9a-fA-F]+)$/;
+
+/**
+ * Parse a vehicle DID, did:erc721:<chainId>:<contract>:<tokenId>
+ * @returns undefined when the DID is malformed
+ */
+export function parseVehicleDid(did: string): VehicleDid | undefined {
+  const match = VEHICLE_DID.exec(did);
+  if (!match || !isAddress(match[2])) return undefined;
+  return { chainId: Number(match[1]), contractAddress: getAddress(match[2]), tokenId: Number(match[3]) };
+}
+
+function sameAddress(a: string, b: string) {
+  return isAddress(a) && isAddress(b) && getAddress(a) === getAddress(b);
+}
+
+/**
+ * Verify a signed attestation CloudEvent offline
+ * @param event - The event, or its JSON text as stored
+ */
+export function verifyAttestation(event: AttestationEvent | string, options: VerifyAttestationOptions = {}): AttestationVerification {
+  const mismatches: AttestationMismatch[] = [];
+  const report = (verification: Omit<AttestationVerification, 'valid' | 'status' | 'mismatches'> = {}): AttestationVerification => {
+    const status: AttestationVerificationStatus =
+      mismatches.length > 0 ? 'invalid' : options.expectedSigner ? 'verified' : 'unanchored';
+    return { ...verification, valid: status === 'verified', status, mismatches };
+  };
+
+  let parsed: AttestationEvent;
+  try {
+    parsed = typeof event === 'string' ? JSON.parse(event) : event;
+  } catch {
+    mismatches.push({ check: 'format', message: 'Not valid JSON' });
+    return report();
+  }
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.data !== 'object' || parsed.data === null) {
+    mismatches.push({ check: 'format', message: 'Missing the data object' });
+    return report();
+  }
+  if (typeof parsed.signature !== 'string') {
+    mismatches.push({ check: 'format', message: 'Missing the signature' });
+    return report();
+  }
+  if (parsed.type !== 'dimo.attestation' || parsed.specversion !== '1.0') {
+    mismatches.push({
+      check: 'format',
+      message: 'Not a DIMO attestation CloudEvent',
+      expected: 'dimo.attestation 1.0',
+      actual: `${parsed.type} ${parsed.specversion}`,
+    });
+  }
+
+  const signatureType = parsed.signaturetype ?? 'personal_sign';
+  if (!ATTESTATION_SIGNATURE_TYPES.includes(signatureType)) {
+    mismatches.push({ check: 'format', message: 'Unknown signature type', expected: ATTESTATION_SIGNATURE_TYPES.join(' or '), actual: String(signatureType) });
+    return report();
+  }
+
+  const subject = typeof parsed.subject === 'string' ? parseVehicleDid(parsed.subject) : undefined;
+  const producer = typeof parsed.producer === 'string' ? PRODUCER_DID.exec(parsed.producer) : null;
+  const producerChainId = producer ? Number(producer[1]) : undefined;
+  const chainId = options.chainId ?? subject?.chainId ?? producerChainId;
+  const attestorAddress = parsed.data.attestorAddress;
+  // Checked for the legacy format below; the trusted attestor when given, else the one the event names
+  const expectedSigner = options.expectedSigner ?? attestorAddress;
+
+  let signer: string | undefined;
+  let payloadHash = attestationDataHash(parsed.data);
+  try {
+    if (signatureType === 'eip712') {
+      const { domain, types, value } = attestationTypedData(parsed.data, chainId ?? 0);
+      signer = verifyTypedData(domain, types, value, parsed.signature);
+    } else {
+      signer = verifyMessage(canonicalJson(parsed.data), parsed.signature);
+      // Events signed before canonical serialization signed JSON.stringify(data) in its stored key order
+      const legacyMessage = JSON.stringify(parsed.data);
+      if (expectedSigner && !sameAddress(signer, expectedSigner) && legacyMessage !== canonicalJson(parsed.data)) {
+        const legacySigner = verifyMessage(legacyMessage, parsed.signature);
+        if (sameAddress(legacySigner, expectedSigner)) {
+          signer = legacySigner;
+          payloadHash = sha256(toUtf8Bytes(legacyMessage));
+        }
+      }
+    }
+  } catch (error) {
+    mismatches.push({ check: 'signature', message: `Invalid signature: ${error instanceof Error ? error.message : String(error)}` });
+  }
+
+  if (options.expectedPayloadHash && options.expectedPayloadHash.toLowerCase() !== payloadHash) {
+    mismatches.push({
+      check: 'payload_hash',
+      message: 'The data differs from what was attested',
+      expected: options.expectedPayloadHash,
+      actual: payloadHash,
+    });
+  }
+  if (signer && options.expectedSigner && !sameAddress(signer, options.expectedSigner)) {
+    mismatches.push({ check: 'signer', message: 'Not signed by the trusted attestor', expected: options.expectedSigner, actual: signer });
+  }
+  if (signer && attestorAddress !== undefined && !sameAddress(signer, String(attestorAddress))) {
+    mismatches.push({ check: 'signer', message: 'Not signed by the attestorAddress it names', expected: String(attestorAddress), actual: signer });
+  }
+
+  if (!subject) {
+    mismatches.push({
+      check: 'subject',
+      message: 'Subject is not a vehicle DID',
+      expected: 'did:erc721:<chainId>:<contract>:<tokenId>',
+      actual: String(parsed.subject),
+    });
+  } else if (subject.chainId !== chainId) {
+    mismatches.push({ check: 'chain', message: 'Subject is on another chain', expected: String(chainId), actual: String(subject.chainId) });
+  } else if (!(ATTESTATION_CHAIN_IDS as readonly number[]).includes(subject.chainId)) {
+    mismatches.push({
+      check: 'chain',
+      message: 'Subject is on an unsupported chain',
+      expected: ATTESTATION_CHAIN_IDS.join(' or '),
+      actual: String(subject.chainId),
+    });
+  }
+  if (parsed.data.subject !== parsed.subject) {
+    mismatches.push({
+      check: 'subject',
+      message: 'The signed data names another subject',
+      expected: parsed.subject,
+      actual: String(parsed.data.subject),
+    });
+  }
+
+  if (!producer) {
+    mismatches.push({ check: 'producer', message: 'Producer is not a did:ethr DID', actual: String(parsed.producer) });
+  } else {
+    if (producerChainId !== chainId) {
+      mismatches.push({ check: 'chain', message: 'Producer is on another chain', expected: String(chainId), actual: producer[1] });
+    }
+    if (producer[2].toLowerCase() !== String(parsed.source).toLowerCase()) {
+      mismatches.push({ check: 'producer', message: 'Producer does not match the source', expected: parsed.source, actual: producer[2] });
+    }
+  }
+
+  return report({ signatureType, signer, payloadHash, subject });
+}
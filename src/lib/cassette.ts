@@ -0,0 +1,244 @@
+// Record and replay of upstream HTTP calls (MCP server, OpenAI, OCR)
+//
+// With VITE_CASSETTE_MODE=record every request/response pair made through cassetteFetch is appended
+// to a cassette with secrets and VINs scrubbed. With VITE_CASSETTE_MODE=replay responses are served
+// from the cassette and nothing goes over the network, which makes the chat and document flows
+// reproducible. The cassette format and scrub rules match mcp-dimo/src/helpers/cassette.ts.
+//
+//   VITE_CASSETTE_MODE   'off' (default), 'record' or 'replay'
+//   VITE_CASSETTE_NAME   Cassette name, default 'session'
+//
+// In the browser, recordings are kept in localStorage (downloadCassette saves one as a file) and
+// replay reads localStorage first, then /cassettes/<name>.json from the public directory.
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  recordedAt: string;
+}
+
+export interface Cassette {
+  name: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteStore {
+  load: (name: string) => Promise<Cassette | null>;
+  save: (cassette: Cassette) => Promise<void>;
+}
+
+export type FetchLike = (input: string | URL, init?: RequestInit) => Promise<Response>;
+
+const SECRET_HEADERS = ['authorization', 'apikey', 'x-api-key', 'openai-organization', 'cookie', 'set-cookie'];
+const SECRET_PARAMS = ['api_key', 'apikey', 'key', 'token', 'access_token', 'signature', 'private_key'];
+
+const SCRUB_PATTERNS: [RegExp, string][] = [
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, '[REDACTED_JWT]'],
+  [/\bsk-[\w-]{16,}/g, '[REDACTED_API_KEY]'],
+  [/\b0x[0-9a-fA-F]{64}\b/g, '[REDACTED_KEY]'],
+  // Uploaded document images
+  [/data:[\w/.+-]+;base64,[A-Za-z0-9+/=]+/g, '[REDACTED_DATA_URL]'],
+  // 17 character VINs, which always mix letters and digits and never contain I, O or Q
+  [/\b(?=[A-HJ-NPR-Z0-9]*\d)(?=[A-HJ-NPR-Z0-9]*[A-HJ-NPR-Z])[A-HJ-NPR-Z0-9]{17}\b/g, '[REDACTED_VIN]'],
+];
+
+// The recorded body is already decoded, so these would not describe it on replay
+const UNREPLAYABLE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+// Request body fields that change on every call and must not affect matching
+const VOLATILE_FIELDS = ['timestamp'];
+
+export const scrubText = (text: string): string =>
+  SCRUB_PATTERNS.reduce((scrubbed, [pattern, replacement]) => scrubbed.replace(pattern, replacement), text);
+
+export const scrubUrl = (url: string): string => {
+  const parsed = new URL(url, globalThis.location?.origin);
+  SECRET_PARAMS.forEach(param => {
+    if (parsed.searchParams.has(param)) {
+      parsed.searchParams.set(param, '[REDACTED]');
+    }
+  });
+  return scrubText(parsed.toString());
+};
+
+const scrubHeaders = (headers: Headers): Record<string, string> => {
+  const scrubbed: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    scrubbed[key] = SECRET_HEADERS.includes(key.toLowerCase()) ? '[REDACTED]' : scrubText(value);
+  });
+  return scrubbed;
+};
+
+const bodyText = (body: RequestInit['body']): string | undefined => {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  return '[binary body]';
+};
+
+const withoutVolatileFields = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(withoutVolatileFields);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !VOLATILE_FIELDS.includes(key))
+        .map(([key, item]) => [key, withoutVolatileFields(item)])
+    );
+  }
+  return value;
+};
+
+const matchKey = (request: CassetteInteraction['request']): string => {
+  let body = request.body ?? '';
+  try {
+    body = JSON.stringify(withoutVolatileFields(JSON.parse(body)));
+  } catch {
+    // Not JSON, match on the raw body
+  }
+  return `${request.method} ${request.url} ${body}`;
+};
+
+const storageKey = (name: string) => `dimo-cassette:${name}`;
+
+export const browserCassetteStore: CassetteStore = {
+  load: async (name) => {
+    const stored = globalThis.localStorage?.getItem(storageKey(name));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+    const response = await fetch(`/cassettes/${name}.json`);
+    return response.ok ? response.json() : null;
+  },
+  save: async (cassette) => {
+    globalThis.localStorage?.setItem(storageKey(cassette.name), JSON.stringify(cassette));
+  },
+};
+
+/**
+ * Wrap fetch with cassette recording or replay. Pass a file-backed store to record or replay
+ * outside the browser, e.g. in regression tests.
+ */
+export const createCassetteFetch = (options: {
+  mode: CassetteMode;
+  name: string;
+  store?: CassetteStore;
+  baseFetch?: FetchLike;
+}): FetchLike => {
+  const baseFetch: FetchLike = options.baseFetch ?? ((input, init) => fetch(input, init));
+  if (options.mode === 'off') {
+    return baseFetch;
+  }
+
+  const store = options.store ?? browserCassetteStore;
+  const replayed = new Set<number>();
+  let cassette: Promise<Cassette> | undefined;
+  let saving = Promise.resolve();
+
+  const getCassette = () => {
+    cassette ??= store.load(options.name).then(loaded => {
+      if (!loaded && options.mode === 'replay') {
+        throw new Error(`Cannot replay: cassette "${options.name}" not found`);
+      }
+      return loaded ?? { name: options.name, interactions: [] };
+    });
+    return cassette;
+  };
+
+  const record = async (interaction: CassetteInteraction) => {
+    const loaded = await getCassette();
+    loaded.interactions.push(interaction);
+    // Serialize writes so concurrent calls do not interleave
+    saving = saving.then(() => store.save(loaded));
+    await saving;
+  };
+
+  const replay = async (request: CassetteInteraction['request']) => {
+    const { interactions } = await getCassette();
+    const key = matchKey(request);
+    // Same request first, then the next unplayed call to the same endpoint in recording order
+    let index = interactions.findIndex((interaction, i) => !replayed.has(i) && matchKey(interaction.request) === key);
+    if (index === -1) {
+      index = interactions.findIndex((interaction, i) =>
+        !replayed.has(i) &&
+        interaction.request.method === request.method &&
+        interaction.request.url === request.url
+      );
+    }
+    if (index === -1) {
+      throw new Error(`No recorded response in cassette "${options.name}" for ${request.method} ${request.url}`);
+    }
+
+    replayed.add(index);
+    const { response } = interactions[index];
+    return new Response(response.body === '' ? null : response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  return async (input, init) => {
+    const body = bodyText(init?.body);
+    const request = {
+      method: (init?.method ?? 'GET').toUpperCase(),
+      url: scrubUrl(input.toString()),
+      headers: scrubHeaders(new Headers(init?.headers)),
+      ...(body !== undefined && { body: scrubText(body) }),
+    };
+
+    if (options.mode === 'replay') {
+      return replay(request);
+    }
+
+    const response = await baseFetch(input, init);
+    const responseBody = await response.clone().text();
+    await record({
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(
+          Object.entries(scrubHeaders(response.headers)).filter(([key]) => !UNREPLAYABLE_HEADERS.includes(key))
+        ),
+        body: scrubText(responseBody),
+      },
+      recordedAt: new Date().toISOString(),
+    });
+    return response;
+  };
+};
+
+const mode = import.meta.env.VITE_CASSETTE_MODE;
+export const CASSETTE_MODE: CassetteMode = mode === 'record' || mode === 'replay' ? mode : 'off';
+export const CASSETTE_NAME: string = import.meta.env.VITE_CASSETTE_NAME || 'session';
+
+// Used by DimoMcpClient, aiService and documentProcessor for every upstream call
+export const cassetteFetch = createCassetteFetch({ mode: CASSETTE_MODE, name: CASSETTE_NAME });
+
+/**
+ * Save a recorded cassette as a JSON file, e.g. to put it in public/cassettes for replay
+ */
+export const downloadCassette = async (name: string = CASSETTE_NAME): Promise<void> => {
+  const cassette = await browserCassetteStore.load(name);
+  if (!cassette) {
+    throw new Error(`No cassette named "${name}" has been recorded`);
+  }
+  const url = URL.createObjectURL(new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,8 +1,9 @@
 // Simple logger utility with debug mode control
-const DEBUG_MODE = import.meta.env.VITE_DEBUG_MODE === 'true';
+// import.meta.env only exists in Vite builds; the server handlers in src/server use this logger too
+const DEBUG_MODE = import.meta.env?.VITE_DEBUG_MODE === 'true';
 
 // Sanitize sensitive data for logging
-const sanitizeData = (data: any): any => {
+const sanitizeData = (data: unknown): unknown => {
   if (typeof data === 'string') {
     // Hide API keys, private keys, VINs, and other sensitive strings
     if (data.includes('0x') && data.length > 40) {
@@ -15,7 +16,8 @@ const sanitizeData = (data: any): any => {
   }
   
   if (typeof data === 'object' && data !== null) {
-    const sanitized = { ...data };
+    const sanitized: Record<string, unknown> = { ...data };
+    // Mirrored by FIELDS_TO_HIDE in mcp-dimo/src/helpers/logging.ts; change both together
     const fieldsToHide = [
       'apiKey', 'privateKey', 'signature', 'jwt', 'access_token', 'token',
       'vin', 'plateNumber', 'policyNumber', 'ownerName', 'ownerAddress',
@@ -24,9 +26,10 @@ const sanitizeData = (data: any): any => {
     ];
     
     fieldsToHide.forEach(field => {
-      if (sanitized[field]) {
-        if (typeof sanitized[field] === 'string' && sanitized[field].length > 10) {
-          sanitized[field] = sanitized[field].substring(0, 8) + '...';
+      const value = sanitized[field];
+      if (value) {
+        if (typeof value === 'string' && value.length > 10) {
+          sanitized[field] = value.substring(0, 8) + '...';
         } else {
           sanitized[field] = '[HIDDEN]';
         }
@@ -47,21 +50,21 @@ const sanitizeData = (data: any): any => {
 };
 
 export const logger = {
-  debug: (message: string, data?: any) => {
+  debug: (message: string, data?: unknown) => {
     if (DEBUG_MODE) {
       console.log(message, data ? sanitizeData(data) : '');
     }
   },
   
-  info: (message: string, data?: any) => {
+  info: (message: string, data?: unknown) => {
     console.log(message, data ? sanitizeData(data) : '');
   },
   
-  warn: (message: string, data?: any) => {
+  warn: (message: string, data?: unknown) => {
     console.warn(message, data ? sanitizeData(data) : '');
   },
   
-  error: (message: string, data?: any) => {
+  error: (message: string, data?: unknown) => {
     console.error(message, data ? sanitizeData(data) : '');
   },
   
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRIVACY_SETTINGS, type PrivacySettings } from '../types/privacy';
+import { createRedactionSalt, redactAttestationData, redactionHash } from './redaction';
+
+const SALT = '0123456789abcdef0123456789abcdef';
+
+const DOCUMENT = {
+  documentType: 'insurance',
+  vin: '1HGCM82633A004352',
+  vehicleInfo: { make: 'Honda', ownerName: 'Jane Doe', ownerAddress: '1 Main St' },
+  insuranceInfo: { insuranceProvider: 'Acme', policyNumber: 'POL-42', premium: 1200 },
+  serviceInfo: {
+    serviceProvider: 'Quick Lube',
+    services: [{ item: 'Oil change', cost: 80 }],
+    totalCost: 80,
+  },
+  extractedText: 'Policy POL-42 for Jane Doe',
+  empty: undefined,
+};
+
+const HASH_SETTINGS: PrivacySettings = { ...DEFAULT_PRIVACY_SETTINGS, redactionMode: 'hash' };
+
+const actions = (fields: { path: string; action: string }[]) =>
+  Object.fromEntries(fields.map(({ path, action }) => [path, action]));
+
+describe('redactAttestationData', () => {
+  it('drops the fields the default settings exclude', () => {
+    const { data, fields } = redactAttestationData(DOCUMENT, DEFAULT_PRIVACY_SETTINGS, SALT);
+
+    expect(data).toEqual({
+      documentType: 'insurance',
+      vin: '1HGCM82633A004352',
+      vehicleInfo: { make: 'Honda' },
+      insuranceInfo: { insuranceProvider: 'Acme' },
+      serviceInfo: { serviceProvider: 'Quick Lube' },
+      extractedText: 'Policy POL-42 for Jane Doe',
+    });
+    expect(actions(fields)).toEqual({
+      documentType: 'kept',
+      vin: 'kept',
+      'vehicleInfo.make': 'kept',
+      'vehicleInfo.ownerName': 'removed',
+      'vehicleInfo.ownerAddress': 'removed',
+      'insuranceInfo.insuranceProvider': 'kept',
+      'insuranceInfo.policyNumber': 'removed',
+      'insuranceInfo.premium': 'removed',
+      'serviceInfo.serviceProvider': 'kept',
+      // Needs both financial and service details
+      'serviceInfo.services': 'removed',
+      'serviceInfo.totalCost': 'removed',
+      extractedText: 'kept',
+    });
+  });
+
+  it('keeps a field only when every setting it requires is on', () => {
+    const { data } = redactAttestationData(DOCUMENT, { ...DEFAULT_PRIVACY_SETTINGS, includeOwnerInfo: true }, SALT);
+
+    // The address also needs includePersonalDetails
+    expect(data.vehicleInfo).toEqual({ make: 'Honda', ownerName: 'Jane Doe' });
+  });
+
+  it('replaces excluded fields with salted commitments in hash mode', () => {
+    const { data, fields } = redactAttestationData(DOCUMENT, HASH_SETTINGS, SALT);
+    const policyNumber = redactionHash(SALT, 'insuranceInfo.policyNumber', 'POL-42');
+
+    expect(policyNumber).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect((data.insuranceInfo as Record<string, unknown>).policyNumber).toBe(policyNumber);
+    expect((data.serviceInfo as Record<string, unknown>).services).toBe(
+      redactionHash(SALT, 'serviceInfo.services', DOCUMENT.serviceInfo.services)
+    );
+    expect(fields.find(({ path }) => path === 'insuranceInfo.policyNumber')).toEqual({
+      path: 'insuranceInfo.policyNumber',
+      action: 'hashed',
+      value: 'POL-42',
+      hash: policyNumber,
+    });
+    expect(data.vehicleInfo).toEqual({
+      make: 'Honda',
+      ownerName: redactionHash(SALT, 'vehicleInfo.ownerName', 'Jane Doe'),
+      ownerAddress: redactionHash(SALT, 'vehicleInfo.ownerAddress', '1 Main St'),
+    });
+  });
+
+  it('binds commitments to the salt and the field path', () => {
+    expect(redactionHash(createRedactionSalt(), 'insuranceInfo.policyNumber', 'POL-42')).not.toBe(
+      redactionHash(SALT, 'insuranceInfo.policyNumber', 'POL-42')
+    );
+    expect(redactionHash(SALT, 'policyNumber', 'POL-42')).not.toBe(
+      redactionHash(SALT, 'insuranceInfo.policyNumber', 'POL-42')
+    );
+  });
+
+  it('reproduces the published commitments from the stored redaction_salt', () => {
+    const published = redactAttestationData(DOCUMENT, HASH_SETTINGS, SALT);
+    // What attestations.redaction_salt holds for the attempt
+    const storedSalt = SALT;
+
+    expect(redactAttestationData(structuredClone(DOCUMENT), HASH_SETTINGS, storedSalt)).toEqual(published);
+    expect(redactAttestationData(DOCUMENT, HASH_SETTINGS, createRedactionSalt()).data).not.toEqual(published.data);
+  });
+
+  it('does not change the document', () => {
+    const document = structuredClone(DOCUMENT);
+
+    redactAttestationData(document, HASH_SETTINGS, SALT);
+
+    expect(document).toEqual(DOCUMENT);
+  });
+});
@@ -0,0 +1,109 @@
+// Redaction of attestation data by privacy settings
+//
+// redactAttestationData is pure: it never mutates its input and, for a given salt, always returns the
+// same data and the same field-by-field report (kept, removed or hashed), which the upload flow shows
+// for approval before anything is published. In 'hash' mode a field the settings exclude is replaced by
+// a salted SHA-256 commitment instead of being dropped: the owner can later prove the value by revealing
+// it with the salt (see redactionHash), while the attestation alone does not reveal it.
+
+import { sha256, toUtf8Bytes } from 'ethers';
+import { canonicalJson } from './attestationTypedData';
+import type { PrivacySettings } from '../types/privacy';
+
+export type RedactionAction = 'kept' | 'removed' | 'hashed';
+
+export interface RedactionRule {
+  /** Dotted path in the attestation data; also covers everything below it */
+  path: string;
+  /** The field is published only when all of these settings are on */
+  requires: (keyof Omit<PrivacySettings, 'redactionMode'>)[];
+}
+
+export const REDACTION_RULES: RedactionRule[] = [
+  { path: 'vehicleInfo.ownerName', requires: ['includeOwnerInfo'] },
+  { path: 'vehicleInfo.ownerAddress', requires: ['includeOwnerInfo', 'includePersonalDetails'] },
+  { path: 'insuranceInfo.policyNumber', requires: ['includePersonalDetails'] },
+  { path: 'policyNumber', requires: ['includePersonalDetails'] },
+  { path: 'insuranceInfo.premium', requires: ['includeFinancialInfo'] },
+  { path: 'serviceInfo.totalCost', requires: ['includeFinancialInfo'] },
+  { path: 'serviceInfo.services', requires: ['includeFinancialInfo', 'includeServiceDetails'] },
+  { path: 'serviceInfo.serviceProvider', requires: ['includeServiceDetails'] },
+  { path: 'extractedText', requires: ['includeDocumentMetadata'] },
+];
+
+export interface RedactionField {
+  path: string;
+  action: RedactionAction;
+  /** The value in the document, shown in the preview only */
+  value: unknown;
+  /** The commitment published instead of a hashed value */
+  hash?: string;
+}
+
+export interface RedactionResult {
+  data: Record<string, unknown>;
+  fields: RedactionField[];
+}
+
+/**
+ * Commitment to a field value: sha256:<hex> of the salt, the field path and the value's canonical JSON.
+ * Recomputing it from a revealed value and salt proves the value was attested.
+ */
+export function redactionHash(salt: string, path: string, value: unknown): string {
+  return `sha256:${sha256(toUtf8Bytes(`${salt}:${path}:${canonicalJson(value)}`)).slice(2)}`;
+}
+
+/**
+ * A random salt for one document's commitments, to be kept by the owner
+ */
+export function createRedactionSalt(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function ruleFor(path: string, rules: RedactionRule[]) {
+  return rules.find((rule) => path === rule.path || path.startsWith(`${rule.path}.`));
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Redact attestation data with the privacy settings
+ * @param salt - Salt of the commitments in 'hash' mode
+ */
+export function redactAttestationData(
+  data: Record<string, unknown>,
+  settings: PrivacySettings,
+  salt: string,
+  rules: RedactionRule[] = REDACTION_RULES
+): RedactionResult {
+  const fields: RedactionField[] = [];
+
+  const visit = (value: Record<string, unknown>, prefix: string): Record<string, unknown> => {
+    const output: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry === undefined) continue;
+      const path = prefix ? `${prefix}.${key}` : key;
+      const rule = ruleFor(path, rules);
+
+      if (rule && !rule.requires.every((setting) => settings[setting])) {
+        if (settings.redactionMode === 'hash') {
+          const hash = redactionHash(salt, path, entry);
+          fields.push({ path, action: 'hashed', value: entry, hash });
+          output[key] = hash;
+        } else {
+          fields.push({ path, action: 'removed', value: entry });
+        }
+      } else if (isPlainObject(entry)) {
+        output[key] = visit(entry, path);
+      } else {
+        fields.push({ path, action: 'kept', value: entry });
+        output[key] = Array.isArray(entry) ? structuredClone(entry) : entry;
+      }
+    }
+    return output;
+  };
+
+  return { data: visit(data, ''), fields };
+}
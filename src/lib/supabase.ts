@@ -176,6 +176,54 @@ export interface Database {
           storage_path?: string;
         };
       };
+      attestations: {
+        Row: {
+          id: string;
+          document_id: string;
+          token_id: number;
+          status: 'attested' | 'failed';
+          cloud_event_id?: string; // Missing when the attempt failed before the envelope was built
+          subject?: string; // Vehicle DID
+          payload_hash?: string; // SHA-256 of the signed data
+          upstream_status?: number; // Status returned by the DIMO attest endpoint
+          error?: string;
+          signer?: string;
+          event?: string; // Signed CloudEvent JSON, verifiable offline
+          redaction_salt?: string; // Salt of the hashed fields' commitments, never published
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          document_id: string;
+          token_id: number;
+          status: 'attested' | 'failed';
+          cloud_event_id?: string;
+          subject?: string;
+          payload_hash?: string;
+          upstream_status?: number;
+          error?: string;
+          signer?: string;
+          event?: string;
+          redaction_salt?: string;
+          created_at?: string;
+        };
+        // Attempts are never rewritten, a retry adds a new one
+        Update: {
+          id?: string;
+          document_id?: string;
+          token_id?: number;
+          status?: 'attested' | 'failed';
+          cloud_event_id?: string;
+          subject?: string;
+          payload_hash?: string;
+          upstream_status?: number;
+          error?: string;
+          signer?: string;
+          event?: string;
+          redaction_salt?: string;
+          created_at?: string;
+        };
+      };
     };
   };
 }
@@ -439,6 +487,20 @@ export const db = {
     return data || [];
   },
 
+  // Attestation history operations; attempts are recorded by the server (src/server/attestationHistory.ts)
+  async getAttestationsForDocuments(documentIds: string[]) {
+    if (documentIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('attestations')
+      .select('*')
+      .in('document_id', documentIds)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
   // File storage operations
   async uploadFile(file: File, path: string) {
     console.log('Uploading file to path:', path);
@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Car, Shield, Zap, Users } from "lucide-react";
 import { LoginWithDimo, ShareVehiclesWithDimo } from '@dimo-network/login-with-dimo';
 import { db } from '@/lib/supabase';
+import { DIMO_ENDPOINTS } from '@/config/dimoEndpoints';
 
 export default function AuthLogin() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -198,7 +199,7 @@ export default function AuthLogin() {
       // Use the correct DIMO Identity API endpoint and query structure
       console.log('Testing DIMO Identity API connection...');
       
-      const response = await fetch('https://identity-api.dimo.zone/query', {
+      const response = await fetch(DIMO_ENDPOINTS.identity, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -28,6 +28,8 @@ import {
 import { trpc } from "@/lib/trpc";
 import { toast } from "@/hooks/use-toast";
 import { db } from "@/lib/supabase";
+import { DIMO_ENDPOINTS } from "@/config/dimoEndpoints";
+import { dimoMcpClient } from "@/services/dimoMcpClient";
 
 // Mock vehicle data interface
 interface DimoVehicle {
@@ -58,6 +60,112 @@ interface UserAuthData {
   walletAddress?: string;
 }
 
+// Latest signals shown on the dashboard, fetched per vehicle or for the whole fleet in one MCP batch call
+const LATEST_SIGNALS_QUERY = `query GetLatestSignals($tokenId: Int!) {
+  signalsLatest(tokenId: $tokenId) {
+    # Vehicle Info & Status
+    powertrainTransmissionTravelledDistance {
+      value
+      timestamp
+    }
+    speed {
+      value
+      timestamp
+    }
+    isIgnitionOn {
+      value
+      timestamp
+    }
+    lastSeen
+
+    # Fuel System
+    powertrainFuelSystemRelativeLevel {
+      value
+      timestamp
+    }
+    powertrainFuelSystemAbsoluteLevel {
+      value
+      timestamp
+    }
+    powertrainFuelSystemSupportedFuelTypes {
+      value
+      timestamp
+    }
+
+    # Battery & Charging
+    powertrainTractionBatteryStateOfChargeCurrent {
+      value
+      timestamp
+    }
+    powertrainTractionBatteryStateOfChargeCurrentEnergy {
+      value
+      timestamp
+    }
+    powertrainTractionBatteryGrossCapacity {
+      value
+      timestamp
+    }
+    powertrainTractionBatteryChargingIsCharging {
+      value
+      timestamp
+    }
+    lowVoltageBatteryCurrentVoltage {
+      value
+      timestamp
+    }
+
+    # Engine
+    powertrainType {
+      value
+      timestamp
+    }
+    powertrainRange {
+      value
+      timestamp
+    }
+    powertrainCombustionEngineSpeed {
+      value
+      timestamp
+    }
+    powertrainCombustionEngineECT {
+      value
+      timestamp
+    }
+    powertrainCombustionEngineTPS {
+      value
+      timestamp
+    }
+
+    # Diagnostics
+    obdEngineLoad {
+      value
+      timestamp
+    }
+    obdIntakeTemp {
+      value
+      timestamp
+    }
+    obdBarometricPressure {
+      value
+      timestamp
+    }
+    obdRunTime {
+      value
+      timestamp
+    }
+    obdDTCList {
+      value
+      timestamp
+    }
+
+    # Environment
+    exteriorAirTemperature {
+      value
+      timestamp
+    }
+  }
+}`;
+
 // Helper function to convert database vehicle to DimoVehicle format
 const convertDbVehicleToDimoVehicle = (dbVehicle: any): DimoVehicle => {
   return {
@@ -178,14 +286,14 @@ export default function Dashboard() {
       }
 
       // Make direct token exchange request to get vehicle-specific JWT
-      const response = await fetch('https://token-exchange-api.dimo.zone/v1/tokens/exchange', {
+      const response = await fetch(`${DIMO_ENDPOINTS.tokenExchange}/v1/tokens/exchange`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${developerJwt}`
         },
         body: JSON.stringify({
-          nftContractAddress: '0xbA5738a18d83D41847dfFbDC6101d37C69c9B0cF', // Production contract address
+          nftContractAddress: DIMO_ENDPOINTS.vehicleContractAddress,
           tokenId: tokenId,
           privileges: [1] // All-time, non-location data
         })
@@ -221,117 +329,14 @@ export default function Dashboard() {
       }
 
       // Make direct call to DIMO Telemetry API with vehicle JWT
-      const response = await fetch('https://telemetry-api.dimo.zone/query', {
+      const response = await fetch(DIMO_ENDPOINTS.telemetry, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${vehicleJwt}`
         },
         body: JSON.stringify({
-          query: `query GetLatestSignals($tokenId: Int!) {
-            signalsLatest(tokenId: $tokenId) {
-              # Vehicle Info & Status
-              powertrainTransmissionTravelledDistance {
-                value
-                timestamp
-              }
-              speed {
-                value
-                timestamp
-              }
-              isIgnitionOn {
-                value
-                timestamp
-              }
-              lastSeen
-              
-              # Fuel System
-              powertrainFuelSystemRelativeLevel {
-                value
-                timestamp
-              }
-              powertrainFuelSystemAbsoluteLevel {
-                value
-                timestamp
-              }
-              powertrainFuelSystemSupportedFuelTypes {
-                value
-                timestamp
-              }
-              
-              # Battery & Charging
-              powertrainTractionBatteryStateOfChargeCurrent {
-                value
-                timestamp
-              }
-              powertrainTractionBatteryStateOfChargeCurrentEnergy {
-                value
-                timestamp
-              }
-              powertrainTractionBatteryGrossCapacity {
-                value
-                timestamp
-              }
-              powertrainTractionBatteryChargingIsCharging {
-                value
-                timestamp
-              }
-              lowVoltageBatteryCurrentVoltage {
-                value
-                timestamp
-              }
-              
-              # Engine
-              powertrainType {
-                value
-                timestamp
-              }
-              powertrainRange {
-                value
-                timestamp
-              }
-              powertrainCombustionEngineSpeed {
-                value
-                timestamp
-              }
-              powertrainCombustionEngineECT {
-                value
-                timestamp
-              }
-              powertrainCombustionEngineTPS {
-                value
-                timestamp
-              }
-              
-              # Diagnostics
-              obdEngineLoad {
-                value
-                timestamp
-              }
-              obdIntakeTemp {
-                value
-                timestamp
-              }
-              obdBarometricPressure {
-                value
-                timestamp
-              }
-              obdRunTime {
-                value
-                timestamp
-              }
-              obdDTCList {
-                value
-                timestamp
-              }
-              
-              # Environment
-              exteriorAirTemperature {
-                value
-                timestamp
-              }
-            }
-          }`,
+          query: LATEST_SIGNALS_QUERY,
           variables: {
             tokenId: tokenId
           }
@@ -357,6 +362,36 @@ export default function Dashboard() {
     }
   };
 
+  // Latest telemetry of every vehicle: one vehicle_batch_query call to the MCP server, then a direct
+  // fetch for the vehicles the batch could not serve (server unreachable, vehicle not shared with it)
+  const fetchFleetTelemetry = async (tokenIds: number[]): Promise<Map<number, any>> => {
+    const telemetryByTokenId = new Map<number, any>();
+    if (tokenIds.length === 0) return telemetryByTokenId;
+
+    const batch = await dimoMcpClient.vehicleBatchQuery<unknown, { signalsLatest?: unknown }>({
+      tokenIds,
+      telemetryQuery: LATEST_SIGNALS_QUERY,
+      privileges: [1]
+    });
+    if (batch.success) {
+      for (const result of batch.data?.results ?? []) {
+        if (result.telemetry?.signalsLatest) {
+          telemetryByTokenId.set(result.tokenId, result.telemetry.signalsLatest);
+        }
+      }
+      console.log(`✓ Batch telemetry received for ${telemetryByTokenId.size}/${tokenIds.length} vehicles`);
+    } else {
+      console.warn('Batch telemetry unavailable, fetching vehicles one by one:', batch.error);
+    }
+
+    await Promise.all(
+      tokenIds
+        .filter((tokenId) => !telemetryByTokenId.has(tokenId))
+        .map(async (tokenId) => telemetryByTokenId.set(tokenId, await fetchVehicleTelemetry(tokenId)))
+    );
+    return telemetryByTokenId;
+  };
+
   // Calculate health score based on telemetry data
   const calculateHealthScore = (telemetry: any): number => {
     if (!telemetry) return 85; // Default health score
@@ -484,13 +519,12 @@ export default function Dashboard() {
         if (Array.isArray(uniqueAllVehicles) && uniqueAllVehicles.length > 0) {
           console.log(`Processing ${uniqueAllVehicles.length} vehicles...`);
           
-          // Convert vehicles and fetch telemetry for each
+          // Convert vehicles and fetch telemetry for the whole fleet
+          const convertedVehicles = uniqueAllVehicles.map(convertSharedToVehicle);
+          const fleetTelemetry = await fetchFleetTelemetry(convertedVehicles.map((vehicle) => vehicle.tokenId));
           const vehiclesWithTelemetry = await Promise.all(
-            uniqueAllVehicles.map(async (vehicle) => {
-              const convertedVehicle = convertSharedToVehicle(vehicle);
-              
-              // Fetch telemetry data for this vehicle
-              const telemetry = await fetchVehicleTelemetry(convertedVehicle.tokenId);
+            convertedVehicles.map(async (convertedVehicle) => {
+              const telemetry = fleetTelemetry.get(convertedVehicle.tokenId) ?? null;
               
               // Update vehicle with real data
               const healthScore = calculateHealthScore(telemetry);
@@ -529,13 +563,12 @@ export default function Dashboard() {
               if (fetchedVehicles.length > 0) {
                 console.log(`Fetched ${fetchedVehicles.length} vehicles from DIMO API`);
                 
-                // Convert vehicles and fetch telemetry for each
+                // Convert vehicles and fetch telemetry for the whole fleet
+                const convertedVehicles = fetchedVehicles.map(convertSharedToVehicle);
+                const fleetTelemetry = await fetchFleetTelemetry(convertedVehicles.map((vehicle) => vehicle.tokenId));
                 const vehiclesWithTelemetry = await Promise.all(
-                  fetchedVehicles.map(async (vehicle) => {
-                    const convertedVehicle = convertSharedToVehicle(vehicle);
-                    
-                    // Fetch telemetry data for this vehicle
-                    const telemetry = await fetchVehicleTelemetry(convertedVehicle.tokenId);
+                  convertedVehicles.map(async (convertedVehicle) => {
+                    const telemetry = fleetTelemetry.get(convertedVehicle.tokenId) ?? null;
                     
                     // Update vehicle with real data
                                     const healthScore = calculateHealthScore(telemetry);
@@ -687,7 +720,7 @@ export default function Dashboard() {
     try {
       console.log('Fetching vehicles from DIMO Identity API...');
       
-      const response = await fetch('https://identity-api.dimo.zone/query', {
+      const response = await fetch(DIMO_ENDPOINTS.identity, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -982,7 +1015,7 @@ export default function Dashboard() {
           
           <DocumentUpload 
             vehicleId={vehicles[0]?.id || '550e8400-e29b-41d4-a716-446655440000'} 
-            tokenId={vehicles[0]?.tokenId || authData?.tokenId || 999999}
+            tokenId={vehicles[0]?.tokenId || authData?.tokenId}
             onDocumentProcessed={handleDocumentProcessed}
           />
         </div>
@@ -0,0 +1,377 @@
+// Server-side DIMO document attestation
+//
+// The browser sends the document data it has already redacted with the user's privacy settings (see
+// src/lib/redaction.ts); the server wraps it in the attestation envelope, signs it with the developer
+// license's key (see attestationSigner.ts), authenticates with the web3 challenge and posts it to the
+// attest endpoint. Callers must be signed in with DIMO and own the vehicle they attest for (see
+// dimoSession.ts). Attempts for a document are recorded in its attestation history (see
+// attestationHistory.ts).
+// Served by api/dimo-attestation.ts on Vercel and by the Vite dev server.
+//
+//   DIMO_CLIENT_ID                  Developer license client id (VITE_DIMO_CLIENT_ID is accepted)
+//   DIMO_DOMAIN                     Redirect domain registered with the license (VITE_DIMO_DOMAIN is accepted)
+//   DIMO_VEHICLE_CONTRACT_ADDRESS   Vehicle NFT contract of the attestation subject, by default the
+//                                   contract on the attestation chain
+//   DIMO_ATTESTATION_CHAIN_ID       80002 (default, Polygon Amoy) or 137 (Polygon)
+//   DIMO_ATTESTATION_SIGNATURE      personal_sign (default) over canonical JSON, or eip712 typed data
+//                                   (see src/lib/attestationTypedData.ts)
+
+import { z } from 'zod';
+import {
+  DIMO_VEHICLE_CONTRACTS,
+  nodeEnvReader,
+  resolveDimoEndpoints,
+  type DimoEndpoints,
+  type DimoEnvironmentName,
+} from '../config/dimoEndpoints';
+import {
+  ATTESTATION_CHAIN_IDS,
+  ATTESTATION_SIGNATURE_TYPES,
+  DEFAULT_ATTESTATION_CHAIN_ID,
+  attestationDataHash,
+  attestationTypedData,
+  canonicalJson,
+  type AttestationChainId,
+  type AttestationSignatureType,
+} from '../lib/attestationTypedData';
+import type { AttestationEvent } from '../lib/attestationVerification';
+import { logger } from '../lib/logger';
+import { recordAttestationAttempt, type AttestationRow } from './attestationHistory';
+import { resolveAttestationSigner, type AttestationSigner } from './attestationSigner';
+import { authorizeVehicle, verifyDimoSession } from './dimoSession';
+
+// The DIMO environment whose vehicle contract lives on each attestation chain
+const CHAIN_ENVIRONMENTS: Record<AttestationChainId, DimoEnvironmentName> = {
+  80002: 'Dev',
+  137: 'Production',
+};
+const UPSTREAM_TIMEOUT_MS = 15000;
+
+export const AttestationRequestSchema = z.object({
+  vehicleTokenId: z.number().int().nonnegative(),
+  /** Redacted document data; subject and attestorAddress are set by the server */
+  data: z.record(z.string(), z.unknown()),
+  /** Document whose attestation history records the attempt */
+  documentId: z.string().uuid().optional(),
+  /** Salt of the hashed fields' commitments, stored with the attempt and never published */
+  redactionSalt: z.string().optional(),
+});
+
+export type AttestationRequest = z.infer<typeof AttestationRequestSchema>;
+
+/** Identifies an attestation attempt in the document's attestation history */
+export interface AttestationEnvelope {
+  /** CloudEvent id */
+  id: string;
+  /** Vehicle DID */
+  subject: string;
+  /** SHA-256 of the canonical JSON of the signed data */
+  payloadHash: string;
+}
+
+export type AttestationResult =
+  | ({ success: true; signer: string; upstreamStatus: number; event: AttestationEvent } & AttestationEnvelope)
+  | ({ success: false; status: number; error: string; upstreamStatus?: number } & Partial<AttestationEnvelope>);
+
+interface ChallengeResponse {
+  challenge: string;
+  state: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+}
+
+// Narrows success-discriminated results, which `!result.success` does not do without strictNullChecks
+function isFailure<T extends { success: boolean }>(result: T): result is Extract<T, { success: false }> {
+  return result.success === false;
+}
+
+export interface AttestationConfig {
+  clientId: string;
+  domain: string;
+  vehicleContractAddress: string;
+  chainId: AttestationChainId;
+  signatureType: AttestationSignatureType;
+  endpoints: DimoEndpoints;
+}
+
+export class AttestationService {
+  private jwt: string | null = null;
+  private jwtExpiry = 0;
+
+  constructor(
+    private signer: AttestationSigner,
+    readonly config: AttestationConfig
+  ) {}
+
+  async attest(request: AttestationRequest): Promise<AttestationResult> {
+    const { clientId, vehicleContractAddress, chainId, signatureType } = this.config;
+    const subject = `did:erc721:${chainId}:${vehicleContractAddress}:${request.vehicleTokenId}`;
+    const id = `dimo-ai-doc-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+    let envelope: AttestationEnvelope | undefined;
+
+    try {
+      // The address the signature recovers to, which verification checks by default
+      const attestorAddress = await this.signer.getAddress();
+      const data = { ...request.data, subject, attestorAddress };
+      envelope = { id, subject, payloadHash: attestationDataHash(data) };
+      const jwt = await this.getJWT();
+      const event: AttestationEvent = {
+        id,
+        source: clientId,
+        producer: `did:ethr:${chainId}:${clientId}`,
+        specversion: '1.0',
+        subject,
+        time: new Date().toISOString(),
+        type: 'dimo.attestation',
+        data,
+        signature: await this.sign(data),
+        signaturetype: signatureType
+      };
+      const response = await fetch(`${this.config.endpoints.attest}/`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${jwt}`,
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify(event),
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        return {
+          success: false,
+          status: 502,
+          upstreamStatus: response.status,
+          error: `Attest endpoint returned ${response.status}: ${text.slice(0, 200)}`,
+          ...envelope
+        };
+      }
+      // The signed event is returned so it can be stored and verified offline (src/lib/attestationVerification.ts)
+      return { success: true, signer: attestorAddress, upstreamStatus: response.status, event, ...envelope };
+    } catch (error) {
+      return { success: false, status: 502, error: error instanceof Error ? error.message : String(error), ...envelope };
+    }
+  }
+
+  private async sign(data: Record<string, unknown>) {
+    if (this.config.signatureType === 'eip712') {
+      const { domain, types, value } = attestationTypedData(data, this.config.chainId);
+      return this.signer.signTypedData(domain, types, value);
+    }
+    return this.signer.signMessage(canonicalJson(data));
+  }
+
+  /**
+   * Authenticate with DIMO without attesting anything
+   */
+  async testConnection(): Promise<{ success: true; signer: string } | { success: false; status: number; error: string }> {
+    try {
+      await this.getJWT();
+      return { success: true, signer: await this.signer.getAddress() };
+    } catch (error) {
+      return { success: false, status: 502, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async getJWT(): Promise<string> {
+    if (this.jwt && Date.now() < this.jwtExpiry) {
+      return this.jwt;
+    }
+
+    const { clientId, domain, endpoints } = this.config;
+    const challengeParams = new URLSearchParams({
+      client_id: clientId,
+      domain,
+      scope: 'openid email',
+      response_type: 'code',
+      address: clientId
+    });
+    const challengeResponse = await fetch(`${endpoints.auth}/auth/web3/generate_challenge?${challengeParams}`, {
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)
+    });
+    if (!challengeResponse.ok) {
+      throw new Error(`Failed to generate challenge: ${challengeResponse.status}`);
+    }
+    const challengeData = (await challengeResponse.json()) as ChallengeResponse;
+
+    const submitResponse = await fetch(`${endpoints.auth}/auth/web3/submit_challenge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: clientId,
+        state: challengeData.state,
+        grant_type: 'authorization_code',
+        domain,
+        signature: await this.signer.signMessage(challengeData.challenge)
+      }),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)
+    });
+    if (!submitResponse.ok) {
+      throw new Error(`Failed to submit challenge: ${submitResponse.status}`);
+    }
+    const tokenData = (await submitResponse.json()) as TokenResponse;
+
+    this.jwt = tokenData.access_token;
+    // Refresh a minute early so a token never expires on its way to the attest endpoint
+    this.jwtExpiry = Date.now() + (tokenData.expires_in - 60) * 1000;
+    return this.jwt;
+  }
+}
+
+// Rebuilt when the signer or the configuration changes; otherwise kept for its cached JWT
+let cached: { signer: AttestationSigner | undefined; configKey: string; service: AttestationService | null } | undefined;
+
+function parseChainId(value?: string): AttestationChainId {
+  if (!value) return DEFAULT_ATTESTATION_CHAIN_ID;
+  const chainId = ATTESTATION_CHAIN_IDS.find((id) => String(id) === value.trim());
+  if (!chainId) {
+    logger.warn(`DIMO_ATTESTATION_CHAIN_ID must be ${ATTESTATION_CHAIN_IDS.join(' or ')}; using ${DEFAULT_ATTESTATION_CHAIN_ID}`);
+  }
+  return chainId ?? DEFAULT_ATTESTATION_CHAIN_ID;
+}
+
+function parseSignatureType(value?: string): AttestationSignatureType {
+  if (!value) return 'personal_sign';
+  const signatureType = ATTESTATION_SIGNATURE_TYPES.find((type) => type === value.trim().toLowerCase());
+  if (!signatureType) {
+    logger.warn(`DIMO_ATTESTATION_SIGNATURE must be ${ATTESTATION_SIGNATURE_TYPES.join(' or ')}; using personal_sign`);
+  }
+  return signatureType ?? 'personal_sign';
+}
+
+/**
+ * The attestation service configured from the environment and the signer (see setAttestationSigner),
+ * or null when the server holds no signing key or client id
+ */
+export function getAttestationService(env: Record<string, string | undefined> = process.env): AttestationService | null {
+  const read = nodeEnvReader(env);
+  const signer = resolveAttestationSigner(env);
+  const clientId = read('DIMO_CLIENT_ID');
+  const domain = read('DIMO_DOMAIN');
+  const endpoints = resolveDimoEndpoints(read);
+  const configKey = JSON.stringify([
+    clientId,
+    domain,
+    read('DIMO_VEHICLE_CONTRACT_ADDRESS'),
+    env.DIMO_ATTESTATION_CHAIN_ID,
+    env.DIMO_ATTESTATION_SIGNATURE,
+    endpoints,
+  ]);
+
+  if (cached?.signer !== signer || cached?.configKey !== configKey) {
+    const chainId = parseChainId(env.DIMO_ATTESTATION_CHAIN_ID);
+    cached = {
+      signer,
+      configKey,
+      service:
+        signer && clientId && domain
+          ? new AttestationService(signer, {
+              clientId,
+              domain,
+              vehicleContractAddress:
+                read('DIMO_VEHICLE_CONTRACT_ADDRESS') || DIMO_VEHICLE_CONTRACTS[CHAIN_ENVIRONMENTS[chainId]],
+              chainId,
+              signatureType: parseSignatureType(env.DIMO_ATTESTATION_SIGNATURE),
+              endpoints,
+            })
+          : null,
+    };
+  }
+  return cached.service;
+}
+
+export interface AttestationHttpRequest {
+  method: string | undefined;
+  body: unknown;
+  /** Authorization header with the user's Login with DIMO JWT */
+  authorization: string | undefined;
+}
+
+/**
+ * Handle a request to the attestation endpoint: POST attests a document, GET tests the connection.
+ * Both require a DIMO session; POST also requires the user to own the vehicle.
+ * @returns The HTTP status and JSON body to send
+ */
+export async function handleAttestationRequest(
+  { method, body, authorization }: AttestationHttpRequest,
+  env: Record<string, string | undefined> = process.env
+): Promise<{ status: number; body: AttestationResult | Record<string, unknown> }> {
+  if (method !== 'POST' && method !== 'GET') {
+    return { status: 405, body: { success: false, error: 'Method not allowed' } };
+  }
+
+  const attestation = getAttestationService(env);
+  if (!attestation) {
+    return {
+      status: 503,
+      body: {
+        success: false,
+        configured: false,
+        error: 'Attestation is not configured: set DIMO_CLIENT_ID, DIMO_DOMAIN and DIMO_PRIVATE_KEY or DIMO_SIGNER_KEY_FILE',
+      },
+    };
+  }
+
+  const { clientId, endpoints } = attestation.config;
+  const session = await verifyDimoSession(authorization, clientId, endpoints);
+  if (isFailure(session)) {
+    return { status: session.status, body: session };
+  }
+
+  if (method === 'GET') {
+    const result = await attestation.testConnection();
+    return isFailure(result) ? { status: result.status, body: result } : { status: 200, body: result };
+  }
+
+  const parsed = AttestationRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return { status: 400, body: { success: false, error: 'Invalid attestation request', issues: parsed.error.issues } };
+  }
+  const access = await authorizeVehicle(session, parsed.data.vehicleTokenId, endpoints);
+  if (isFailure(access)) {
+    return { status: access.status, body: access };
+  }
+  const result = await attestation.attest(parsed.data);
+  if (isFailure(result)) {
+    logger.error('DIMO attestation failed', { error: result.error, upstreamStatus: result.upstreamStatus });
+  }
+  const { documentId } = parsed.data;
+  const record = documentId && (await recordAttempt(documentId, parsed.data, result, env));
+  const responseBody = record ? { ...result, attestation: record } : result;
+  return isFailure(result) ? { status: result.status, body: responseBody } : { status: 200, body: responseBody };
+}
+
+// The attempt as the attestation history stores it; a failure to store it does not fail the attestation
+async function recordAttempt(
+  documentId: string,
+  request: AttestationRequest,
+  result: AttestationResult,
+  env: Record<string, string | undefined>
+): Promise<AttestationRow | null> {
+  try {
+    return await recordAttestationAttempt(
+      {
+        document_id: documentId,
+        token_id: request.vehicleTokenId,
+        status: result.success ? 'attested' : 'failed',
+        cloud_event_id: result.id,
+        subject: result.subject,
+        payload_hash: result.payloadHash,
+        upstream_status: result.upstreamStatus,
+        error: isFailure(result) ? result.error : undefined,
+        signer: result.success ? result.signer : undefined,
+        event: result.success ? JSON.stringify(result.event) : undefined,
+        redaction_salt: request.redactionSalt,
+      },
+      env
+    );
+  } catch (error) {
+    logger.warn('Attestation attempt not recorded', { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
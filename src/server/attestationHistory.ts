@@ -0,0 +1,51 @@
+// Attestation history, recorded by the server
+//
+// The attestation handler (attestation.ts) records every attempt it makes, successful or not, in the
+// attestations table (supabase/migrations/20261019000000_create_attestations.sql) once the attest
+// endpoint has answered. Rows are written with the service role key; the table accepts no writes from
+// the browser's anon key, so the status of an attempt is always the one the server saw.
+//
+//   SUPABASE_URL                Supabase project URL (VITE_SUPABASE_URL is accepted)
+//   SUPABASE_SERVICE_ROLE_KEY   Service role key, server-only
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { nodeEnvReader } from '../config/dimoEndpoints';
+import type { Database } from '../lib/supabase';
+
+export type AttestationRow = Database['public']['Tables']['attestations']['Row'];
+export type AttestationInsert = Database['public']['Tables']['attestations']['Insert'];
+
+// Rebuilt when the configuration changes
+let cached: { configKey: string; client: SupabaseClient | null } | undefined;
+
+function getClient(env: Record<string, string | undefined>): SupabaseClient | null {
+  const url = nodeEnvReader(env)('SUPABASE_URL');
+  const serviceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY;
+  const configKey = JSON.stringify([url, serviceRoleKey]);
+  if (cached?.configKey !== configKey) {
+    cached = {
+      configKey,
+      client: url && serviceRoleKey ? createClient(url, serviceRoleKey, { auth: { persistSession: false } }) : null,
+    };
+  }
+  return cached.client;
+}
+
+/**
+ * Record an attestation attempt
+ * @returns The stored row, or null when the server has no Supabase service role key
+ */
+export async function recordAttestationAttempt(
+  attempt: AttestationInsert,
+  env: Record<string, string | undefined> = process.env
+): Promise<AttestationRow | null> {
+  const client = getClient(env);
+  if (!client) {
+    return null;
+  }
+  const { data, error } = await client.from('attestations').insert(attempt).select().single();
+  if (error) {
+    throw new Error(`Failed to record attestation attempt: ${error.message}`);
+  }
+  return data as AttestationRow;
+}
@@ -0,0 +1,111 @@
+// Signers for DIMO attestations
+//
+// The key that signs the web3 auth challenge and the attestation payloads belongs to the developer
+// license and must never reach the browser, so it is read here, on the server, and never from a
+// VITE_ variable. A KMS or HSM can stand in for the local key by implementing AttestationSigner
+// and passing it to setAttestationSigner.
+//
+//   DIMO_SIGNER_KEY_FILE   File holding the hex private key (checked first)
+//   DIMO_PRIVATE_KEY       Hex private key, e.g. a Vercel secret
+
+import { readFileSync, statSync } from 'node:fs';
+import { Wallet, type TypedDataDomain, type TypedDataField } from 'ethers';
+
+export interface AttestationSigner {
+  /** Address the signatures recover to */
+  getAddress(): Promise<string>;
+  /** EIP-191 personal_sign signature of a message */
+  signMessage(message: string): Promise<string>;
+  /** EIP-712 signature of typed data */
+  signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, unknown>): Promise<string>;
+}
+
+function toWallet(privateKey: string) {
+  const key = privateKey.trim();
+  return new Wallet(key.startsWith('0x') ? key : `0x${key}`);
+}
+
+/**
+ * Signs with a private key held in the server's environment
+ */
+export class PrivateKeySigner implements AttestationSigner {
+  private wallet: Wallet;
+
+  constructor(privateKey: string) {
+    this.wallet = toWallet(privateKey);
+  }
+
+  async getAddress() {
+    return this.wallet.address;
+  }
+
+  async signMessage(message: string) {
+    return this.wallet.signMessage(message);
+  }
+
+  async signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, unknown>) {
+    return this.wallet.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Signs with a private key read from a file on first use, so a mounted secret can be rotated by
+ * restarting the server
+ */
+export class LocalFileSigner implements AttestationSigner {
+  private wallet: Wallet | null = null;
+
+  constructor(private path: string) {}
+
+  private load() {
+    if (!this.wallet) {
+      if ((statSync(this.path).mode & 0o077) !== 0) {
+        console.warn(`Attestation key file ${this.path} is readable by other users; restrict it with chmod 600`);
+      }
+      this.wallet = toWallet(readFileSync(this.path, 'utf8'));
+    }
+    return this.wallet;
+  }
+
+  async getAddress() {
+    return this.load().address;
+  }
+
+  async signMessage(message: string) {
+    return this.load().signMessage(message);
+  }
+
+  async signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, unknown>) {
+    return this.load().signTypedData(domain, types, value);
+  }
+}
+
+let customSigner: AttestationSigner | undefined;
+
+// The signer of the last key seen, so the same environment always resolves to the same signer
+let envSigner: { source: string; signer: AttestationSigner } | undefined;
+
+/**
+ * Use a custom signer, e.g. one backed by a KMS, instead of a local key. Takes effect on the next
+ * attestation request.
+ */
+export function setAttestationSigner(signer: AttestationSigner | undefined) {
+  customSigner = signer;
+}
+
+/**
+ * The configured signer, or undefined when the server holds no key. Returns the same signer as long
+ * as the custom signer and the key variables do not change.
+ */
+export function resolveAttestationSigner(env: Record<string, string | undefined> = process.env): AttestationSigner | undefined {
+  if (customSigner) return customSigner;
+  const source = env.DIMO_SIGNER_KEY_FILE ? `file:${env.DIMO_SIGNER_KEY_FILE}` : env.DIMO_PRIVATE_KEY ? `key:${env.DIMO_PRIVATE_KEY}` : undefined;
+  if (!source) return undefined;
+  if (envSigner?.source !== source) {
+    envSigner = {
+      source,
+      signer: env.DIMO_SIGNER_KEY_FILE ? new LocalFileSigner(env.DIMO_SIGNER_KEY_FILE) : new PrivateKeySigner(env.DIMO_PRIVATE_KEY!),
+    };
+  }
+  return envSigner.signer;
+}
@@ -0,0 +1,147 @@
+// DIMO user sessions on the server
+//
+// Endpoints that act with the developer license's key only do so for a signed-in DIMO user and only
+// for vehicles that user owns. The browser sends the Login with DIMO JWT (localStorage dimoAuth.jwt)
+// as a bearer token; it is verified against the signing keys of the DIMO auth server (<auth>/keys)
+// and must be issued to this license. Vehicle owners are read from the Identity API.
+
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from 'node:crypto';
+import type { DimoEndpoints } from '../config/dimoEndpoints';
+
+const UPSTREAM_TIMEOUT_MS = 15000;
+const JWKS_TTL_MS = 60 * 60 * 1000;
+// An unknown key id refetches the key set at most this often, for keys rotated since the last fetch
+const JWKS_REFRESH_MS = 60 * 1000;
+
+export interface DimoSession {
+  /** Wallet address of the signed-in user */
+  address: string;
+}
+
+export type DimoSessionResult = ({ success: true } & DimoSession) | { success: false; status: number; error: string };
+
+interface UserClaims {
+  ethereum_address?: string;
+  aud?: string | string[];
+  exp?: number;
+}
+
+interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string })[];
+}
+
+const keySets = new Map<string, { keys: Map<string, KeyObject>; fetchedAt: number }>();
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString()) as T;
+}
+
+async function fetchKeys(authUrl: string) {
+  const response = await fetch(`${authUrl}/keys`, { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch DIMO signing keys: ${response.status}`);
+  }
+  const { keys } = (await response.json()) as JsonWebKeySet;
+  const entry = {
+    keys: new Map(keys.filter((jwk) => jwk.kid && jwk.kty === 'RSA').map((jwk) => [jwk.kid!, createPublicKey({ key: jwk, format: 'jwk' })])),
+    fetchedAt: Date.now(),
+  };
+  keySets.set(authUrl, entry);
+  return entry;
+}
+
+async function signingKey(authUrl: string, kid: string): Promise<KeyObject | undefined> {
+  let entry = keySets.get(authUrl);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+  if (!entry || age > JWKS_TTL_MS || (!entry.keys.has(kid) && age > JWKS_REFRESH_MS)) {
+    entry = await fetchKeys(authUrl);
+  }
+  return entry.keys.get(kid);
+}
+
+/**
+ * Verify the Login with DIMO JWT of an Authorization header
+ * @param authorization - The header value, `Bearer <jwt>`
+ * @param clientId - Developer license the JWT must be issued to
+ */
+export async function verifyDimoSession(
+  authorization: string | undefined,
+  clientId: string,
+  endpoints: DimoEndpoints
+): Promise<DimoSessionResult> {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    return { success: false, status: 401, error: 'Sign in with DIMO first' };
+  }
+
+  const [header, payload, signature] = token.split('.');
+  let claims: UserClaims;
+  try {
+    const { alg, kid } = decodeSegment<{ alg?: string; kid?: string }>(header);
+    claims = decodeSegment<UserClaims>(payload);
+    if (alg !== 'RS256' || !kid || !signature) {
+      return { success: false, status: 401, error: 'Invalid DIMO session' };
+    }
+    const key = await signingKey(endpoints.auth, kid);
+    if (!key || !verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), key, Buffer.from(signature, 'base64url'))) {
+      return { success: false, status: 401, error: 'Invalid DIMO session' };
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return { success: false, status: 401, error: 'Invalid DIMO session' };
+    }
+    return { success: false, status: 502, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.some((aud) => aud?.toLowerCase() === clientId.toLowerCase())) {
+    return { success: false, status: 401, error: 'DIMO session was issued to another app' };
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+    return { success: false, status: 401, error: 'DIMO session expired, sign in again' };
+  }
+  if (!claims.ethereum_address) {
+    return { success: false, status: 401, error: 'DIMO session has no wallet address' };
+  }
+  return { success: true, address: claims.ethereum_address };
+}
+
+/**
+ * The owner of a vehicle, or undefined when the Identity API does not know the token id
+ */
+export async function fetchVehicleOwner(vehicleTokenId: number, endpoints: DimoEndpoints): Promise<string | undefined> {
+  const response = await fetch(endpoints.identity, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query: 'query VehicleOwner($tokenId: Int!) { vehicle(tokenId: $tokenId) { owner } }',
+      variables: { tokenId: vehicleTokenId },
+    }),
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Identity API returned ${response.status}`);
+  }
+  const result = (await response.json()) as { data?: { vehicle?: { owner?: string } | null } };
+  return result.data?.vehicle?.owner;
+}
+
+/**
+ * Check that the signed-in user owns a vehicle
+ */
+export async function authorizeVehicle(
+  session: DimoSession,
+  vehicleTokenId: number,
+  endpoints: DimoEndpoints
+): Promise<{ success: true } | { success: false; status: number; error: string }> {
+  let owner: string | undefined;
+  try {
+    owner = await fetchVehicleOwner(vehicleTokenId, endpoints);
+  } catch (error) {
+    return { success: false, status: 502, error: error instanceof Error ? error.message : String(error) };
+  }
+  if (owner?.toLowerCase() !== session.address.toLowerCase()) {
+    return { success: false, status: 403, error: `Vehicle ${vehicleTokenId} does not belong to the signed-in DIMO account` };
+  }
+  return { success: true };
+}
@@ -0,0 +1,126 @@
+// Server-side proxy from the web app to the MCP HTTP server (mcp-dimo/http-server.ts)
+//
+// The MCP server's API key must not be built into the browser bundle, so the web app calls
+// /api/dimo-mcp/<path> with the user's DIMO session instead and this proxy adds the key. Every vehicle
+// a call names (tokenId, tokenIds, /refresh-jwt/<tokenId>) must belong to the signed-in user (see
+// dimoSession.ts); the key's own tokenId allowlist still applies on the MCP server.
+// Served by api/dimo-mcp/[...path].ts on Vercel and by the Vite dev server.
+//
+//   DIMO_MCP_SERVER_URL   MCP HTTP server, default http://localhost:3001 (VITE_DIMO_MCP_SERVER_URL is accepted)
+//   DIMO_MCP_API_KEY      API key issued with `bun run clients create` in mcp-dimo, server-only
+//   DIMO_CLIENT_ID        Developer license the DIMO sessions are issued to
+
+import { nodeEnvReader, resolveDimoEndpoints } from '../config/dimoEndpoints';
+import { authorizeVehicle, verifyDimoSession } from './dimoSession';
+
+// Above the web client's own timeout (VITE_DIMO_MCP_TIMEOUT_MS), so the client reports it first
+const UPSTREAM_TIMEOUT_MS = 60000;
+
+const TOOL_PATH = /^\/mcp\/tools\/([a-z_]+)$/;
+const REFRESH_JWT_PATH = /^\/refresh-jwt\/(\d+)$/;
+
+export interface McpProxyRequest {
+  method: string | undefined;
+  /** Path below the proxy, e.g. /mcp/tools/telemetry_query */
+  path: string;
+  body: unknown;
+  /** Authorization header with the user's Login with DIMO JWT */
+  authorization: string | undefined;
+}
+
+type ProxyResponse = { status: number; body: unknown };
+
+// Narrows success-discriminated results, which `!result.success` does not do without strictNullChecks
+function isFailure<T extends { success: boolean }>(result: T): result is Extract<T, { success: false }> {
+  return result.success === false;
+}
+
+function failure(status: number, error: string): ProxyResponse {
+  return { status, body: { success: false, error } };
+}
+
+// Vehicles named by a tool call's params; the proxy does not know each tool's schema, so both shapes count
+function vehicleTokenIds(params: Record<string, unknown>): unknown[] {
+  return [params.tokenId, ...(Array.isArray(params.tokenIds) ? params.tokenIds : [])].filter((tokenId) => tokenId !== undefined);
+}
+
+/**
+ * Forward a web app request to the MCP server with the server's API key, for a signed-in DIMO user who
+ * owns the vehicles it names. GET /health needs no session.
+ * @returns The HTTP status and JSON body to send
+ */
+export async function handleMcpProxyRequest(
+  { method, path, body, authorization }: McpProxyRequest,
+  env: Record<string, string | undefined> = process.env
+): Promise<ProxyResponse> {
+  const read = nodeEnvReader(env);
+  const serverUrl = (read('DIMO_MCP_SERVER_URL') || 'http://localhost:3001').replace(/\/$/, '');
+
+  if (path === '/health') {
+    if (method !== 'GET') return failure(405, 'Method not allowed');
+    return forward(`${serverUrl}/health`, 'GET', undefined, undefined);
+  }
+
+  const tool = path.match(TOOL_PATH)?.[1];
+  const refreshTokenId = path.match(REFRESH_JWT_PATH)?.[1];
+  if (!tool && !refreshTokenId) {
+    return failure(404, `No MCP route ${path}`);
+  }
+  if (method !== 'POST') {
+    return failure(405, 'Method not allowed');
+  }
+
+  const clientId = read('DIMO_CLIENT_ID');
+  const apiKey = env.DIMO_MCP_API_KEY;
+  if (!clientId || !apiKey) {
+    return failure(503, 'The MCP proxy is not configured: set DIMO_CLIENT_ID and DIMO_MCP_API_KEY');
+  }
+
+  const endpoints = resolveDimoEndpoints(read);
+  const session = await verifyDimoSession(authorization, clientId, endpoints);
+  if (isFailure(session)) {
+    return { status: session.status, body: session };
+  }
+
+  const payload = (body ?? {}) as { params?: Record<string, unknown> };
+  const params = payload.params ?? {};
+  if (tool === 'command_history' && params.tokenId === undefined) {
+    // Without one the MCP server lists every vehicle the shared API key may access
+    return failure(400, 'command_history needs a tokenId');
+  }
+
+  const tokenIds = refreshTokenId ? [Number(refreshTokenId)] : vehicleTokenIds(params);
+  for (const tokenId of new Set(tokenIds)) {
+    if (typeof tokenId !== 'number' || !Number.isInteger(tokenId)) {
+      return failure(400, `Invalid vehicle tokenId: ${tokenId}`);
+    }
+    const access = await authorizeVehicle(session, tokenId, endpoints);
+    if (isFailure(access)) {
+      return { status: access.status, body: access };
+    }
+  }
+
+  return forward(`${serverUrl}${path}`, 'POST', apiKey, payload);
+}
+
+async function forward(url: string, method: string, apiKey: string | undefined, body: unknown): Promise<ProxyResponse> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+    const text = await response.text();
+    try {
+      return { status: response.status, body: JSON.parse(text) };
+    } catch {
+      return failure(502, `MCP server returned ${response.status}: ${text.slice(0, 200)}`);
+    }
+  } catch (error) {
+    return failure(502, `MCP server unreachable: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
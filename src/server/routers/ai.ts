@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { router, aiProcedure, publicProcedure } from '../trpc';
+import { DIMO_ENDPOINTS } from '../../config/dimoEndpoints';
 
 // Type definitions for AI responses
 interface VehicleGeniusRequest {
@@ -130,7 +131,7 @@ export const aiRouter = router({
       console.log('Posting DIMO attestation via proxy');
       
       try {
-        const response = await fetch('https://attest.dimo.zone/', {
+        const response = await fetch(`${DIMO_ENDPOINTS.attest}/`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -243,7 +243,7 @@ export const aiMcpRouter = router({
 
         if (input.dataType === 'vin' || input.dataType === 'all') {
           // First get identity to get VIN
-          const identityResult = await dimoMcpClient.identityQuery({
+          const identityResult = await dimoMcpClient.identityQuery<{ vehicle?: { vin?: string } }>({
             query: `{
               vehicle(tokenId: ${input.vehicleTokenId}) {
                 vin
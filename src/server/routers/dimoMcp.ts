@@ -4,6 +4,7 @@ import {
   dimoMcpClient,
   type DimoIdentityQuery,
   type DimoTelemetryQuery,
+  type DimoTelemetryHistoryQuery,
   type DimoVinOperation,
   type DimoVehicleSearch,
   type DimoAttestation,
@@ -21,6 +22,15 @@ const telemetryQuerySchema = z.object({
   tokenId: z.number().positive('Valid vehicle token ID is required'),
 });
 
+const telemetryHistorySchema = z.object({
+  tokenId: z.number().positive('Valid vehicle token ID is required'),
+  signals: z.array(z.string().min(1)).min(1, 'At least one signal is required'),
+  from: z.string().min(1, 'Start of the time range is required'),
+  to: z.string().min(1, 'End of the time range is required'),
+  interval: z.string().optional(),
+  aggregation: z.enum(['AVG', 'MIN', 'MAX', 'LAST']).optional(),
+});
+
 const vinOperationSchema = z.object({
   operation: z.enum(['decode', 'get']),
   vin: z.string().optional(),
@@ -47,6 +57,7 @@ const attestationSchema = z.object({
  * Provides direct access to DIMO MCP server operations:
  * - Identity GraphQL queries (public)
  * - Telemetry GraphQL queries (authenticated)
+ * - Aggregated telemetry history (authenticated)
  * - VIN operations (decode/get)
  * - Vehicle search
  * - Attestation creation
@@ -127,6 +138,46 @@ export const dimoMcpRouter = router({
       }
     }),
 
+  /**
+   * Fetch an aggregated telemetry time series (authenticated)
+   */
+  telemetryHistory: aiProcedure
+    .input(telemetryHistorySchema)
+    .mutation(async ({ input, ctx }) => {
+      console.log('DIMO Telemetry History:', input);
+      
+      try {
+        const request: DimoTelemetryHistoryQuery = {
+          tokenId: input.tokenId,
+          signals: input.signals,
+          from: input.from,
+          to: input.to,
+          interval: input.interval,
+          aggregation: input.aggregation,
+        };
+
+        const response = await dimoMcpClient.telemetryHistory(request);
+        
+        return {
+          success: response.success,
+          data: response.data,
+          error: response.error,
+          metadata: {
+            ...response.metadata,
+            operation: 'telemetry_history',
+            timestamp: ctx.timestamp,
+          },
+        };
+      } catch (error) {
+        console.error('DIMO Telemetry History Error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Telemetry history query failed',
+          data: null,
+        };
+      }
+    }),
+
   /**
    * VIN operations (decode or get)
    */
@@ -480,9 +531,12 @@ export const dimoMcpRouter = router({
           capabilities: [
             'identity_query',
             'telemetry_query',
-            'vin_operations',
+            'telemetry_history',
+            'vehicle_batch_query',
+            'vin_decode',
             'search_vehicles',
             'attestation_create',
+            'vehicle_commands',
             'schema_introspection',
           ],
           lastChecked: ctx.timestamp,
@@ -2,6 +2,7 @@
 // Provides intelligent vehicle analysis using OpenAI GPT-4 with MCP tools
 
 import { dimoMcpClient, type DimoMcpResponse } from './dimoMcpClient';
+import { cassetteFetch } from '@/lib/cassette';
 
 export interface AIVehicleQuery {
   query: string;
@@ -290,7 +291,7 @@ Please provide a comprehensive analysis including:
 4. Health score assessment (0-100)
 5. Confidence level in your analysis (0-100)`;
 
-      const response = await fetch(`${this.openaiEndpoint}/chat/completions`, {
+      const response = await cassetteFetch(`${this.openaiEndpoint}/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -1,5 +1,7 @@
-import { ethers } from 'ethers';
 import { PrivacySettings, DEFAULT_PRIVACY_SETTINGS } from '@/types/privacy';
+import type { AttestationEvent } from '@/lib/attestationVerification';
+import { createRedactionSalt, redactAttestationData, type RedactionField } from '@/lib/redaction';
+import type { Database } from '@/lib/supabase';
 
 // Debug mode flag - set to false in production
 const DEBUG_MODE = import.meta.env.VITE_DEBUG_MODE === 'true';
@@ -97,290 +99,196 @@ export interface DocumentAnalysis {
   };
 }
 
-export class DimoAttestationService {
-  private jwt: string | null = null;
-  private jwtExpiry: number = 0;
+/**
+ * Identifies an attestation attempt: the CloudEvent id, the vehicle DID and the SHA-256 of the signed data
+ */
+export interface AttestationEnvelope {
+  id: string;
+  subject: string;
+  payloadHash: string;
+}
+
+/**
+ * A failed call to the attestation endpoint; configured is false when the server holds no signing key.
+ * The envelope is missing when the attempt failed before the server built it.
+ */
+export interface AttestationFailure extends Partial<AttestationEnvelope> {
+  success: false;
+  configured: boolean;
+  error: string;
+  /** Status returned by the DIMO attest endpoint */
+  upstreamStatus?: number;
+  /** The attempt as the server recorded it, when it was made */
+  attestation?: AttestationRecord;
+}
 
-  constructor(
-    private clientId: string,
-    private apiKey: string,
-    private domain: string
-  ) {}
+/** The attempt as the server recorded it in the attestation history */
+export type AttestationRecord = Database['public']['Tables']['attestations']['Row'];
 
-  async createDocumentAttestation(
+export type DocumentAttestationResult =
+  | ({ success: true; signer: string; upstreamStatus: number; event: AttestationEvent; attestation?: AttestationRecord } & AttestationEnvelope)
+  | AttestationFailure;
+
+export type AttestationConnectionResult = { success: true; signer: string } | AttestationFailure;
+
+/**
+ * Narrows a result to its failure; `!result.success` does not narrow without strictNullChecks
+ */
+export function isAttestationFailure(
+  result: DocumentAttestationResult | AttestationConnectionResult
+): result is AttestationFailure {
+  return result.success === false;
+}
+
+/**
+ * Attestation data after redaction, for review before it is submitted
+ */
+export interface PreparedAttestation {
+  data: Record<string, unknown>;
+  /** Every field of the data and whether it is kept, removed or hashed */
+  fields: RedactionField[];
+  /** Salt of the hashed fields' commitments; needed to prove them later and never published */
+  salt: string;
+}
+
+/**
+ * Attests documents through the server's attestation endpoint (src/server/attestation.ts). Only the
+ * document data redacted here leaves the browser; the server signs it with the developer license's
+ * key, which the browser never holds.
+ */
+export class DimoAttestationService {
+  constructor(private endpoint: string = '/api/dimo-attestation') {}
+
+  /**
+   * Redact a document for attestation without submitting anything
+   * @param salt - Salt of the commitments of hashed fields, random by default
+   */
+  prepareDocumentAttestation(
     documentData: DocumentAnalysis,
+    privacySettings: PrivacySettings = DEFAULT_PRIVACY_SETTINGS,
+    salt: string = createRedactionSalt()
+  ): PreparedAttestation {
+    const redacted = redactAttestationData(this.createAttestationData(documentData, privacySettings), privacySettings, salt);
+    return { ...redacted, salt };
+  }
+
+  /**
+   * Submit prepared, approved attestation data for signing and publishing
+   * @param documentId - Document whose attestation history the server records the attempt in
+   */
+  async submitAttestation(
     vehicleTokenId: number,
-    privacySettings: PrivacySettings = DEFAULT_PRIVACY_SETTINGS
-  ): Promise<boolean> {
+    prepared: PreparedAttestation,
+    documentId?: string
+  ): Promise<DocumentAttestationResult> {
     try {
       console.log('Creating DIMO document attestation for vehicle:', vehicleTokenId);
       
-      // 1. Get/refresh JWT
-      const jwt = await this.getJWT();
-      
-      // 2. Create attestation payload
-      const payload = this.createAttestationPayload(documentData, vehicleTokenId, privacySettings);
-      
-      // 3. Sign the payload
-      const signature = await this.signPayload(payload.data);
-      
-      // 4. Post to attest.dimo.zone
-      const success = await this.postToAttestDimo({
-        ...payload,
-        signature
-      }, jwt);
+      const result = await this.postToServer<Extract<DocumentAttestationResult, { success: true }>>('POST', {
+        vehicleTokenId,
+        data: prepared.data,
+        documentId,
+        // Only needed to prove hashed fields
+        redactionSalt: prepared.fields.some((field) => field.action === 'hashed') ? prepared.salt : undefined,
+      });
       
-      if (success) {
-        console.log('Document attested successfully to DIMO');
+      if (isAttestationFailure(result)) {
+        console.warn('Failed to post attestation to DIMO:', result.error);
       } else {
-        console.warn('Failed to post attestation to DIMO');
+        console.log('Document attested successfully to DIMO');
       }
       
-      return success;
+      return result;
     } catch (error) {
       console.error('Document attestation failed:', error);
-      return false;
+      return { success: false, configured: true, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
-  private createAttestationPayload(
+  async createDocumentAttestation(
     documentData: DocumentAnalysis,
     vehicleTokenId: number,
-    privacySettings: PrivacySettings
-  ) {
-    const sanitizedData = this.sanitizeData(documentData, privacySettings);
-    
+    privacySettings: PrivacySettings = DEFAULT_PRIVACY_SETTINGS
+  ): Promise<DocumentAttestationResult> {
+    return this.submitAttestation(vehicleTokenId, this.prepareDocumentAttestation(documentData, privacySettings));
+  }
+
+  // Unredacted; subject and attestorAddress are added by the server
+  private createAttestationData(documentData: DocumentAnalysis, privacySettings: PrivacySettings) {
     return {
-      id: `dimo-ai-doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      source: this.clientId, // Your connection license address
-      producer: `did:ethr:80002:${this.clientId}`, // Your developer license DID
-      specversion: "1.0",
-      subject: `did:erc721:80002:${import.meta.env.VITE_DIMO_VEHICLE_CONTRACT_ADDRESS || '0x45fbCD3ef7361d156e8b16F5538AE36DEdf61Da8'}:${vehicleTokenId}`, // Vehicle DID
-      time: new Date().toISOString(),
-      type: "dimo.attestation",
-      data: {
-        subject: `did:erc721:80002:${import.meta.env.VITE_DIMO_VEHICLE_CONTRACT_ADDRESS || '0x45fbCD3ef7361d156e8b16F5538AE36DEdf61Da8'}:${vehicleTokenId}`,
-        attestorAddress: this.clientId,
-        documentType: this.mapDocumentType(documentData.documentType),
-        vin: documentData.vin,
-        vehicleInfo: sanitizedData.vehicleInfo,
-        serviceInfo: sanitizedData.serviceInfo,
-        insuranceInfo: sanitizedData.insuranceInfo,
-        registrationInfo: sanitizedData.registrationInfo,
-        alertDates: sanitizedData.alertDates,
-        // Add document-specific fields based on type
-        ...(documentData.documentType === 'insurance' && {
-          insured: true,
-          provider: sanitizedData.insuranceInfo?.insuranceProvider || 'Unknown',
-          policyNumber: sanitizedData.insuranceInfo?.policyNumber,
-          coverageType: sanitizedData.insuranceInfo?.coverageType,
-          coverageStartDate: sanitizedData.insuranceInfo?.effectiveDate ? new Date(sanitizedData.insuranceInfo.effectiveDate).getTime() / 1000 : undefined,
-          expirationDate: sanitizedData.insuranceInfo?.expirationDate ? new Date(sanitizedData.insuranceInfo.expirationDate).getTime() / 1000 : undefined
-        }),
-        // Add metadata
-        metadata: {
-          processedAt: new Date().toISOString(),
-          source: "dimo-ai-web",
-          confidence: 0.95,
-          privacySettings
-        }
+      documentType: this.mapDocumentType(documentData.documentType),
+      vin: documentData.vin,
+      vehicleInfo: documentData.vehicleInfo,
+      serviceInfo: documentData.serviceInfo,
+      insuranceInfo: documentData.insuranceInfo,
+      registrationInfo: documentData.registrationInfo,
+      alertDates: documentData.alertDates,
+      // Add document-specific fields based on type
+      ...(documentData.documentType === 'insurance' && {
+        insured: true,
+        provider: documentData.insuranceInfo?.insuranceProvider || 'Unknown',
+        policyNumber: documentData.insuranceInfo?.policyNumber,
+        coverageType: documentData.insuranceInfo?.coverageType,
+        coverageStartDate: documentData.insuranceInfo?.effectiveDate ? new Date(documentData.insuranceInfo.effectiveDate).getTime() / 1000 : undefined,
+        expirationDate: documentData.insuranceInfo?.expirationDate ? new Date(documentData.insuranceInfo.expirationDate).getTime() / 1000 : undefined
+      }),
+      // Add metadata
+      metadata: {
+        processedAt: new Date().toISOString(),
+        source: "dimo-ai-web",
+        confidence: 0.95,
+        privacySettings
       }
     };
   }
 
-  private async postToAttestDimo(payload: any, jwt: string): Promise<boolean> {
+  // The Login with DIMO JWT; the server only attests for signed-in users and their own vehicles
+  private sessionJwt(): string | undefined {
     try {
-      if (DEBUG_MODE) {
-        console.log('Posting attestation via CORS proxy');
-      }
-      
-      // Use local proxy server to avoid CORS issues
-      const response = await fetch('http://localhost:3003/api/dimo-attestation', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          payload,
-          jwt
-        })
-      });
-
-      const responseText = await response.text();
-      if (DEBUG_MODE) {
-        console.log('Raw response from DIMO:', sanitizeForLogging(responseText));
-      }
-      
-      if (!response.ok) {
-        console.error('Attestation failed:', response.status, sanitizeForLogging(responseText));
-        return false;
-      }
-
-      // Try to parse as JSON if there's content
-      if (responseText.trim()) {
-        try {
-          const result = JSON.parse(responseText);
-          if (DEBUG_MODE) {
-          }
-        } catch (parseError) {
-                      if (DEBUG_MODE) {
-              console.log('Response is not JSON, treating as success:', sanitizeForLogging(responseText));
-            }
-        }
-      } else {
-        console.log('Empty response from DIMO, treating as success');
-      }
-      
-      return true;
-    } catch (error) {
-      console.error('Error posting attestation:', error);
-      return false;
+      const storedAuth = localStorage.getItem('dimoAuth');
+      return storedAuth ? JSON.parse(storedAuth).jwt : undefined;
+    } catch {
+      return undefined;
     }
   }
 
-  private async getJWT(): Promise<string> {
-    // Use web3 authentication for DIMO as documented
-    if (this.jwt && Date.now() < this.jwtExpiry) {
-      console.log('Using cached JWT');
-      return this.jwt;
-    }
+  private async postToServer<T extends { success: true }>(method: 'GET' | 'POST', body?: unknown): Promise<T | AttestationFailure> {
+    const headers: Record<string, string> = {};
+    if (body) headers['Content-Type'] = 'application/json';
+    const jwt = this.sessionJwt();
+    if (jwt) headers['Authorization'] = `Bearer ${jwt}`;
 
-    console.log('Getting new JWT from DIMO using web3 authentication');
-    
-    try {
-      // Step 1: Generate challenge
-      console.log('Domain being used:', sanitizeForLogging(this.domain));
-      const challengeUrl = `https://auth.dimo.zone/auth/web3/generate_challenge?client_id=${this.clientId}&domain=${this.domain}&scope=openid email&response_type=code&address=${this.clientId}`;
-      console.log('Generating challenge from:', sanitizeForLogging(challengeUrl));
-      
-      const challengeResponse = await fetch(challengeUrl);
-      
-      if (!challengeResponse.ok) {
-        const errorText = await challengeResponse.text();
-        console.error('Challenge generation failed:', challengeResponse.status, errorText);
-        throw new Error(`Failed to generate challenge: ${challengeResponse.statusText} - ${errorText}`);
-      }
-      
-      const challengeData = await challengeResponse.json();
-      console.log('Challenge generated successfully:', sanitizeForLogging(challengeData));
-      
-      // Step 2: Sign the challenge using the API key as a private key
-      const signature = await this.signChallenge(challengeData.challenge);
-      console.log('Challenge signed successfully');
-      
-      // Step 3: Submit challenge
-      const submitResponse = await fetch('https://auth.dimo.zone/auth/web3/submit_challenge', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          client_id: this.clientId,
-          state: challengeData.state,
-          grant_type: 'authorization_code',
-          domain: this.domain,
-          signature: signature
-        })
-      });
-      
-      if (!submitResponse.ok) {
-        const errorText = await submitResponse.text();
-        console.error('Challenge submission failed:', submitResponse.status, errorText);
-        throw new Error(`Failed to submit challenge: ${submitResponse.statusText} - ${errorText}`);
-      }
-      
-      const tokenData = await submitResponse.json();
-      console.log('JWT obtained successfully using web3 authentication');
-      
-      this.jwt = tokenData.access_token;
-      this.jwtExpiry = Date.now() + (tokenData.expires_in * 1000);
-      
-      return this.jwt;
-    } catch (error) {
-      console.error('Failed to get JWT:', error);
-      throw new Error('Failed to authenticate with DIMO');
-    }
-  }
+    const response = await fetch(this.endpoint, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined
+    });
 
-  private async signChallenge(challenge: string): Promise<string> {
-    try {
-      // Try using the API key directly as a private key
-      // If it's already a valid hex string, use it as-is
-      let privateKey = this.apiKey;
-      
-      // If it doesn't start with 0x, add it
-      if (!privateKey.startsWith('0x')) {
-        privateKey = '0x' + privateKey;
-      }
-      
-      if (DEBUG_MODE) {
-        console.log('Using API key as private key:', sanitizeForLogging(privateKey));
-      }
-      
-      const wallet = new ethers.Wallet(privateKey);
-      
-      // Sign the challenge message
-      const signature = await wallet.signMessage(challenge);
-      console.log('Challenge signed successfully');
-      return signature;
-    } catch (error) {
-      console.error('Failed to sign challenge:', error);
-      throw new Error('Failed to sign challenge');
+    const responseText = await response.text();
+    if (DEBUG_MODE) {
+      console.log('Attestation endpoint response:', sanitizeForLogging(responseText));
     }
-  }
 
-  private async signPayload(data: any): Promise<string> {
+    let result: any;
     try {
-      // Sign the payload data using the API key as private key
-      let privateKey = this.apiKey;
-      
-      // If it doesn't start with 0x, add it
-      if (!privateKey.startsWith('0x')) {
-        privateKey = '0x' + privateKey;
-      }
-      
-      const wallet = new ethers.Wallet(privateKey);
-      
-      // Sign the JSON string directly (ethers will handle the hashing)
-      const messageToSign = JSON.stringify(data);
-      const signature = await wallet.signMessage(messageToSign);
-      console.log('Payload signed successfully');
-      return signature;
-    } catch (error) {
-      console.error('Failed to sign payload:', error);
-      throw new Error('Failed to sign attestation payload');
+      result = JSON.parse(responseText);
+    } catch {
+      return { success: false, configured: true, error: `Attestation endpoint returned ${response.status}` };
     }
-  }
 
-  private sanitizeData(data: DocumentAnalysis, privacy: PrivacySettings): any {
-    const sanitized = { ...data };
-    
-    if (!privacy.includeOwnerInfo) {
-      delete sanitized.vehicleInfo?.ownerName;
-      delete sanitized.vehicleInfo?.ownerAddress;
+    if (!response.ok || !result.success) {
+      return {
+        success: false,
+        configured: result.configured !== false,
+        error: result.error || `Attestation endpoint returned ${response.status}`,
+        id: result.id,
+        subject: result.subject,
+        payloadHash: result.payloadHash,
+        upstreamStatus: result.upstreamStatus,
+        attestation: result.attestation
+      };
     }
-    
-    if (!privacy.includeFinancialInfo) {
-      delete sanitized.serviceInfo?.totalCost;
-      delete sanitized.serviceInfo?.services;
-      delete sanitized.insuranceInfo?.premium;
-    }
-    
-    if (!privacy.includePersonalDetails) {
-      delete sanitized.vehicleInfo?.ownerAddress;
-    }
-    
-    if (!privacy.includeServiceDetails) {
-      delete sanitized.serviceInfo?.services;
-      delete sanitized.serviceInfo?.serviceProvider;
-    }
-    
-    if (!privacy.includeDocumentMetadata) {
-      delete sanitized.extractedText;
-    }
-    
-    console.log('Data sanitized according to privacy settings');
-    return sanitized;
+    return result;
   }
 
   private mapDocumentType(type: string): string {
@@ -394,15 +302,15 @@ export class DimoAttestationService {
     return mapping[type] || 'service';
   }
 
-  // Test method to verify the service is working
-  async testConnection(): Promise<boolean> {
+  // Test method to verify the server can authenticate with DIMO
+  async testConnection(): Promise<AttestationConnectionResult> {
     try {
-      const jwt = await this.getJWT();
-      console.log('DIMO connection test successful');
-      return true;
+      const result = await this.postToServer<Extract<AttestationConnectionResult, { success: true }>>('GET');
+      console.log(result.success ? 'DIMO connection test successful' : 'DIMO connection test failed');
+      return result;
     } catch (error) {
       console.error('DIMO connection test failed:', error);
-      return false;
+      return { success: false, configured: true, error: error instanceof Error ? error.message : String(error) };
     }
   }
 }
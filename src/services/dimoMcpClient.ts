@@ -1,23 +1,130 @@
 // DIMO MCP Client Service
 // Interfaces with the DIMO MCP server to provide vehicle data access
 
+import { cassetteFetch } from '../lib/cassette';
+
 export interface DimoMcpConfig {
+  /** The MCP proxy, see MCP_PROXY_URL */
   serverUrl: string;
   clientId: string;
   domain: string;
   privateKey: string;
+  /**
+   * Milliseconds before a tool call is aborted (VITE_DIMO_MCP_TIMEOUT_MS, default 30000). Keep it above the
+   * server's UPSTREAM_TIMEOUT_MS times its retries so the server can report an upstream timeout first.
+   */
   timeout?: number;
 }
 
+/**
+ * The web app reaches the MCP HTTP server through this proxy (src/server/mcpProxy.ts), which holds the
+ * server's API key so it never ships in the bundle
+ */
+export const MCP_PROXY_URL = '/api/dimo-mcp';
+
+/**
+ * Authorization header for the MCP proxy: the user's Login with DIMO session
+ */
+export const mcpAuthHeaders = (): Record<string, string> => {
+  try {
+    const storedAuth = localStorage.getItem('dimoAuth');
+    const jwt = storedAuth ? JSON.parse(storedAuth).jwt : undefined;
+    return jwt ? { 'Authorization': `Bearer ${jwt}` } : {};
+  } catch {
+    return {};
+  }
+};
+
 export interface DimoIdentityQuery {
   query: string;
-  variables?: Record<string, any>;
+  variables?: Record<string, unknown>;
+  /** Skip the MCP server's response cache */
+  bypassCache?: boolean;
 }
 
 export interface DimoTelemetryQuery {
   query: string;
-  variables?: Record<string, any>;
+  variables?: Record<string, unknown>;
+  tokenId: number;
+  /** Skip the MCP server's response cache */
+  bypassCache?: boolean;
+}
+
+export interface DimoVehicleBatchQuery {
+  tokenIds: number[];
+  /** Identity query template declaring $tokenId: Int!, run once per vehicle */
+  identityQuery?: string;
+  /** Telemetry query template declaring $tokenId: Int!, run once per vehicle */
+  telemetryQuery?: string;
+  variables?: Record<string, string>;
+  /** Vehicle JWT privileges for the telemetry query, 1-4 when omitted */
+  privileges?: number[];
+  /** Vehicles queried at once, capped by the server's BATCH_CONCURRENCY */
+  concurrency?: number;
+  bypassCache?: boolean;
+}
+
+export interface DimoVehicleBatchResult<I = unknown, T = unknown> {
+  tokenId: number;
+  identity?: I;
+  telemetry?: T;
+  errors?: Partial<Record<'identity' | 'telemetry', string>>;
+}
+
+export interface DimoVehicleBatchSummary<I = unknown, T = unknown> {
+  vehicles: number;
+  succeeded: number;
+  failed: number;
+  results: DimoVehicleBatchResult<I, T>[];
+}
+
+export interface DimoTelemetryHistoryQuery {
+  tokenId: number;
+  signals: string[];
+  from: string;
+  to: string;
+  interval?: string;
+  aggregation?: 'AVG' | 'MIN' | 'MAX' | 'LAST';
+}
+
+export interface DimoTelemetrySeries {
+  tokenId: number;
+  from: string;
+  to: string;
+  interval: string;
+  aggregation: 'AVG' | 'MIN' | 'MAX' | 'LAST';
+  timestamps: string[];
+  series: Record<string, Array<number | null>>;
+}
+
+export interface DimoTripSegmentsQuery {
+  tokenId: number;
+  from: string;
+  to: string;
+  interval?: string;
+  idleSpeedKmh?: number;
+  maxGapMinutes?: number;
+  minDurationMinutes?: number;
+}
+
+export interface DimoTrip {
+  start: string;
+  end: string;
+  durationSeconds: number;
+  distanceKm: number;
+  maxSpeedKmh: number;
+  idleSeconds: number;
+}
+
+export interface DimoTripSummary {
   tokenId: number;
+  from: string;
+  to: string;
+  tripCount: number;
+  totalDistanceKm: number;
+  totalDurationSeconds: number;
+  totalIdleSeconds: number;
+  trips: DimoTrip[];
 }
 
 export interface DimoVinOperation {
@@ -40,7 +147,61 @@ export interface DimoAttestation {
   force?: boolean;
 }
 
-export interface DimoMcpResponse<T = any> {
+export type DimoVehicleCommandName =
+  | 'lock_doors'
+  | 'unlock_doors'
+  | 'open_trunk'
+  | 'open_frunk'
+  | 'start_charging'
+  | 'stop_charging'
+  | 'start_climate'
+  | 'stop_climate';
+
+export interface DimoCommandConfirmation {
+  confirmationRequired: true;
+  command: DimoVehicleCommandName;
+  tokenId: number;
+  confirmationToken: string;
+  expiresAt: string;
+  message: string;
+}
+
+export interface DimoCommandRecord {
+  id: string;
+  tokenId: number;
+  command: DimoVehicleCommandName;
+  issuedBy: string;
+  executedAt: string;
+  success: boolean;
+  upstreamStatus?: number;
+  upstreamResponse?: unknown;
+  error?: string;
+}
+
+export interface DimoSchemaSearch {
+  api: 'identity' | 'telemetry';
+  keyword: string;
+  limit?: number;
+}
+
+export interface DimoSchemaMatch {
+  type: string;
+  kind: string;
+  field?: string;
+  signature?: string;
+  description?: string;
+}
+
+export interface DimoSchemaSearchResult {
+  api: string;
+  keyword: string;
+  schemaOrigin: 'pinned' | 'introspection' | 'snapshot';
+  schemaLoadedAt: string;
+  total: number;
+  matches: DimoSchemaMatch[];
+}
+
+export interface DimoMcpResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
@@ -63,17 +224,18 @@ class DimoMcpClient {
   /**
    * Query DIMO Identity GraphQL API (public)
    */
-  async identityQuery(request: DimoIdentityQuery): Promise<DimoMcpResponse> {
+  async identityQuery<T = unknown>(request: DimoIdentityQuery): Promise<DimoMcpResponse<T>> {
     return this.callMcpTool('identity_query', {
       query: request.query,
       variables: request.variables || {},
+      ...(request.bypassCache && { bypassCache: true }),
     });
   }
 
   /**
    * Query DIMO Telemetry GraphQL API (authenticated)
    */
-  async telemetryQuery(request: DimoTelemetryQuery): Promise<DimoMcpResponse> {
+  async telemetryQuery<T = unknown>(request: DimoTelemetryQuery): Promise<DimoMcpResponse<T>> {
     return this.callMcpTool('telemetry_query', {
       query: request.query,
       variables: {
@@ -81,18 +243,69 @@ class DimoMcpClient {
         tokenId: request.tokenId.toString(),
       },
       tokenId: request.tokenId,
+      ...(request.bypassCache && { bypassCache: true }),
     });
   }
 
   /**
-   * VIN operations (decode or get)
+   * The same identity and/or telemetry query for many vehicles in one call, with per-vehicle errors
+   */
+  async vehicleBatchQuery<I = unknown, T = unknown>(
+    request: DimoVehicleBatchQuery
+  ): Promise<DimoMcpResponse<DimoVehicleBatchSummary<I, T>>> {
+    return this.callMcpTool('vehicle_batch_query', {
+      tokenIds: request.tokenIds,
+      ...(request.identityQuery && { identityQuery: request.identityQuery }),
+      ...(request.telemetryQuery && { telemetryQuery: request.telemetryQuery }),
+      ...(request.variables && { variables: request.variables }),
+      ...(request.privileges && { privileges: request.privileges }),
+      ...(request.concurrency && { concurrency: request.concurrency }),
+      ...(request.bypassCache && { bypassCache: true }),
+    });
+  }
+
+  /**
+   * Aggregated telemetry time series (authenticated)
+   */
+  async telemetryHistory(request: DimoTelemetryHistoryQuery): Promise<DimoMcpResponse<DimoTelemetrySeries>> {
+    return this.callMcpTool('telemetry_history', {
+      tokenId: request.tokenId,
+      signals: request.signals,
+      from: request.from,
+      to: request.to,
+      ...(request.interval && { interval: request.interval }),
+      ...(request.aggregation && { aggregation: request.aggregation }),
+    });
+  }
+
+  /**
+   * Trips derived from ignition, speed and odometer history (authenticated)
+   */
+  async tripSegments(request: DimoTripSegmentsQuery): Promise<DimoMcpResponse<DimoTripSummary>> {
+    return this.callMcpTool('trip_segments', {
+      tokenId: request.tokenId,
+      from: request.from,
+      to: request.to,
+      ...(request.interval && { interval: request.interval }),
+      ...(request.idleSpeedKmh !== undefined && { idleSpeedKmh: request.idleSpeedKmh }),
+      ...(request.maxGapMinutes !== undefined && { maxGapMinutes: request.maxGapMinutes }),
+      ...(request.minDurationMinutes !== undefined && { minDurationMinutes: request.minDurationMinutes }),
+    });
+  }
+
+  /**
+   * VIN operations (decode or get), both served by the vin_decode tool
    */
   async vinOperations(request: DimoVinOperation): Promise<DimoMcpResponse> {
-    return this.callMcpTool('vin_operations', {
-      operation: request.operation,
-      ...(request.vin && { vin: request.vin }),
+    if (request.operation === 'get') {
+      return this.callMcpTool('vin_decode', {
+        tokenId: request.tokenId,
+        ...(request.countryCode && { countryCode: request.countryCode }),
+      });
+    }
+    return this.callMcpTool('vin_decode', {
+      vin: request.vin,
       ...(request.countryCode && { countryCode: request.countryCode }),
-      ...(request.tokenId && { tokenId: request.tokenId }),
     });
   }
 
@@ -104,7 +317,7 @@ class DimoMcpClient {
   async searchVehicles(request: DimoVehicleSearch): Promise<DimoMcpResponse> {
     return this.callMcpTool('search_vehicles', {
       ...(request.query && { query: request.query }),
-      ...(request.makeSlug && { makeSlug: request.makeSlug }),
+      ...(request.makeSlug && { make: request.makeSlug }),
       ...(request.year && { year: request.year }),
       ...(request.model && { model: request.model }),
     });
@@ -121,6 +334,31 @@ class DimoMcpClient {
     });
   }
 
+  /**
+   * Remote vehicle command (requires privilege 6). Call without a confirmationToken to get one,
+   * then call again with it to execute the command.
+   */
+  async vehicleCommand(
+    command: DimoVehicleCommandName,
+    tokenId: number,
+    confirmationToken?: string
+  ): Promise<DimoMcpResponse<DimoCommandConfirmation | DimoCommandRecord>> {
+    return this.callMcpTool(command, {
+      tokenId,
+      ...(confirmationToken && { confirmationToken }),
+    });
+  }
+
+  /**
+   * Commands executed through the MCP server, most recent first
+   */
+  async getCommandHistory(tokenId?: number, limit?: number): Promise<DimoMcpResponse<DimoCommandRecord[]>> {
+    return this.callMcpTool('command_history', {
+      ...(tokenId !== undefined && { tokenId }),
+      ...(limit !== undefined && { limit }),
+    });
+  }
+
   /**
    * Get Identity API schema
    */
@@ -135,21 +373,35 @@ class DimoMcpClient {
     return this.callMcpTool('telemetry_introspect', {});
   }
 
+  /**
+   * Find schema types and fields matching a keyword
+   */
+  async searchSchema(request: DimoSchemaSearch): Promise<DimoMcpResponse<DimoSchemaSearchResult>> {
+    return this.callMcpTool('schema_search', {
+      api: request.api,
+      keyword: request.keyword,
+      ...(request.limit && { limit: request.limit }),
+    });
+  }
+
   /**
    * Generic MCP tool call
    */
-  private async callMcpTool(toolName: string, params: any): Promise<DimoMcpResponse> {
+  private async callMcpTool<T = unknown>(toolName: string, params: Record<string, unknown>): Promise<DimoMcpResponse<T>> {
     const startTime = Date.now();
-    
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(new Error(`MCP tool call ${toolName} timed out after ${this.timeout}ms`)),
+      this.timeout
+    );
+
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
-      const response = await fetch(`${this.config.serverUrl}/mcp/tools/${toolName}`, {
+      const response = await cassetteFetch(`${this.config.serverUrl}/mcp/tools/${toolName}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.clientId}`,
+          ...mcpAuthHeaders(),
         },
         body: JSON.stringify({
           params,
@@ -161,10 +413,12 @@ class DimoMcpClient {
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
-        throw new Error(`MCP tool call failed: ${response.status} ${response.statusText}`);
+        // 401/403 bodies carry the reason and a code such as insufficient_scope or vehicle_not_allowed
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error
+          ? `MCP tool call failed: ${body.error}${body.code ? ` (${body.code})` : ''}`
+          : `MCP tool call failed: ${response.status} ${response.statusText}`);
       }
 
       const result = await response.json();
@@ -184,13 +438,17 @@ class DimoMcpClient {
       
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'MCP tool call failed',
+        error: controller.signal.aborted
+          ? controller.signal.reason.message
+          : error instanceof Error ? error.message : 'MCP tool call failed',
         metadata: {
           processingTime: Date.now() - startTime,
           operation: toolName,
           timestamp: new Date().toISOString(),
         },
       };
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
@@ -200,7 +458,7 @@ class DimoMcpClient {
   async healthCheck(): Promise<{ available: boolean; latency?: number }> {
     try {
       const startTime = Date.now();
-      const response = await fetch(`${this.config.serverUrl}/health`, {
+      const response = await cassetteFetch(`${this.config.serverUrl}/health`, {
         method: 'GET',
         signal: AbortSignal.timeout(5000),
       });
@@ -294,10 +552,11 @@ class DimoMcpClient {
 
 // Export singleton instance
 export const dimoMcpClient = new DimoMcpClient({
-  serverUrl: import.meta.env.VITE_DIMO_MCP_SERVER_URL || 'http://localhost:3001',
+  serverUrl: MCP_PROXY_URL,
   clientId: import.meta.env.VITE_DIMO_CLIENT_ID || '',
   domain: import.meta.env.VITE_DIMO_DOMAIN || '',
   privateKey: import.meta.env.VITE_DIMO_PRIVATE_KEY || '',
+  timeout: Number(import.meta.env.VITE_DIMO_MCP_TIMEOUT_MS) || 30000,
 });
 
  
\ No newline at end of file
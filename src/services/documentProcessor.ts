@@ -1,4 +1,5 @@
 import { db } from '@/lib/supabase';
+import { cassetteFetch } from '@/lib/cassette';
 
 interface DocumentAnalysis {
   documentType: 'car_registration' | 'insurance' | 'oil_change_receipt' | 'service_invoice' | 'unknown';
@@ -189,7 +190,7 @@ IMPORTANT RULES:
       headers['OpenAI-Organization'] = this.openaiOrgId;
     }
 
-    const response = await fetch(`${this.openaiEndpoint}/chat/completions`, {
+    const response = await cassetteFetch(`${this.openaiEndpoint}/chat/completions`, {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -266,7 +267,7 @@ IMPORTANT RULES:
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
 
-      const response = await fetch('https://api.ocr.space/parse/image', {
+      const response = await cassetteFetch('https://api.ocr.space/parse/image', {
         method: 'POST',
         body: formData,
         signal: controller.signal
@@ -408,7 +409,7 @@ IMPORTANT RULES:
       headers['OpenAI-Organization'] = this.openaiOrgId;
     }
 
-    const response = await fetch(`${this.openaiEndpoint}/chat/completions`, {
+    const response = await cassetteFetch(`${this.openaiEndpoint}/chat/completions`, {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -1,9 +1,13 @@
+/** What happens to a field the settings exclude: dropped, or replaced by a salted hash that can prove it later */
+export type RedactionMode = 'drop' | 'hash';
+
 export interface PrivacySettings {
   includeOwnerInfo: boolean;
   includeFinancialInfo: boolean;
   includePersonalDetails: boolean;
   includeServiceDetails: boolean;
   includeDocumentMetadata: boolean;
+  redactionMode: RedactionMode;
 }
 
 export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
@@ -11,5 +15,6 @@ export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
   includeFinancialInfo: false,
   includePersonalDetails: false,
   includeServiceDetails: true,
-  includeDocumentMetadata: true
+  includeDocumentMetadata: true,
+  redactionMode: 'drop'
 };
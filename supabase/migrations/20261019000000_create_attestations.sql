@@ -0,0 +1,26 @@
+-- Attestation history: every attempt to attest a document, successful or not (see src/server/attestationHistory.ts)
+
+create table if not exists attestations (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references documents (id) on delete cascade,
+  token_id integer not null,
+  status text not null check (status in ('attested', 'failed')),
+  cloud_event_id text,
+  subject text,          -- vehicle DID
+  payload_hash text,     -- SHA-256 of the signed data
+  upstream_status integer,
+  error text,
+  signer text,
+  event text,            -- signed CloudEvent JSON
+  redaction_salt text,   -- salt of hashed fields, kept private
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attestations_document_id_idx on attestations (document_id);
+
+-- The app reads the history with the anon key; only the attestation server writes it, with the service
+-- role key, which bypasses row level security. Attempts are never updated or deleted.
+alter table attestations enable row level security;
+
+drop policy if exists "Attestation history is readable" on attestations;
+create policy "Attestation history is readable" on attestations for select using (true);
@@ -1,83 +1,89 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
-import type { Connect } from 'vite';
+import { handleAttestationRequest } from "./src/server/attestation";
+import { handleMcpProxyRequest } from "./src/server/mcpProxy";
 
-// https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-    proxy: {
-    },
-    // Add custom middleware for DIMO attestation
-    setupMiddlewares: (middlewares: Connect.HandleFunction[], devServer: any) => {
-      // Add custom middleware before other middlewares
-      devServer.middlewares.use('/api/dimo-attestation', async (req: any, res: any, next: any) => {
-        if (req.method === 'POST') {
+interface ServerRouteRequest {
+  method: string | undefined;
+  /** Path below the route, "/" for the route itself */
+  path: string;
+  body: unknown;
+  authorization: string | undefined;
+}
+
+// Serve a server handler in development like its Vercel function in api/
+function serverRoute(
+  name: string,
+  route: string,
+  handle: (request: ServerRouteRequest) => Promise<{ status: number; body: unknown }>
+): Plugin {
+  return {
+    name,
+    configureServer(server) {
+      server.middlewares.use(route, (req, res, next) => {
+        if (req.method !== 'POST' && req.method !== 'GET') {
+          next();
+          return;
+        }
+
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk.toString();
+        });
+
+        req.on('end', async () => {
+          let status = 500;
+          let result: unknown;
           try {
-            console.log('DIMO attestation proxy request received');
-            
-            // Read the request body
-            let body = '';
-            req.on('data', (chunk: any) => {
-              body += chunk.toString();
-            });
-            
-            req.on('end', async () => {
-              try {
-                const { payload, jwt } = JSON.parse(body);
-                
-                // Forward the request to DIMO
-                const dimoResponse = await fetch('https://attest.dimo.zone/', {
-                  method: 'POST',
-                  headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${jwt}`
-                  },
-                  body: JSON.stringify(payload)
-                });
-                
-                const responseText = await dimoResponse.text();
-                
-                // Set CORS headers
-                res.setHeader('Access-Control-Allow-Origin', '*');
-                res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-                res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-                
-                res.status(dimoResponse.status).send(responseText);
-              } catch (error) {
-                console.error('Error in DIMO attestation proxy:', error);
-                res.status(500).json({ error: 'Proxy error' });
-              }
-            });
+            ({ status, body: result } = await handle({
+              method: req.method,
+              path: (req.url ?? '/').split('?')[0],
+              body: body ? JSON.parse(body) : undefined,
+              authorization: req.headers.authorization,
+            }));
           } catch (error) {
-            console.error('Error in DIMO attestation middleware:', error);
-            res.status(500).json({ error: 'Middleware error' });
+            console.error(`Error in ${name} middleware:`, error);
+            result = { success: false, error: `${name} error` };
           }
-        } else if (req.method === 'OPTIONS') {
-          // Handle preflight requests
-          res.setHeader('Access-Control-Allow-Origin', '*');
-          res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-          res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-          res.status(200).end();
-        } else {
-          next();
-        }
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(result));
+        });
       });
-      
-      return middlewares;
-    }
-  },
-  plugins: [
-    react(),
-    mode === 'development' &&
-    componentTagger(),
-  ].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
     },
-  },
-}));
+  };
+}
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => {
+  // Includes the unprefixed, server-only variables such as DIMO_PRIVATE_KEY, which never reach the bundle
+  const env = { ...loadEnv(mode, process.cwd(), ''), ...process.env };
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+    },
+    plugins: [
+      react(),
+      serverRoute('dimo-attestation', '/api/dimo-attestation', ({ method, body, authorization }) =>
+        handleAttestationRequest({ method, body, authorization }, env)
+      ),
+      serverRoute('dimo-mcp', '/api/dimo-mcp', (request) => handleMcpProxyRequest(request, env)),
+      mode === 'development' &&
+      componentTagger(),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
+    },
+    test: {
+      // mcp-dimo has its own tests, run with bun test
+      include: ["src/**/*.test.ts"],
+    },
+  };
+});